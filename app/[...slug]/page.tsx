@@ -2,6 +2,7 @@
 'use client';
 
 import PostPage from "@/components/blog/PostPage";
+import HashtagPage from "@/components/hashtag/HashtagPage";
 import NotificationsComp from "@/components/notifications/NotificationsComp";
 import ProfilePage from "@/components/profile/ProfilePage";
 import WalletPage from "@/components/wallet/WalletPage";
@@ -10,11 +11,16 @@ interface HomePageProps {
   params: {
     slug: string[];
   };
+  searchParams?: { [key: string]: string | string[] | undefined };
 }
 
-export default function HomePage({ params }: HomePageProps) {
+export default function HomePage({ params, searchParams }: HomePageProps) {
 
-    if (params.slug.length === 1 && decodeURIComponent(params.slug[0]).startsWith('@')) {
+    if (params.slug.length === 2 && params.slug[0] === 'trending') {
+      return (
+        <HashtagPage tag={decodeURIComponent(params.slug[1])} />
+      )
+    } else if (params.slug.length === 1 && decodeURIComponent(params.slug[0]).startsWith('@')) {
       return (
         <ProfilePage username={decodeURIComponent(params.slug[0]).substring(1)} />
       )
@@ -28,7 +34,11 @@ export default function HomePage({ params }: HomePageProps) {
       )
     } else if ((params.slug.length === 2 && decodeURIComponent(params.slug[0]).startsWith('@')) || (params.slug.length === 3 && decodeURIComponent(params.slug[1]).startsWith('@'))) {
       return (
-        <PostPage author={decodeURIComponent(params.slug[0]).substring(1)} permlink={params.slug[1]} />
+        <PostPage
+          author={decodeURIComponent(params.slug[0]).substring(1)}
+          permlink={params.slug[1]}
+          reply={typeof searchParams?.reply === 'string' ? searchParams.reply : undefined}
+        />
       )
     }
 
@@ -0,0 +1,28 @@
+// app/api/polls/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { pollAggregator } from '@/lib/hive/poll-aggregator';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/polls?author=&permlink=, the tally of the poll attached to a post
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const author = params.get('author');
+  const permlink = params.get('permlink');
+  if (!author || !permlink) {
+    return NextResponse.json({ error: 'author and permlink are required' }, { status: 400 });
+  }
+
+  try {
+    const results = await pollAggregator.getResults(author, permlink);
+    if (!results) {
+      return NextResponse.json({ error: 'This post has no poll' }, { status: 404 });
+    }
+    return NextResponse.json(results);
+  } catch (error) {
+    console.error('Error tallying poll:', error);
+    return NextResponse.json({ error: 'Poll results unavailable' }, { status: 502 });
+  }
+}
@@ -0,0 +1,83 @@
+// app/api/scheduler/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { postScheduler, verifySchedulerAuth } from '@/lib/hive/post-scheduler';
+import { ScheduledPostChanges, validatePublishAt, validateScheduledOperations } from '@/lib/utils/scheduledPosts';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Find a job of the signed in author that can still be changed
+ */
+async function getEditableJob(request: NextRequest, id: string) {
+  if (!postScheduler.isConfigured()) {
+    return { error: NextResponse.json({ error: 'Scheduled publishing is not enabled' }, { status: 503 }) };
+  }
+
+  const author = await verifySchedulerAuth(request.headers);
+  if (!author) {
+    return { error: NextResponse.json({ error: 'Invalid or expired signature' }, { status: 401 }) };
+  }
+
+  const job = await postScheduler.getJob(id);
+  if (!job || job.author !== author) {
+    return { error: NextResponse.json({ error: 'Scheduled post not found' }, { status: 404 }) };
+  }
+  if (job.status !== 'scheduled' && job.status !== 'failed') {
+    return { error: NextResponse.json({ error: `This post is already ${job.status}` }, { status: 409 }) };
+  }
+
+  return { author, job };
+}
+
+/**
+ * PATCH /api/scheduler/:id with `{ operations?, publishAt? }`
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  let body: { operations?: unknown; publishAt?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { author, job, error } = await getEditableJob(request, params.id);
+    if (error) return error;
+
+    const changes: ScheduledPostChanges = {};
+    if (body.operations !== undefined) {
+      const { operations, error: operationsError } = validateScheduledOperations(author, body.operations);
+      if (!operations) return NextResponse.json({ error: operationsError }, { status: 400 });
+      changes.operations = operations;
+    }
+    if (body.publishAt !== undefined) {
+      const publishAtError = validatePublishAt(String(body.publishAt));
+      if (publishAtError) return NextResponse.json({ error: publishAtError }, { status: 400 });
+      changes.publishAt = String(body.publishAt);
+    }
+
+    return NextResponse.json({ job: await postScheduler.updateJob(job, changes) });
+  } catch (error) {
+    console.error('Error updating scheduled post:', error);
+    return NextResponse.json({ error: 'Scheduler unavailable' }, { status: 502 });
+  }
+}
+
+/**
+ * DELETE /api/scheduler/:id cancels the post, the job stays listed as cancelled
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { job, error } = await getEditableJob(request, params.id);
+    if (error) return error;
+
+    return NextResponse.json({ job: await postScheduler.cancelJob(job) });
+  } catch (error) {
+    console.error('Error cancelling scheduled post:', error);
+    return NextResponse.json({ error: 'Scheduler unavailable' }, { status: 502 });
+  }
+}
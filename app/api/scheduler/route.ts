@@ -0,0 +1,74 @@
+// app/api/scheduler/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { hasGrantedPostingAuthority, postScheduler, verifySchedulerAuth } from '@/lib/hive/post-scheduler';
+import { validatePublishAt, validateScheduledOperations } from '@/lib/utils/scheduledPosts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/scheduler, the scheduled posts of the signed in author
+ */
+export async function GET(request: NextRequest) {
+  if (!postScheduler.isConfigured()) {
+    return NextResponse.json({ error: 'Scheduled publishing is not enabled' }, { status: 503 });
+  }
+
+  const author = await verifySchedulerAuth(request.headers);
+  if (!author) {
+    return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 401 });
+  }
+
+  try {
+    const [jobs, hasAuthority] = await Promise.all([
+      postScheduler.listJobs(author),
+      hasGrantedPostingAuthority(postScheduler.client, author, postScheduler.account),
+    ]);
+    return NextResponse.json({ account: postScheduler.account, hasAuthority, jobs });
+  } catch (error) {
+    console.error('Error listing scheduled posts:', error);
+    return NextResponse.json({ error: 'Scheduler unavailable' }, { status: 502 });
+  }
+}
+
+/**
+ * POST /api/scheduler with `{ operations, publishAt }`
+ */
+export async function POST(request: NextRequest) {
+  if (!postScheduler.isConfigured()) {
+    return NextResponse.json({ error: 'Scheduled publishing is not enabled' }, { status: 503 });
+  }
+
+  const author = await verifySchedulerAuth(request.headers);
+  if (!author) {
+    return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 401 });
+  }
+
+  let body: { operations?: unknown; publishAt?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const publishAt = String(body.publishAt || '');
+  const { operations, error: operationsError } = validateScheduledOperations(author, body.operations);
+  const validationError = operationsError || validatePublishAt(publishAt);
+  if (!operations || validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    if (!(await hasGrantedPostingAuthority(postScheduler.client, author, postScheduler.account))) {
+      return NextResponse.json(
+        { error: `Grant posting authority to @${postScheduler.account} to schedule posts`, account: postScheduler.account },
+        { status: 403 }
+      );
+    }
+
+    const job = await postScheduler.createJob(author, operations, publishAt);
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error('Error scheduling post:', error);
+    return NextResponse.json({ error: 'Scheduler unavailable' }, { status: 502 });
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/scheduler/run/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { postScheduler } from '@/lib/hive/post-scheduler';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/scheduler/run publishes the due posts, for cron jobs on hosts without a long-running worker.
+ * Requires `Authorization: Bearer <SCHEDULER_CRON_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.SCHEDULER_CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!postScheduler.isConfigured()) {
+    return NextResponse.json({ error: 'Scheduled publishing is not enabled' }, { status: 503 });
+  }
+
+  try {
+    const jobs = await postScheduler.runDueJobs();
+    return NextResponse.json({
+      processed: jobs.map((job) => ({ id: job.id, status: job.status, trxId: job.trxId, lastError: job.lastError })),
+    });
+  } catch (error) {
+    console.error('Error running scheduled posts:', error);
+    return NextResponse.json({ error: 'Scheduler unavailable' }, { status: 502 });
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/snaps/quotes/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_QUOTE_TARGETS, QuoteTarget, snapsIndexer } from '@/lib/hive/snaps-indexer';
+
+export const dynamic = 'force-dynamic';
+
+async function handleCount(targets: QuoteTarget[]) {
+  try {
+    const counts = await snapsIndexer.countQuotes(targets);
+    return NextResponse.json({ counts });
+  } catch (error) {
+    console.error('Error counting quotes:', error);
+    return NextResponse.json({ error: 'Snaps index unavailable' }, { status: 502 });
+  }
+}
+
+/**
+ * GET /api/snaps/quotes?author=&permlink=&since=, how many snaps quote a snap
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const author = params.get('author');
+  const permlink = params.get('permlink');
+  const since = params.get('since');
+  if (!author || !permlink || !since) {
+    return NextResponse.json({ error: 'author, permlink and since are required' }, { status: 400 });
+  }
+
+  return handleCount([{ author, permlink, since }]);
+}
+
+/**
+ * POST /api/snaps/quotes with `{ snaps: [{ author, permlink, since }] }`, the counts of a whole page at once
+ */
+export async function POST(request: NextRequest) {
+  let body: { snaps?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const targets = Array.isArray(body.snaps)
+    ? body.snaps
+        .filter((snap: any) => snap?.author && snap?.permlink && snap?.since)
+        .map((snap: any) => ({ author: String(snap.author), permlink: String(snap.permlink), since: String(snap.since) }))
+    : [];
+  if (!targets.length || targets.length > MAX_QUOTE_TARGETS) {
+    return NextResponse.json({ error: `snaps must list 1 to ${MAX_QUOTE_TARGETS} snaps` }, { status: 400 });
+  }
+
+  return handleCount(targets);
+}
@@ -0,0 +1,56 @@
+// app/api/snaps/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { snapsIndexer, SnapsQuery } from '@/lib/hive/snaps-indexer';
+
+export const dynamic = 'force-dynamic';
+
+async function handleQuery(query: SnapsQuery) {
+  try {
+    const page = await snapsIndexer.querySnaps(query);
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('Error querying snaps index:', error);
+    return NextResponse.json({ error: 'Snaps index unavailable' }, { status: 502 });
+  }
+}
+
+/**
+ * GET /api/snaps?tag=&hashtag=&hashtags=a,b&authors=a,b&before_permlink=&before_date=&limit=
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const authors = params.get('authors');
+  const hashtags = params.get('hashtags');
+  const beforePermlink = params.get('before_permlink');
+  const beforeDate = params.get('before_date');
+
+  return handleQuery({
+    tag: params.get('tag') || undefined,
+    hashtag: params.get('hashtag') || undefined,
+    hashtags: hashtags !== null ? hashtags.split(',').filter(Boolean) : undefined,
+    authors: authors !== null ? authors.split(',').filter(Boolean) : undefined,
+    cursor: beforePermlink && beforeDate ? { permlink: beforePermlink, date: beforeDate } : null,
+    limit: Number(params.get('limit')) || undefined,
+  });
+}
+
+/**
+ * POST /api/snaps with a SnapsQuery body, for author lists too long for a query string
+ */
+export async function POST(request: NextRequest) {
+  let body: SnapsQuery;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  return handleQuery({
+    tag: typeof body.tag === 'string' ? body.tag : undefined,
+    hashtag: typeof body.hashtag === 'string' ? body.hashtag : undefined,
+    hashtags: Array.isArray(body.hashtags) ? body.hashtags.map(String) : undefined,
+    authors: Array.isArray(body.authors) ? body.authors.map(String) : undefined,
+    cursor: body.cursor?.permlink && body.cursor?.date ? { permlink: String(body.cursor.permlink), date: String(body.cursor.date) } : null,
+    limit: Number(body.limit) || undefined,
+  });
+}
@@ -1,8 +1,12 @@
 'use client';
-import { Container } from '@chakra-ui/react';
+import { Badge, Box, Container, Link } from '@chakra-ui/react';
 import { useState, useRef, useEffect } from 'react';
 import { Discussion } from '@hiveio/dhive';
-import { findPosts, getCommunityMutedAccounts } from '@/lib/hive/client-functions';
+import { findPosts, getFeedPosts } from '@/lib/hive/client-functions';
+import { useModeration } from '@/hooks/useModeration';
+import { useContentFilters } from '@/hooks/useContentFilters';
+import { getFilterReason } from '@/lib/utils/contentFilters';
+import { useAioha } from '@aioha/react-ui';
 import TopBar from '@/components/blog/TopBar';
 import PostInfiniteScroll from '@/components/blog/PostInfiniteScroll';
 
@@ -10,12 +14,17 @@ export default function Blog() {
     const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
     const [query, setQuery] = useState("created");
     const [allPosts, setAllPosts] = useState<Discussion[]>([]);
-    const [mutedLoaded, setMutedLoaded] = useState(false);
+    const [filteredCount, setFilteredCount] = useState(0);
     const isFetching = useRef(false);
-    const mutedAccountsRef = useRef<string[]>([]);
+    const { user } = useAioha();
+    const { isLoaded: mutedLoaded, isHidden } = useModeration(user);
+    const isHiddenRef = useRef(isHidden);
+    isHiddenRef.current = isHidden;
+    const { rules: contentFilterRules } = useContentFilters();
+    const contentFilterRulesRef = useRef(contentFilterRules);
+    contentFilterRulesRef.current = contentFilterRules;
 
     const tag = process.env.NEXT_PUBLIC_HIVE_SEARCH_TAG
-    const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG
 
     const params = useRef({
         tag: tag,
@@ -28,17 +37,28 @@ export default function Blog() {
         if (isFetching.current) return; // Prevent multiple fetches
         isFetching.current = true;
         try {
-            const posts = await findPosts(query, params.current);
+            // 'feed' is the logged-in user's following feed, from the Bridge API
+            const posts: Discussion[] = query === 'feed' && user
+                ? await getFeedPosts(user, params.current.start_author, params.current.start_permlink, 12)
+                : await findPosts(query, params.current);
             
             // Filter out comments and muted accounts
-            const topLevelPosts = posts.filter((post: Discussion) => {
+            const allowedPosts = posts.filter((post: Discussion) => {
                 const isTopLevel = post.parent_author === '';
-                const isMuted = mutedAccountsRef.current.includes(post.author);
+                const isMuted = isHiddenRef.current(post.author);
                 return isTopLevel && !isMuted;
             });
+            // Then apply the user's content filters, counting what they hide
+            const topLevelPosts = allowedPosts.filter(
+                (post: Discussion) => getFilterReason(post, contentFilterRulesRef.current) === null
+            );
+            setFilteredCount(prev => prev + allowedPosts.length - topLevelPosts.length);
             
             if (topLevelPosts.length > 0) {
-                setAllPosts(prevPosts => [...prevPosts, ...topLevelPosts]);
+                setAllPosts(prevPosts => {
+                    const existing = new Set(prevPosts.map((post) => `${post.author}/${post.permlink}`));
+                    return [...prevPosts, ...topLevelPosts.filter((post: Discussion) => !existing.has(`${post.author}/${post.permlink}`))];
+                });
                 // Use last visible post for pagination
                 const lastVisible = topLevelPosts[topLevelPosts.length - 1] ?? posts[posts.length - 1];
                 params.current = {
@@ -55,22 +75,11 @@ export default function Blog() {
         }
     }
 
-    // Fetch community muted accounts on mount
     useEffect(() => {
-        const fetchMutedAccounts = async () => {
-            if (communityTag) {
-                const muted = await getCommunityMutedAccounts(communityTag);
-                mutedAccountsRef.current = muted;
-                setMutedLoaded(true);
-            }
-        };
-        fetchMutedAccounts();
-    }, [communityTag]);
-
-    useEffect(() => {
-        if (!mutedLoaded) return; // Wait for muted accounts to load
+        if (!mutedLoaded) return; // Wait for the moderation lists to load
         
         setAllPosts([]);
+        setFilteredCount(0);
         params.current = {
             tag: tag,
             limit: 12,
@@ -78,7 +87,7 @@ export default function Blog() {
             start_permlink: '',
         };
         fetchPosts();
-    }, [query, mutedLoaded]);
+    }, [query, mutedLoaded, contentFilterRules]);
 
     return (
         <Container
@@ -94,7 +103,16 @@ export default function Blog() {
                 scrollbarWidth: 'none',
             }}
         >
-            <TopBar viewMode={viewMode} setViewMode={setViewMode} setQuery={setQuery} />
+            <TopBar viewMode={viewMode} setViewMode={setViewMode} setQuery={setQuery} showFollowing={!!user} />
+            {filteredCount > 0 && (
+                <Box textAlign="right" mb={2}>
+                    <Link href="/settings" _hover={{ textDecoration: 'none' }}>
+                        <Badge bg="muted" color="text" borderRadius="full" px={2} title="Manage your content filters">
+                            {filteredCount} filtered
+                        </Badge>
+                    </Link>
+                </Box>
+            )}
             <PostInfiniteScroll allPosts={allPosts} fetchPosts={fetchPosts} viewMode={viewMode} />
         </Container>
     );
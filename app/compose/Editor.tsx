@@ -2,7 +2,7 @@
 import { getFileSignature, uploadImage } from '@/lib/hive/client-functions';
 import { FC, useRef, useState, useCallback, useEffect } from "react";
 import { Box, Flex, Button, useToast, Textarea, IconButton, HStack, Menu, MenuButton, MenuList, MenuItem, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, Input, Tag, TagLabel, TagCloseButton, Wrap, WrapItem, useBreakpointValue, Text } from '@chakra-ui/react';
-import { FaImage, FaEye, FaCode, FaBold, FaItalic, FaLink, FaListUl, FaListOl, FaQuoteLeft, FaUnderline, FaStrikethrough, FaHeading, FaChevronDown, FaTable, FaEyeSlash, FaSmile, FaCloudUploadAlt } from 'react-icons/fa';
+import { FaImage, FaEye, FaCode, FaBold, FaItalic, FaLink, FaListUl, FaListOl, FaQuoteLeft, FaUnderline, FaStrikethrough, FaHeading, FaChevronDown, FaTable, FaEyeSlash, FaSmile, FaCloudUploadAlt, FaPoll } from 'react-icons/fa';
 import { MdGif } from 'react-icons/md';
 import markdownRenderer from '@/lib/utils/MarkdownRenderer';
 import { processSpoilers } from '@/lib/utils/SpoilerRenderer';
@@ -11,6 +11,19 @@ import { IGif } from '@giphy/js-types';
 import { useDropzone } from 'react-dropzone';
 import { compressImage } from '@/lib/utils/composeUtils';
 import BeneficiariesInput, { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import PayoutOptionsInput from '@/components/compose/PayoutOptionsInput';
+import type { PayoutOptions } from '@/lib/utils/payoutOptions';
+import PollEditor from '@/components/compose/PollEditor';
+import CommunitySelect from '@/components/compose/CommunitySelect';
+import type { CommunityOption } from '@/hooks/useSubscribedCommunities';
+import AutocompletePopup from '@/components/compose/AutocompletePopup';
+import { useMentionAutocomplete } from '@/hooks/useMentionAutocomplete';
+import { useTagSuggestions } from '@/hooks/useTagSuggestions';
+import { useSuggestionNavigation } from '@/hooks/useTextareaAutocomplete';
+import { getTagWarnings, normalizeTag, validateTag } from '@/lib/utils/tagUtils';
+import { PollDraft, createEmptyPollDraft } from '@/lib/utils/polls';
+import ImageDetailsModal from '@/components/compose/ImageDetailsModal';
+import { EMPTY_IMAGE_DETAILS, ImageDetails, buildImageMarkdown } from '@/lib/utils/imageMarkdown';
 
 // Preview Content Component with Spoiler Support
 const PreviewContent: FC<{ markdown: string }> = ({ markdown }) => {
@@ -194,32 +207,65 @@ interface EditorProps {
   setMarkdown: (markdown: string) => void;
   title: string;
   setTitle: (title: string) => void;
+  community: string;
+  setCommunity: (community: string) => void;
+  communities: CommunityOption[];
+  isLoadingCommunities?: boolean;
   hashtagInput: string;
   setHashtagInput: (input: string) => void;
   hashtags: string[];
   setHashtags: (hashtags: string[]) => void;
   beneficiaries: Beneficiary[];
   setBeneficiaries: (beneficiaries: Beneficiary[]) => void;
+  payout: PayoutOptions;
+  setPayout: (payout: PayoutOptions) => void;
+  poll: PollDraft | null;
+  setPoll: (poll: PollDraft | null) => void;
   onSubmit: () => void;
   isSubmitting?: boolean;
+  onSchedule?: () => void; // Opens the scheduled posts, hidden when the scheduler is not available
+  isEditingPost?: boolean; // A published post is loaded, its community, beneficiaries, payout and poll are fixed
 }
 
-const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hashtagInput, setHashtagInput, hashtags, setHashtags, beneficiaries, setBeneficiaries, onSubmit, isSubmitting = false }) => {
+const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, community, setCommunity, communities, isLoadingCommunities = false, hashtagInput, setHashtagInput, hashtags, setHashtags, beneficiaries, setBeneficiaries, payout, setPayout, poll, setPoll, onSubmit, isSubmitting = false, onSchedule, isEditingPost = false }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const toast = useToast();
+    const mentions = useMentionAutocomplete(textareaRef, markdown, setMarkdown);
     const isMobile = useBreakpointValue({ base: true, sm: false }, { ssr: false });
     const [viewMode, setViewMode] = useState<'editor' | 'preview' | 'split'>(isMobile ? 'editor' : 'split');
     const [spoilerStates, setSpoilerStates] = useState<{[key: string]: boolean}>({});
     const [isGiphyModalOpen, setGiphyModalOpen] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
+    const [pendingImages, setPendingImages] = useState<File[]>([]); // Waiting for their alt text and caption
 
     // Hashtag handlers
+    const [showTagSuggestions, setShowTagSuggestions] = useState(false);
+    const tagQuery = showTagSuggestions && hashtagInput.trim() ? normalizeTag(hashtagInput) : null;
+    const { items: tagItems } = useTagSuggestions(tagQuery, hashtags);
+    // The community tag is added on publish
+    const tagWarnings = getTagWarnings(hashtags, 1);
+
+    const addHashtag = (input: string) => {
+        const tag = normalizeTag(input);
+        if (tag && !hashtags.includes(tag)) {
+            setHashtags([...hashtags, tag]);
+        }
+        setHashtagInput("");
+    };
+
+    const tagNavigation = useSuggestionNavigation(
+        tagItems.length,
+        (index) => addHashtag(tagItems[index].value),
+        () => setShowTagSuggestions(false),
+        tagQuery
+    );
+
     const handleHashtagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (tagNavigation.handleKeyDown(e)) return;
         const { key } = e;
-        if (key === " " && hashtagInput.trim()) {
-            e.preventDefault(); // Prevent space from being added
-            setHashtags([...hashtags, hashtagInput.trim()]);
-            setHashtagInput("");
+        if ((key === " " || key === "Enter" || key === ",") && hashtagInput.trim()) {
+            e.preventDefault(); // Prevent the separator from being added
+            addHashtag(hashtagInput);
         } else if (key === "Backspace" && !hashtagInput && hashtags.length) {
             setHashtags(hashtags.slice(0, -1));
         }
@@ -236,66 +282,78 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
         }
     }, [isMobile, viewMode]);
 
-    // Handle drag & drop image uploads
-    const onDrop = useCallback(async (acceptedFiles: File[]) => {
-        for (const file of acceptedFiles) {
-            try {
-                setIsUploading(true);
-                
-                toast({
-                    title: "Compressing and uploading...",
-                    description: `Processing ${file.name}`,
-                    status: "info",
-                    duration: 2000,
-                    isClosable: true,
-                });
-
-                // Compress image before upload
-                const compressedFile = await compressImage(file);
-                
-                // Get signature and upload to Hive
-                const signature = await getFileSignature(compressedFile);
-                const url = await uploadImage(compressedFile, signature);
-                
-                // Insert at cursor position
-                const textarea = textareaRef.current;
-                if (textarea) {
-                    const start = textarea.selectionStart;
-                    const end = textarea.selectionEnd;
-                    const imageMarkdown = `![${file.name}](${url})`;
-                    const newMarkdown = markdown.substring(0, start) + imageMarkdown + markdown.substring(end);
-                    setMarkdown(newMarkdown);
-                    
-                    // Restore cursor position
-                    setTimeout(() => {
-                        textarea.focus();
-                        textarea.setSelectionRange(start + imageMarkdown.length, start + imageMarkdown.length);
-                    }, 0);
-                } else {
-                    setMarkdown(markdown + (markdown ? '\n\n' : '') + `![${file.name}](${url})`);
-                }
+    // Compress, upload and insert an image once the author has described it
+    const uploadAndInsertImage = async (file: File, details: ImageDetails) => {
+        try {
+            setIsUploading(true);
+            
+            toast({
+                title: "Compressing and uploading...",
+                description: `Processing ${file.name}`,
+                status: "info",
+                duration: 2000,
+                isClosable: true,
+            });
 
-                toast({
-                    title: "Success!",
-                    description: `${file.name} uploaded successfully`,
-                    status: "success",
-                    duration: 2000,
-                    isClosable: true,
-                });
-            } catch (error) {
-                console.error('Upload error:', error);
-                toast({
-                    title: "Upload Failed",
-                    description: `Failed to upload ${file.name}`,
-                    status: "error",
-                    duration: 3000,
-                    isClosable: true,
-                });
-            } finally {
-                setIsUploading(false);
+            // Compress image before upload
+            const compressedFile = await compressImage(file);
+            
+            // Get signature and upload to Hive
+            const signature = await getFileSignature(compressedFile);
+            const url = await uploadImage(compressedFile, signature);
+            
+            // Insert at cursor position
+            const imageMarkdown = buildImageMarkdown(url, details);
+            if (textareaRef.current) {
+                insertMarkdown(imageMarkdown);
+            } else {
+                setMarkdown(markdown + (markdown ? '\n\n' : '') + imageMarkdown);
             }
+
+            toast({
+                title: "Success!",
+                description: `${file.name} uploaded successfully`,
+                status: "success",
+                duration: 2000,
+                isClosable: true,
+            });
+        } catch (error) {
+            console.error('Upload error:', error);
+            toast({
+                title: "Upload Failed",
+                description: error instanceof Error ? error.message : `Failed to upload ${file.name}`,
+                status: "error",
+                duration: 3000,
+                isClosable: true,
+            });
+        } finally {
+            setIsUploading(false);
         }
-    }, [markdown, setMarkdown, toast]);
+    };
+
+    // Dropped, pasted and picked images are described one after the other before the upload
+    const queueImages = useCallback((files: File[]) => {
+        const images = files.filter((file) => file.type.startsWith('image/'));
+        if (images.length > 0) setPendingImages((prev) => [...prev, ...images]);
+    }, []);
+
+    const handleDescribedImage = (details: ImageDetails) => {
+        const [file] = pendingImages;
+        setPendingImages((prev) => prev.slice(1));
+        if (file) uploadAndInsertImage(file, details);
+    };
+
+    const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const files = Array.from(event.clipboardData.files);
+        if (!files.some((file) => file.type.startsWith('image/'))) return;
+        event.preventDefault();
+        queueImages(files);
+    };
+
+    // Handle drag & drop image uploads
+    const onDrop = useCallback((acceptedFiles: File[]) => {
+        queueImages(acceptedFiles);
+    }, [queueImages]);
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
@@ -384,45 +442,9 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
         const input = document.createElement('input');
         input.type = 'file';
         input.accept = 'image/*';
-        input.onchange = async (e) => {
+        input.onchange = (e) => {
             const file = (e.target as HTMLInputElement).files?.[0];
-            if (file) {
-                try {
-                    toast({
-                        title: "Compressing and uploading...",
-                        description: "Please wait while we process your image.",
-                        status: "info",
-                        duration: 2000,
-                        isClosable: true,
-                    });
-                    
-                    // Compress image
-                    const compressedFile = await compressImage(file);
-                    
-                    // Get signature and upload
-                    const signature = await getFileSignature(compressedFile);
-                    const url = await uploadImage(compressedFile, signature);
-                    
-                    insertMarkdown(`![${file.name}](${url})`);
-
-                    toast({
-                        title: "Success!",
-                        description: "Image uploaded successfully.",
-                        status: "success",
-                        duration: 2000,
-                        isClosable: true,
-                    });
-                } catch (error) {
-                    console.error('Image upload failed:', error);
-                    toast({
-                        title: "Upload Failed",
-                        description: error instanceof Error ? error.message : "Failed to upload image",
-                        status: "error",
-                        duration: 3000,
-                        isClosable: true,
-                    });
-                }
-            }
+            if (file) queueImages([file]);
         };
         input.click();
     };
@@ -694,7 +716,15 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                             <Textarea
                                 ref={textareaRef}
                                 value={markdown}
-                                onChange={(e) => setMarkdown(e.target.value)}
+                                onChange={(e) => {
+                                    setMarkdown(e.target.value);
+                                    mentions.updateMention();
+                                }}
+                                onKeyDown={mentions.handleKeyDown}
+                                onKeyUp={mentions.handleKeyUp}
+                                onClick={mentions.updateMention}
+                                onBlur={mentions.close}
+                                onPaste={handlePaste}
                                 placeholder="Write your markdown here... (or drag & drop images)"
                                 className="markdown-editor"
                                 border="none"
@@ -710,6 +740,13 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                                 _focus={{ boxShadow: 'none' }}
                                 _placeholder={{ color: 'gray.500' }}
                             />
+                            <AutocompletePopup
+                                items={mentions.items}
+                                activeIndex={mentions.activeIndex}
+                                position={mentions.position}
+                                onSelect={mentions.selectSuggestion}
+                                onHover={mentions.setActiveIndex}
+                            />
                             {isDragActive && (
                                 <Flex
                                     position="absolute"
@@ -753,6 +790,15 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                         </Box>
                         </Box>
                         
+                        {/* Community */}
+                        <CommunitySelect
+                            value={community}
+                            onChange={setCommunity}
+                            communities={communities}
+                            isLoading={isLoadingCommunities}
+                            isDisabled={isSubmitting || isEditingPost}
+                        />
+
                         {/* Hashtag Section */}
                         <Box
                             border="1px solid"
@@ -761,21 +807,35 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                             bg="background"
                         >
                             {/* Hashtag Input */}
-                            <Input
-                                placeholder="Enter hashtags (press space to add)"
-                                value={hashtagInput}
-                                onChange={(e) => setHashtagInput(e.target.value)}
-                                onKeyDown={handleHashtagKeyDown}
-                                size="sm"
-                                border="none"
-                                borderRadius="md"
-                                px={4}
-                                py={2}
-                                bg="background"
-                                color="text"
-                                _focus={{ boxShadow: 'none', borderColor: 'primary' }}
-                                _placeholder={{ color: 'gray.500' }}
-                            />
+                            <Box position="relative">
+                                <Input
+                                    placeholder="Enter hashtags (press space to add)"
+                                    value={hashtagInput}
+                                    onChange={(e) => {
+                                        setHashtagInput(e.target.value);
+                                        setShowTagSuggestions(true);
+                                    }}
+                                    onKeyDown={handleHashtagKeyDown}
+                                    onBlur={() => setShowTagSuggestions(false)}
+                                    size="sm"
+                                    border="none"
+                                    borderRadius="md"
+                                    px={4}
+                                    py={2}
+                                    bg="background"
+                                    color="text"
+                                    _focus={{ boxShadow: 'none', borderColor: 'primary' }}
+                                    _placeholder={{ color: 'gray.500' }}
+                                />
+                                {/* Right below the input */}
+                                <AutocompletePopup
+                                    items={tagItems}
+                                    activeIndex={tagNavigation.activeIndex}
+                                    position={{ top: 32, left: 16 }}
+                                    onSelect={addHashtag}
+                                    onHover={tagNavigation.setActiveIndex}
+                                />
+                            </Box>
                             
                             {/* Display Hashtags as Tags */}
                             {hashtags.length > 0 && (
@@ -786,7 +846,8 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                                                 size="sm"
                                                 borderRadius="base"
                                                 variant="solid"
-                                                colorScheme="blue"
+                                                colorScheme={validateTag(tag) ? "red" : "blue"}
+                                                title={validateTag(tag) || undefined}
                                             >
                                                 <TagLabel>{tag}</TagLabel>
                                                 <TagCloseButton onClick={() => removeHashtag(index)} />
@@ -795,25 +856,74 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                                     ))}
                                 </Wrap>
                             )}
+                            {tagWarnings.length > 0 && (
+                                <Box px={3} pb={2}>
+                                    {tagWarnings.map((warning) => (
+                                        <Text key={warning} fontSize="xs" color="orange.400">
+                                            {warning}
+                                        </Text>
+                                    ))}
+                                </Box>
+                            )}
                         </Box>
                         
+                        {/* Poll */}
+                        {poll && (
+                            <PollEditor
+                                poll={poll}
+                                onChange={setPoll}
+                                onRemove={() => setPoll(null)}
+                                isDisabled={isSubmitting}
+                            />
+                        )}
+
                         {/* Beneficiaries Input */}
                         <BeneficiariesInput
                             beneficiaries={beneficiaries}
                             setBeneficiaries={setBeneficiaries}
+                            isReadOnly={isEditingPost}
+                        />
+
+                        {/* Payout Options */}
+                        <PayoutOptionsInput
+                            payout={payout}
+                            setPayout={setPayout}
+                            beneficiaries={beneficiaries}
+                            isReadOnly={isEditingPost}
                         />
                         
                         {/* Submit Button */}
-                        <Flex justify="flex-end">
+                        <Flex justify="flex-end" gap={2}>
+                            {!poll && !isEditingPost && (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    leftIcon={<FaPoll />}
+                                    onClick={() => setPoll(createEmptyPollDraft())}
+                                    isDisabled={isSubmitting}
+                                >
+                                    Add Poll
+                                </Button>
+                            )}
+                            {onSchedule && (
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={onSchedule}
+                                    isDisabled={isSubmitting}
+                                >
+                                    Schedule
+                                </Button>
+                            )}
                             <Button
                                 size="sm"
                                 colorScheme="blue"
                                 onClick={onSubmit}
                                 isLoading={isSubmitting}
-                                loadingText="Publishing..."
+                                loadingText={isEditingPost ? "Updating..." : "Publishing..."}
                                 isDisabled={isSubmitting || !title.trim() || !markdown.trim()}
                             >
-                                Publish Post
+                                {isEditingPost ? 'Update Post' : 'Publish Post'}
                             </Button>
                         </Flex>
                     </Box>
@@ -894,6 +1004,13 @@ const Editor: FC<EditorProps> = ({ markdown, setMarkdown, title, setTitle, hasht
                     </ModalBody>
                 </ModalContent>
             </Modal>
+
+            <ImageDetailsModal
+                file={pendingImages[0] || null}
+                queueLabel={pendingImages.length > 1 ? `${pendingImages.length} left` : undefined}
+                onSave={handleDescribedImage}
+                onSkip={() => handleDescribedImage(EMPTY_IMAGE_DETAILS)}
+            />
         </Box>
     );
 };
@@ -1,41 +1,197 @@
 'use client'
 import { useAioha } from '@aioha/react-ui'
 import { KeyTypes } from '@aioha/aioha'
-import { Flex, Input, Tag, TagCloseButton, TagLabel, Wrap, WrapItem, Button, useToast } from '@chakra-ui/react'
+import { Flex, HStack, Input, Tag, TagCloseButton, TagLabel, Text, Wrap, WrapItem, Button, useToast, useDisclosure } from '@chakra-ui/react'
+import type { Operation } from '@hiveio/dhive'
 import dynamic from 'next/dynamic'
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { generatePermlink, prepareImageArray, validateTitle, validateContent } from '@/lib/utils/composeUtils'
+import { generatePermlink, parseEditTarget, prepareImageArray, validateTitle, validateContent } from '@/lib/utils/composeUtils'
 import type { Beneficiary } from '@/components/compose/BeneficiariesInput'
+import DraftsMenu from '@/components/compose/DraftsMenu'
+import { useDrafts } from '@/hooks/useDrafts'
+import { useDraftAutosave } from '@/hooks/useDraftAutosave'
+import { Draft, DraftContent, getDraftParentKey } from '@/lib/utils/drafts'
+import ScheduledPostsModal from '@/components/compose/ScheduledPostsModal'
+import { useScheduledPosts } from '@/hooks/useScheduledPosts'
+import { ScheduledPost, parseScheduledOperations } from '@/lib/utils/scheduledPosts'
+import { PollDraft, buildPollMetadata, validatePollDraft } from '@/lib/utils/polls'
+import { extractMentions } from '@/lib/utils/mentions'
+import { prepareTags } from '@/lib/utils/tagUtils'
+import { applyBeneficiaryPolicy, buildCommentOptionsOperation, getDefaultBeneficiaries, validateBeneficiaries } from '@/lib/utils/beneficiaries'
+import { DEFAULT_PAYOUT_OPTIONS, PayoutOptions, parsePayoutOptions, validatePayoutOptions } from '@/lib/utils/payoutOptions'
+import { getEditBody } from '@/lib/utils/textDiff'
+import { getPost } from '@/lib/hive/client-functions'
+import { useSubscribedCommunities } from '@/hooks/useSubscribedCommunities'
 
 const Editor = dynamic(() => import('./Editor'), { ssr: false })
 
-export default function Home() {
+// Published post loaded with `?edit=@author/permlink`
+interface EditedPost {
+  author: string
+  permlink: string
+  parentAuthor: string
+  parentPermlink: string // Category of the post, its first tag
+  body: string // As on chain, the edit is sent as a patch against it when shorter
+  metadata: Record<string, unknown>
+}
+
+interface ComposePageProps {
+  searchParams?: { [key: string]: string | string[] | undefined }
+}
+
+export default function Home({ searchParams }: ComposePageProps) {
   const [markdown, setMarkdown] = useState("")
   const [title, setTitle] = useState("")
   const [hashtagInput, setHashtagInput] = useState("")
   const [hashtags, setHashtags] = useState<string[]>([])
-  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([{ account: 'snapie', weight: 300 }]) // Default 3% to snapie
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>(() => getDefaultBeneficiaries('longForm'))
+  const [payout, setPayout] = useState<PayoutOptions>(DEFAULT_PAYOUT_OPTIONS)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [editingJob, setEditingJob] = useState<ScheduledPost | null>(null) // Scheduled post loaded in the editor
+  const [poll, setPoll] = useState<PollDraft | null>(null)
+  const [editedPost, setEditedPost] = useState<EditedPost | null>(null)
+  const editParam = typeof searchParams?.edit === 'string' ? searchParams.edit : undefined
+  const editTarget = useMemo(() => parseEditTarget(editParam), [editParam])
 
   const { aioha, user } = useAioha()
   const toast = useToast()
   const router = useRouter()
-  const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || 'blog'
-
-  const handleHashtagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    const { key } = e
-    if (key === " " && hashtagInput.trim()) { // If space is pressed and input is not empty
-      setHashtags([...hashtags, hashtagInput.trim()])
-      setHashtagInput("") // Clear input field
-    } else if (key === "Backspace" && !hashtagInput && hashtags.length) {
-      // Remove the last tag if backspace is hit and input is empty
-      setHashtags(hashtags.slice(0, -1))
+  const { communities, isLoading: isLoadingCommunities, siteCommunity } = useSubscribedCommunities(user)
+  const [community, setCommunity] = useState(siteCommunity) // Parent permlink of the post, its first tag
+
+  const draftContent: DraftContent = useMemo(
+    () => ({ title, body: markdown, hashtags, beneficiaries, media: [], poll, community, payout }),
+    [title, markdown, hashtags, beneficiaries, poll, community, payout]
+  )
+  // Edits of a published post are saved apart from new posts
+  const draftParentKey = editTarget ? `edit:${getDraftParentKey(editTarget.author, editTarget.permlink)}` : null
+  const { drafts, removeDraft } = useDrafts('post', draftParentKey)
+  const { savedAt, resumeDraft, startNewDraft, discardDraft } = useDraftAutosave(draftContent, 'post', draftParentKey)
+
+  const schedulerEnabled = process.env.NEXT_PUBLIC_SCHEDULER_ENABLED === 'true'
+  const scheduler = useScheduledPosts()
+  const { isOpen: isScheduleOpen, onOpen: onScheduleOpen, onClose: onScheduleClose } = useDisclosure()
+
+  function clearForm() {
+    setMarkdown('')
+    setTitle('')
+    setHashtags([])
+    setHashtagInput('')
+    setCommunity(siteCommunity)
+    setBeneficiaries(getDefaultBeneficiaries('longForm'))
+    setPayout(DEFAULT_PAYOUT_OPTIONS)
+    setPoll(null)
+    setEditingJob(null)
+    setEditedPost(null)
+  }
+
+  // Fill the editor with the post to edit
+  useEffect(() => {
+    if (!editTarget) return
+    let cancelled = false
+
+    const loadPost = async () => {
+      try {
+        const post = await getPost(editTarget.author, editTarget.permlink)
+        if (cancelled) return
+        if (!post.author) throw new Error('This post does not exist')
+        if (post.parent_author) throw new Error('Only top-level posts can be edited here')
+
+        let metadata: Record<string, unknown> = {}
+        try {
+          metadata = JSON.parse(post.json_metadata) || {}
+        } catch {
+          // Posts without metadata
+        }
+        const tags = Array.isArray(metadata.tags) ? metadata.tags.map(String) : []
+
+        startNewDraft()
+        setTitle(post.title)
+        setMarkdown(post.body)
+        setHashtags(tags.filter((tag) => tag !== post.parent_permlink)) // The category is added back on save
+        setHashtagInput('')
+        setCommunity(post.parent_permlink)
+        setBeneficiaries(post.beneficiaries.map(({ account, weight }) => ({ account, weight })))
+        setPayout(parsePayoutOptions({ max_accepted_payout: String(post.max_accepted_payout), percent_hbd: post.percent_hbd }))
+        setPoll(null) // A poll can't change once published, it stays in the metadata
+        setEditingJob(null)
+        setEditedPost({
+          author: post.author,
+          permlink: post.permlink,
+          parentAuthor: post.parent_author,
+          parentPermlink: post.parent_permlink,
+          body: post.body,
+          metadata,
+        })
+      } catch (error) {
+        if (cancelled) return
+        toast({
+          title: 'Cannot Edit Post',
+          description: error instanceof Error ? error.message : 'Failed to load the post',
+          status: 'error',
+          duration: 5000,
+          isClosable: true,
+        })
+      }
+    }
+
+    loadPost()
+    return () => {
+      cancelled = true
     }
+  }, [editTarget, startNewDraft, toast])
+
+  function handleStopEditing() {
+    startNewDraft()
+    clearForm()
+    router.push('/compose')
   }
 
-  const removeHashtag = (index: number) => {
-    setHashtags(hashtags.filter((_, i) => i !== index))
+  function restoreDraft(draft: Draft) {
+    setEditingJob(null)
+    resumeDraft(draft)
+    setTitle(draft.title)
+    setMarkdown(draft.body)
+    setHashtags(draft.hashtags)
+    setHashtagInput("")
+    setCommunity(editedPost ? editedPost.parentPermlink : draft.community || siteCommunity)
+    setBeneficiaries(editedPost ? draft.beneficiaries : applyBeneficiaryPolicy(draft.beneficiaries, 'longForm'))
+    setPayout(draft.payout || DEFAULT_PAYOUT_OPTIONS)
+    setPoll(draft.poll || null)
+  }
+
+  /**
+   * Prepare the comment and comment_options operations of the post, broadcast now or by the scheduler
+   */
+  function buildPostOperations(username: string, permlink: string): [Operation, Operation] {
+    // Prepare image array for metadata (first image becomes thumbnail)
+    const imageArray = prepareImageArray(markdown)
+
+    // Create comment operation (same as SnapComposer)
+    const commentOp = [
+      'comment',
+      {
+        parent_author: '',
+        parent_permlink: community,
+        author: username,
+        permlink: permlink,
+        title: title,
+        body: markdown,
+        json_metadata: JSON.stringify({ 
+          ...(poll ? buildPollMetadata(poll) : {}),
+          tags: prepareTags(hashtags, community), 
+          users: extractMentions(markdown),
+          app: 'Snapie.io',
+          image: imageArray
+        })
+      }
+    ] as const;
+
+    // Create comment_options operation with beneficiaries and payout options
+    const optionsOp = buildCommentOptionsOperation(username, permlink, applyBeneficiaryPolicy(beneficiaries, 'longForm'), payout)
+
+    return [commentOp, optionsOp]
   }
 
   async function handleSubmit() {
@@ -64,6 +220,44 @@ export default function Home() {
       return
     }
 
+    const pollError = poll ? validatePollDraft(poll) : null
+    if (pollError) {
+      toast({
+        title: 'Invalid Poll',
+        description: pollError,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      })
+      return
+    }
+
+    // Beneficiaries of a published post are fixed, whatever the policy is now
+    const beneficiariesError = editedPost ? null : validateBeneficiaries(applyBeneficiaryPolicy(beneficiaries, 'longForm'), 'longForm')
+    if (beneficiariesError) {
+      toast({
+        title: 'Invalid Beneficiaries',
+        description: beneficiariesError,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      })
+      return
+    }
+
+    // Payout options of a published post are fixed too
+    const payoutError = editedPost ? null : validatePayoutOptions(payout)
+    if (payoutError) {
+      toast({
+        title: 'Invalid Payout Options',
+        description: payoutError,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      })
+      return
+    }
+
     if (!user) {
       toast({
         title: 'Not Logged In',
@@ -90,6 +284,11 @@ export default function Home() {
       return
     }
 
+    if (editedPost) {
+      await handleUpdate(username, editedPost)
+      return
+    }
+
     console.log('👤 Publishing as:', username);
 
     setIsSubmitting(true)
@@ -97,52 +296,7 @@ export default function Home() {
     try {
       // Generate Hive-compatible permlink
       const permlink = generatePermlink(title)
-      
-      // Prepare image array for metadata (first image becomes thumbnail)
-      const imageArray = prepareImageArray(markdown)
-      
-      // Create comment operation (same as SnapComposer)
-      const commentOp = [
-        'comment',
-        {
-          parent_author: '',
-          parent_permlink: communityTag,
-          author: username,
-          permlink: permlink,
-          title: title,
-          body: markdown,
-          json_metadata: JSON.stringify({ 
-            tags: hashtags, 
-            app: 'Snapie.io',
-            image: imageArray
-          })
-        }
-      ] as const;
-
-      // Create comment_options operation with beneficiaries
-      const sortedBeneficiaries = beneficiaries
-        .sort((a, b) => a.account.localeCompare(b.account))
-        .map(b => ({ account: b.account, weight: b.weight }));
-
-      const optionsOp = [
-        'comment_options',
-        {
-          author: username,
-          permlink: permlink,
-          max_accepted_payout: '1000000.000 HBD',
-          percent_hbd: 10000,
-          allow_votes: true,
-          allow_curation_rewards: true,
-          extensions: [
-            [
-              0,
-              {
-                beneficiaries: sortedBeneficiaries
-              }
-            ]
-          ]
-        }
-      ] as const;
+      const [commentOp, optionsOp] = buildPostOperations(username, permlink)
 
       // Submit to Hive blockchain using Aioha (same as SnapComposer)
       console.log('📤 Submitting to Hive via Aioha:', { 
@@ -165,12 +319,14 @@ export default function Home() {
           isClosable: true,
         })
 
+        // Published now, the scheduled copy must not go out too
+        if (editingJob) {
+          scheduler.cancelPost(editingJob.id).catch((error) => console.error('Error cancelling scheduled post:', error))
+        }
+
         // Clear form
-        setMarkdown('')
-        setTitle('')
-        setHashtags([])
-        setHashtagInput('')
-        setBeneficiaries([{ account: 'snapie', weight: 300 }]) // Reset to default
+        await discardDraft()
+        clearForm()
 
         // Redirect to post after delay (allow Hive node propagation)
         setTimeout(() => {
@@ -205,6 +361,107 @@ export default function Home() {
     }
   }
 
+  /**
+   * Rebroadcast the edited post with its permlink, without comment_options since they can't change
+   */
+  async function handleUpdate(username: string, post: EditedPost) {
+    if (username !== post.author) {
+      toast({
+        title: 'Not Your Post',
+        description: `Only @${post.author} can edit this post`,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const metadata = {
+        ...post.metadata, // Fields written by other apps are kept
+        tags: prepareTags(hashtags, post.parentPermlink),
+        users: extractMentions(markdown),
+        image: prepareImageArray(markdown),
+      }
+
+      const result = await aioha.comment(post.parentAuthor, post.parentPermlink, post.permlink, title, getEditBody(post.body, markdown), metadata)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update post')
+      }
+
+      toast({
+        title: 'Post Updated',
+        description: 'Your changes have been published to Hive blockchain',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      })
+
+      await discardDraft()
+      clearForm()
+
+      // Redirect to post after delay (allow Hive node propagation)
+      setTimeout(() => {
+        router.push(`/@${post.author}/${post.permlink}`)
+      }, 3000)
+    } catch (error) {
+      console.error('❌ Post update error:', error)
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Failed to update post',
+        status: 'error',
+        duration: 7000,
+        isClosable: true,
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  async function handleSchedule(publishAt: string) {
+    const titleValidation = validateTitle(title)
+    if (!titleValidation.valid) throw new Error(titleValidation.error)
+    const contentValidation = validateContent(markdown)
+    if (!contentValidation.valid) throw new Error(contentValidation.error)
+    const pollError = poll ? validatePollDraft(poll, new Date(publishAt).getTime()) : null
+    if (pollError) throw new Error(pollError)
+    const beneficiariesError = validateBeneficiaries(applyBeneficiaryPolicy(beneficiaries, 'longForm'), 'longForm')
+    if (beneficiariesError) throw new Error(beneficiariesError)
+    const payoutError = validatePayoutOptions(payout)
+    if (payoutError) throw new Error(payoutError)
+    if (!user) throw new Error('Please log in to schedule a post')
+
+    // An edited post keeps its permlink so links shared in advance keep working
+    const permlink = editingJob ? editingJob.permlink : generatePermlink(title)
+    const operations = buildPostOperations(user, permlink)
+
+    if (editingJob) {
+      await scheduler.updatePost(editingJob.id, { operations, publishAt })
+    } else {
+      await scheduler.schedulePost(operations, publishAt)
+    }
+
+    await discardDraft()
+    clearForm()
+  }
+
+  function handleEditScheduled(job: ScheduledPost) {
+    const fields = parseScheduledOperations(job.operations)
+    startNewDraft()
+    setTitle(fields.title)
+    setMarkdown(fields.body)
+    setCommunity(fields.community || siteCommunity)
+    setHashtags(fields.hashtags.filter((tag) => tag !== fields.community)) // Added back on publish
+    setHashtagInput('')
+    setBeneficiaries(applyBeneficiaryPolicy(fields.beneficiaries, 'longForm'))
+    setPayout(fields.payout)
+    setPoll(fields.poll)
+    setEditingJob(job)
+    onScheduleClose()
+  }
+
   return (
     <Flex
       width="100%"
@@ -215,6 +472,20 @@ export default function Home() {
       direction="column"
       overflow="hidden"
     >
+      <Flex justify={editedPost ? 'space-between' : 'flex-end'} align="center" px="2" pb="1">
+        {editedPost && (
+          <HStack spacing={2}>
+            <Text fontSize="sm" color="text">
+              Editing @{editedPost.author}/{editedPost.permlink}
+            </Text>
+            <Button size="xs" variant="ghost" onClick={handleStopEditing} isDisabled={isSubmitting}>
+              Stop editing
+            </Button>
+          </HStack>
+        )}
+        <DraftsMenu drafts={drafts} savedAt={savedAt} onRestore={restoreDraft} onDelete={removeDraft} />
+      </Flex>
+
       {/* Editor */}
       <Flex
         flex="1"
@@ -230,16 +501,38 @@ export default function Home() {
           setMarkdown={setMarkdown} 
           title={title} 
           setTitle={setTitle}
+          community={community}
+          setCommunity={setCommunity}
+          communities={communities}
+          isLoadingCommunities={isLoadingCommunities}
           hashtagInput={hashtagInput}
           setHashtagInput={setHashtagInput}
           hashtags={hashtags}
           setHashtags={setHashtags}
           beneficiaries={beneficiaries}
           setBeneficiaries={setBeneficiaries}
+          payout={payout}
+          setPayout={setPayout}
+          poll={poll}
+          setPoll={setPoll}
           onSubmit={handleSubmit}
           isSubmitting={isSubmitting}
+          onSchedule={schedulerEnabled && !editedPost ? onScheduleOpen : undefined}
+          isEditingPost={editedPost !== null}
         />
       </Flex>
+
+      {schedulerEnabled && (
+        <ScheduledPostsModal
+          isOpen={isScheduleOpen}
+          onClose={onScheduleClose}
+          scheduler={scheduler}
+          canSchedule={Boolean(user && title.trim() && markdown.trim())}
+          editingJob={editingJob}
+          onSchedule={handleSchedule}
+          onEditContent={handleEditScheduled}
+        />
+      )}
     </Flex>
   )
 }
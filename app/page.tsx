@@ -9,6 +9,10 @@ import Conversation from '@/components/homepage/Conversation';
 import SnapReplyModal from '@/components/homepage/SnapReplyModal';
 import { useSnaps, SnapFilterType } from '@/hooks/useSnaps';
 import FeedTabFilter from '@/components/homepage/FeedTabFilter';
+import { RankWindow } from '@/lib/utils/snapRanking';
+import AccountListsModal from '@/components/homepage/AccountListsModal';
+import { useAccountLists } from '@/hooks/useAccountLists';
+import { useFollowedTags } from '@/hooks/useFollowedTags';
 import { useAioha } from '@aioha/react-ui';
 import { getCommunityInfo } from '@/lib/hive/client-functions';
 
@@ -28,9 +32,15 @@ export default function Home() {
   const [isOpen, setIsOpen] = useState(false);
   const [newComment, setNewComment] = useState<Comment | null>(null); // Define the state
   const [activeFilter, setActiveFilter] = useState<SnapFilterType>('community');
+  const [rankWindow, setRankWindow] = useState<RankWindow>('24h');
+  const [activeListId, setActiveListId] = useState<string | undefined>();
+  const [isListsModalOpen, setIsListsModalOpen] = useState(false);
   const [communityName, setCommunityName] = useState<string>('Community');
 
   const { user } = useAioha();
+  const accountLists = useAccountLists();
+  const activeList = accountLists.lists.find((list) => list.id === activeListId);
+  const { followedTags } = useFollowedTags();
 
   useEffect(() => {
     const loadCommunityInfo = async () => {
@@ -63,16 +73,28 @@ export default function Home() {
     setNewComment(newComment as Comment);
   };
 
-  const handleFilterChange = (filter: SnapFilterType) => {
+  const handleFilterChange = (filter: SnapFilterType, listId?: string) => {
     setActiveFilter(filter);
+    setActiveListId(listId);
     setConversation(undefined); // Close conversation view when changing filter
   };
 
   const snaps = useSnaps({ 
     filterType: activeFilter, 
-    username: user 
+    username: user,
+    rankWindow,
+    listAccounts: activeList?.accounts,
+    followedTags
   });
 
+  // Go back to the community feed when the active list gets deleted
+  useEffect(() => {
+    if (activeFilter === 'list' && !activeList) {
+      setActiveFilter('community');
+      setActiveListId(undefined);
+    }
+  }, [activeFilter, activeList]);
+
   return (
     <Flex direction={{ base: 'column', md: 'row' }}>
       <Container
@@ -96,8 +118,14 @@ export default function Home() {
         <FeedTabFilter 
           activeFilter={activeFilter}
           onFilterChange={handleFilterChange}
+          rankWindow={rankWindow}
+          onRankWindowChange={setRankWindow}
+          accountLists={accountLists.lists}
+          activeListId={activeListId}
+          onManageLists={() => setIsListsModalOpen(true)}
           communityName={communityName}
           isLoggedIn={!!user}
+          hasFollowedTags={followedTags.length > 0}
         />
         {!conversation ? (
 
@@ -116,6 +144,12 @@ export default function Home() {
         )}
       </Container>
       <RightSidebar />
+      <AccountListsModal
+        isOpen={isListsModalOpen}
+        onClose={() => setIsListsModalOpen(false)}
+        accountLists={accountLists}
+        canPublish={!!user}
+      />
       {isOpen && <SnapReplyModal isOpen={isOpen} onClose={onClose} comment={reply} onNewReply={handleNewComment} />}
     </Flex>
   );
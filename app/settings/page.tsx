@@ -0,0 +1,120 @@
+'use client';
+import { useEffect, useState } from 'react';
+import {
+    Box,
+    Container,
+    Divider,
+    FormControl,
+    FormHelperText,
+    FormLabel,
+    Heading,
+    Radio,
+    RadioGroup,
+    Stack,
+    Switch,
+    Text,
+    Textarea,
+    useToast,
+} from '@chakra-ui/react';
+import { useContentFilters } from '@/hooks/useContentFilters';
+import { MediaFilter, parseRuleList } from '@/lib/utils/contentFilters';
+
+export default function Settings() {
+    const { rules, updateRules } = useContentFilters();
+    const [mutedWordsInput, setMutedWordsInput] = useState('');
+    const [mutedTagsInput, setMutedTagsInput] = useState('');
+    const toast = useToast();
+
+    // Fill the text fields once the saved rules are loaded
+    useEffect(() => {
+        setMutedWordsInput(rules.mutedWords.join('\n'));
+        setMutedTagsInput(rules.mutedTags.map((tag) => `#${tag}`).join(' '));
+    }, [rules.mutedWords, rules.mutedTags]);
+
+    function notifySaved() {
+        toast({
+            title: 'Filters saved',
+            status: 'success',
+            duration: 2000,
+            isClosable: true,
+        });
+    }
+
+    function handleMutedWordsBlur() {
+        const mutedWords = parseRuleList(mutedWordsInput);
+        if (mutedWords.join('\n') === rules.mutedWords.join('\n')) return;
+        updateRules({ mutedWords });
+        notifySaved();
+    }
+
+    function handleMutedTagsBlur() {
+        const mutedTags = parseRuleList(mutedTagsInput.replace(/\s+/g, ','), true);
+        if (mutedTags.join(',') === rules.mutedTags.join(',')) return;
+        updateRules({ mutedTags });
+        notifySaved();
+    }
+
+    return (
+        <Container maxW="container.md" py={6} h="100vh" overflowY="auto">
+            <Heading size="lg" mb={6}>Settings</Heading>
+
+            <Box>
+                <Heading size="md" mb={1}>Content filters</Heading>
+                <Text fontSize="sm" color="gray.500" mb={4}>
+                    Applied to snaps and posts in every feed. Saved on this device.
+                </Text>
+
+                <Stack spacing={6}>
+                    <FormControl>
+                        <FormLabel>Muted words and phrases</FormLabel>
+                        <Textarea
+                            value={mutedWordsInput}
+                            onChange={(e) => setMutedWordsInput(e.target.value)}
+                            onBlur={handleMutedWordsBlur}
+                            placeholder={'One per line, e.g.\nspoiler\nfree giveaway'}
+                            rows={5}
+                        />
+                        <FormHelperText>Whole words only, case-insensitive</FormHelperText>
+                    </FormControl>
+
+                    <FormControl>
+                        <FormLabel>Muted hashtags</FormLabel>
+                        <Textarea
+                            value={mutedTagsInput}
+                            onChange={(e) => setMutedTagsInput(e.target.value)}
+                            onBlur={handleMutedTagsBlur}
+                            placeholder="#politics #crypto"
+                            rows={2}
+                        />
+                        <FormHelperText>Matched against the tags of each snap or post</FormHelperText>
+                    </FormControl>
+
+                    <FormControl display="flex" alignItems="center" justifyContent="space-between">
+                        <FormLabel htmlFor="hide-nsfw" mb={0}>Hide NSFW content</FormLabel>
+                        <Switch
+                            id="hide-nsfw"
+                            isChecked={rules.hideNsfw}
+                            onChange={(e) => updateRules({ hideNsfw: e.target.checked })}
+                        />
+                    </FormControl>
+
+                    <Divider />
+
+                    <FormControl>
+                        <FormLabel>Show</FormLabel>
+                        <RadioGroup
+                            value={rules.mediaFilter}
+                            onChange={(value) => updateRules({ mediaFilter: value as MediaFilter })}
+                        >
+                            <Stack direction={{ base: 'column', sm: 'row' }} spacing={4}>
+                                <Radio value="any">Everything</Radio>
+                                <Radio value="media">Media only</Radio>
+                                <Radio value="text">Text only</Radio>
+                            </Stack>
+                        </RadioGroup>
+                    </FormControl>
+                </Stack>
+            </Box>
+        </Container>
+    );
+}
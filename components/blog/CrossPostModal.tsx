@@ -0,0 +1,123 @@
+import { Button, FormControl, FormLabel, Modal, ModalBody, ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalOverlay, Select, Text, Textarea, useToast } from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { Discussion } from '@hiveio/dhive';
+import { useAioha } from '@aioha/react-ui';
+import { KeyTypes } from '@aioha/aioha';
+import { useSubscribedCommunities } from '@/hooks/useSubscribedCommunities';
+import { buildCrossPostBody, buildCrossPostMetadata, getCrossPostPermlink } from '@/lib/utils/crossPosts';
+import { buildCommentOptionsOperation } from '@/lib/utils/beneficiaries';
+
+interface CrossPostModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    post: Discussion; // Post being shared
+}
+
+export default function CrossPostModal({ isOpen, onClose, post }: CrossPostModalProps) {
+    const { aioha, user } = useAioha();
+    const { communities, isLoading } = useSubscribedCommunities(user);
+    const [community, setCommunity] = useState('');
+    const [message, setMessage] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const toast = useToast();
+
+    // The community the post is already in is left out
+    const targets = useMemo(() => communities.filter(({ name }) => name !== post.category), [communities, post.category]);
+
+    useEffect(() => {
+        if (!targets.some(({ name }) => name === community)) {
+            setCommunity(targets[0]?.name || '');
+        }
+    }, [targets, community]);
+
+    async function handleCrossPost() {
+        if (!user || !community) return;
+        setIsSubmitting(true);
+
+        try {
+            const permlink = getCrossPostPermlink(post, community);
+            const commentOp = [
+                'comment',
+                {
+                    parent_author: '',
+                    parent_permlink: community,
+                    author: user,
+                    permlink,
+                    title: post.title,
+                    body: buildCrossPostBody(post, user, message),
+                    json_metadata: JSON.stringify(buildCrossPostMetadata(post, community, 'Snapie.io')),
+                },
+            ] as const;
+            // The rewards belong to the original post, the cross-post declines its own
+            const optionsOp = buildCommentOptionsOperation(user, permlink, [], { type: 'decline', maxAcceptedPayout: '' });
+            const response = await aioha.signAndBroadcastTx([commentOp, optionsOp], KeyTypes.Posting);
+            if (!response.success) {
+                throw new Error(response.error || 'Broadcast failed');
+            }
+
+            toast({
+                title: 'Cross-posted!',
+                description: `The post was shared in ${community}.`,
+                status: 'success',
+                duration: 3000,
+                isClosable: true,
+            });
+            setMessage('');
+            onClose();
+        } catch (error) {
+            toast({
+                title: 'Cross-post Failed',
+                description: error instanceof Error ? error.message : 'Failed to cross-post. Please try again.',
+                status: 'error',
+                duration: 3000,
+                isClosable: true,
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} isCentered size="md">
+            <ModalOverlay />
+            <ModalContent bg="background" color="text">
+                <ModalHeader fontSize="md">Cross-post to another community</ModalHeader>
+                <ModalCloseButton />
+                <ModalBody>
+                    {!isLoading && targets.length === 0 ? (
+                        <Text fontSize="sm" color="gray.400">Subscribe to a community to share this post there.</Text>
+                    ) : (
+                        <>
+                            <FormControl mb={3}>
+                                <FormLabel fontSize="sm">Community</FormLabel>
+                                <Select size="sm" value={community} onChange={(e) => setCommunity(e.target.value)} isDisabled={isLoading || isSubmitting}>
+                                    {targets.map(({ name, title }) => (
+                                        <option key={name} value={name}>{title === name ? name : `${title} (${name})`}</option>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                            <FormControl>
+                                <FormLabel fontSize="sm">Message (optional)</FormLabel>
+                                <Textarea
+                                    size="sm"
+                                    value={message}
+                                    onChange={(e) => setMessage(e.target.value)}
+                                    placeholder="Why should this community read it?"
+                                    isDisabled={isSubmitting}
+                                />
+                            </FormControl>
+                        </>
+                    )}
+                </ModalBody>
+                <ModalFooter>
+                    <Button variant="ghost" mr={3} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button colorScheme="blue" onClick={handleCrossPost} isLoading={isSubmitting} isDisabled={!community || isLoading}>
+                        Cross-post
+                    </Button>
+                </ModalFooter>
+            </ModalContent>
+        </Modal>
+    );
+}
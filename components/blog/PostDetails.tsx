@@ -1,18 +1,26 @@
 import { Box, Text, Avatar, Flex, Icon, Button, Link, Slider, SliderTrack, SliderFilledTrack, SliderThumb, SliderMark, useToast } from '@chakra-ui/react';
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Discussion } from '@hiveio/dhive';
-import { FaHeart, FaComment, FaRegHeart, FaShare } from 'react-icons/fa';
+import { FaHeart, FaComment, FaRegHeart, FaShare, FaTrash, FaEdit, FaRetweet } from 'react-icons/fa';
 import { getPostDate } from '@/lib/utils/GetPostDate';
 import { useAioha } from '@aioha/react-ui';
 import markdownRenderer from '@/lib/utils/MarkdownRenderer';
 import { useCurrencyDisplay } from '@/hooks/useCurrencyDisplay';
+import PollView from '@/components/shared/PollView';
+import { parsePollMetadata } from '@/lib/utils/polls';
+import EditedMarker from '@/components/shared/EditedMarker';
+import DeletePostDialog from '@/components/shared/DeletePostDialog';
+import { BLANKED_BODY, BLANKED_TITLE, DeleteMode, buildBlankedMetadata, canDeleteFromChain } from '@/lib/utils/postEditing';
+import HivePostPreview from '@/components/shared/HivePostPreview';
+import CrossPostModal from './CrossPostModal';
+import { getCrossPostMessage, getCrossPostOrigin } from '@/lib/utils/crossPosts';
 
 interface PostDetailsProps {
     post: Discussion;
 }
 
 export default function PostDetails({ post }: PostDetailsProps) {
-    const { title, author, body, created } = post;
+    const { author, created } = post;
     const postDate = getPostDate(created);
     const { aioha, user } = useAioha();
     const [sliderValue, setSliderValue] = useState(100);
@@ -20,6 +28,15 @@ export default function PostDetails({ post }: PostDetailsProps) {
     const [voted, setVoted] = useState(post.active_votes?.some(item => item.voter === user));
     const [voteCount, setVoteCount] = useState(post.active_votes?.length || 0);
     const payoutDisplay = useCurrencyDisplay(post);
+    const poll = useMemo(() => parsePollMetadata(post.json_metadata), [post.json_metadata]);
+    const [content, setContent] = useState({ title: post.title, body: post.body }); // Blanked right away when removed
+    const [isDeleted, setIsDeleted] = useState(false);
+    const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+    const [isCrossPostOpen, setIsCrossPostOpen] = useState(false);
+    const { title, body } = content;
+    const crossPostOrigin = useMemo(() => getCrossPostOrigin(post.json_metadata), [post.json_metadata]);
+    // A cross-post shows its message and a card of the original instead of the link in its body
+    const renderedBody = crossPostOrigin && body !== BLANKED_BODY ? getCrossPostMessage(body) : body;
     const toast = useToast();
 
     function handleHeartClick() {
@@ -75,6 +92,59 @@ export default function PostDetails({ post }: PostDetailsProps) {
         }
     }
 
+    async function handleDelete(mode: DeleteMode) {
+        setIsDeleteDialogOpen(false);
+        const previous = content;
+
+        // Optimistic update
+        if (mode === 'delete') {
+            setIsDeleted(true);
+        } else {
+            setContent({ title: BLANKED_TITLE, body: BLANKED_BODY });
+        }
+
+        try {
+            const response = mode === 'delete'
+                ? await aioha.deleteComment(post.permlink)
+                : await aioha.comment(
+                    post.parent_author,
+                    post.parent_permlink,
+                    post.permlink,
+                    BLANKED_TITLE,
+                    BLANKED_BODY,
+                    buildBlankedMetadata(post.json_metadata)
+                );
+
+            if (!response.success) {
+                throw new Error(response.error || 'Broadcast failed');
+            }
+            toast({
+                title: mode === 'delete' ? 'Post Deleted' : 'Post Removed',
+                description: mode === 'delete' ? 'Your post was deleted.' : 'The content of your post was removed.',
+                status: 'success',
+                duration: 3000,
+            });
+        } catch (error) {
+            // Rollback on error
+            setIsDeleted(false);
+            setContent(previous);
+            toast({
+                title: 'Delete Failed',
+                description: 'Failed to delete the post. Please try again.',
+                status: 'error',
+                duration: 3000,
+            });
+        }
+    }
+
+    if (isDeleted) {
+        return (
+            <Box border="tb1" borderRadius="base" bg="muted" mb={3} p={4} w="100%">
+                <Text color="secondary" textAlign="center">This post was deleted.</Text>
+            </Box>
+        );
+    }
+
     return (
         <Box border="tb1" borderRadius="base" overflow="hidden" bg="muted" mb={3} p={4} w="100%">
             <Text fontSize="2xl" fontWeight="bold" mb={4} textAlign="center">
@@ -87,15 +157,18 @@ export default function PostDetails({ post }: PostDetailsProps) {
                         <Text fontWeight="medium" fontSize="sm">
                             <Link href={`/@${author}`}>@{author}</Link>
                         </Text>
-                        <Text fontSize="sm" color="secondary">
-                            {postDate}
-                        </Text>
+                        <Flex alignItems="center" gap={2}>
+                            <Text fontSize="sm" color="secondary">
+                                {postDate}
+                            </Text>
+                            <EditedMarker post={post} />
+                        </Flex>
                     </Box>
                 </Flex>
             </Flex>
             <Box 
                 mt={4} 
-                dangerouslySetInnerHTML={{ __html: markdownRenderer(body) }}
+                dangerouslySetInnerHTML={{ __html: markdownRenderer(renderedBody) }}
                 sx={{
                     '& p': {
                         marginBottom: '1em',
@@ -107,6 +180,19 @@ export default function PostDetails({ post }: PostDetailsProps) {
                         maxWidth: '100%',
                         height: 'auto'
                     },
+                    '& figure': {
+                        marginTop: '1em',
+                        marginBottom: '1em'
+                    },
+                    '& figure img': {
+                        marginTop: 0,
+                        marginBottom: '0.5em'
+                    },
+                    '& figcaption': {
+                        fontSize: 'sm',
+                        color: 'gray.400',
+                        textAlign: 'center'
+                    },
                     '& center': {
                         marginTop: '1em',
                         marginBottom: '1em'
@@ -134,6 +220,15 @@ export default function PostDetails({ post }: PostDetailsProps) {
                     }
                 }}
             />
+            {crossPostOrigin && body !== BLANKED_BODY && (
+                <Box mt={4}>
+                    <Text fontSize="sm" color="secondary" mb={2}>
+                        Cross-posted from @{crossPostOrigin.author}
+                    </Text>
+                    <HivePostPreview author={crossPostOrigin.author} permlink={crossPostOrigin.permlink} />
+                </Box>
+            )}
+            {poll && <PollView author={author} permlink={post.permlink} poll={poll} />}
             {showSlider ? (
                 <Flex mt={4} alignItems="center">
                     <Box width="100%" mr={2}>
@@ -167,12 +262,33 @@ export default function PostDetails({ post }: PostDetailsProps) {
                         <Icon as={FaComment} ml={4} />
                         <Text ml={2} fontSize="sm">{post.children}</Text>
                         <Icon as={FaShare} ml={4} cursor="pointer" onClick={handleShare} />
+                        {user && !post.parent_author && !crossPostOrigin && body !== BLANKED_BODY && (
+                            <Icon as={FaRetweet} ml={4} cursor="pointer" onClick={() => setIsCrossPostOpen(true)} aria-label="Cross-post to another community" />
+                        )}
+                        {user === author && !post.parent_author && body !== BLANKED_BODY && (
+                            <Link href={`/compose?edit=@${author}/${post.permlink}`} ml={4} display="flex" aria-label="Edit this post">
+                                <Icon as={FaEdit} />
+                            </Link>
+                        )}
+                        {user === author && body !== BLANKED_BODY && (
+                            <Icon as={FaTrash} ml={4} cursor="pointer" onClick={() => setIsDeleteDialogOpen(true)} aria-label="Delete this post" />
+                        )}
                     </Flex>
                     <Text fontWeight="bold" fontSize="sm">
                         {payoutDisplay}
                     </Text>
                 </Flex>
             )}
+            <DeletePostDialog
+                isOpen={isDeleteDialogOpen}
+                onClose={() => setIsDeleteDialogOpen(false)}
+                onConfirm={handleDelete}
+                mode={canDeleteFromChain(post, voteCount) ? 'delete' : 'blank'}
+                kind="post"
+            />
+            {isCrossPostOpen && (
+                <CrossPostModal isOpen={isCrossPostOpen} onClose={() => setIsCrossPostOpen(false)} post={post} />
+            )}
         </Box>
     );
 }
@@ -4,20 +4,22 @@
 import { Box, Container, Flex, Spinner } from '@chakra-ui/react';
 import SnapList from '../homepage/SnapList';
 import SnapComposer from '../homepage/SnapComposer';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Comment, Discussion } from '@hiveio/dhive'; // Ensure this import is consistent
 import Conversation from '../homepage/Conversation';
 import SnapReplyModal from '../homepage/SnapReplyModal';
 import { getPost } from '@/lib/hive/client-functions';
 import PostDetails from '@/components/blog/PostDetails';
 import { useComments } from '@/hooks/useComments';
+import { parseReplyPermalink } from '@/lib/utils/threadUtils';
 
 interface PostPageProps {
   author: string
   permlink: string
+  reply?: string // Permalink to a reply, `@author/permlink`
 }
 
-export default function PostPage({ author, permlink }: PostPageProps) {
+export default function PostPage({ author, permlink, reply: replyPermalink }: PostPageProps) {
 
   const [isLoading, setIsLoading] = useState(false);
   const [post, setPost] = useState<Discussion | null>(null);
@@ -50,6 +52,13 @@ export default function PostPage({ author, permlink }: PostPageProps) {
     loadPost();
   }, [author, permlink]);
 
+  // Reply permalinks open the threaded conversation of the post on that reply
+  const focusReply = useMemo(() => parseReplyPermalink(replyPermalink || null) || undefined, [replyPermalink]);
+
+  useEffect(() => {
+    if (post && focusReply) setConversation(post);
+  }, [post, focusReply]);
+
   const onOpen = () => setIsOpen(true);
   const onClose = () => setIsOpen(false);
 
@@ -86,7 +95,13 @@ export default function PostPage({ author, permlink }: PostPageProps) {
                 />
               </>
             ) : (
-              <Conversation comment={conversation} setConversation={setConversation} onOpen={onOpen} setReply={setReply} />
+              <Conversation
+                comment={conversation}
+                setConversation={setConversation}
+                onOpen={onOpen}
+                setReply={setReply}
+                focusReply={conversation.permlink === permlink ? focusReply : undefined}
+              />
             )}
           </Container>
         </Box>
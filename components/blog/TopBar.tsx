@@ -7,9 +7,10 @@ interface TopBarProps {
     viewMode: 'grid' | 'list';
     setViewMode: (mode: 'grid' | 'list') => void;
     setQuery: (query: string) => void;
+    showFollowing?: boolean; // The 'feed' query needs a logged-in user
 }
 
-export default function TopBar({ viewMode, setViewMode, setQuery }: TopBarProps) {
+export default function TopBar({ viewMode, setViewMode, setQuery, showFollowing = false }: TopBarProps) {
     const router = useRouter(); 
 
     return (
@@ -50,6 +51,7 @@ export default function TopBar({ viewMode, setViewMode, setQuery }: TopBarProps)
                         <MenuItem onClick={() => setQuery('created')}>Recent</MenuItem>
                         <MenuItem onClick={() => setQuery('trending')}>Trending</MenuItem>
                         <MenuItem onClick={() => setQuery('hot')}>Hot</MenuItem>
+                        {showFollowing && <MenuItem onClick={() => setQuery('feed')}>Following</MenuItem>}
                     </MenuList>
                 </Menu>
             </Flex>
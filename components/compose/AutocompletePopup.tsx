@@ -0,0 +1,64 @@
+'use client';
+import { FC } from 'react';
+import { Avatar, Box, HStack, Text } from '@chakra-ui/react';
+import type { AutocompleteItem } from '@/hooks/useTextareaAutocomplete';
+
+interface AutocompletePopupProps {
+  items: AutocompleteItem[];
+  activeIndex: number;
+  position: { top: number; left: number } | null; // Relative to the input's container
+  onSelect: (value: string) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * Suggestion list shown under the word being completed in a composer
+ */
+const AutocompletePopup: FC<AutocompletePopupProps> = ({ items, activeIndex, position, onSelect, onHover }) => {
+  if (!items.length) return null;
+
+  return (
+    <Box
+      position="absolute"
+      top={`${position?.top ?? 0}px`}
+      left={`${position?.left ?? 0}px`}
+      zIndex="dropdown"
+      minW="220px"
+      maxW="280px"
+      py={1}
+      bg="background"
+      border="1px solid"
+      borderColor="border"
+      borderRadius="base"
+      boxShadow="lg"
+      role="listbox"
+    >
+      {items.map((item, index) => (
+        <HStack
+          key={item.value}
+          px={3}
+          py={1.5}
+          spacing={2}
+          cursor="pointer"
+          bg={index === activeIndex ? 'muted' : 'transparent'}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep the focus in the input
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(item.value);
+          }}
+          onMouseEnter={() => onHover(index)}
+        >
+          {item.avatar && <Avatar size="xs" name={item.value} src={item.avatar} />}
+          <Text fontSize="sm" flex="1" noOfLines={1}>{item.label}</Text>
+          {item.detail && (
+            <Text fontSize="xs" color="gray.500" noOfLines={1}>{item.detail}</Text>
+          )}
+        </HStack>
+      ))}
+    </Box>
+  );
+};
+
+export default AutocompletePopup;
@@ -16,6 +16,14 @@ import {
   Collapse,
 } from '@chakra-ui/react';
 import { FaPlus, FaChevronDown, FaChevronUp } from 'react-icons/fa';
+import {
+  BeneficiaryContentType,
+  getBeneficiaryRule,
+  getBeneficiaryRules,
+  getMinimumWeight,
+  getTotalWeight,
+  validateBeneficiaries,
+} from '@/lib/utils/beneficiaries';
 
 export interface Beneficiary {
   account: string;
@@ -25,20 +33,19 @@ export interface Beneficiary {
 interface BeneficiariesInputProps {
   beneficiaries: Beneficiary[];
   setBeneficiaries: (beneficiaries: Beneficiary[]) => void;
+  contentType?: BeneficiaryContentType; // Picks the rules of the site beneficiary policy
+  isReadOnly?: boolean; // Published posts can't change their beneficiaries
 }
 
-const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBeneficiaries }) => {
+const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBeneficiaries, contentType = 'longForm', isReadOnly = false }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [newAccount, setNewAccount] = useState('');
   const [newPercentage, setNewPercentage] = useState('');
   const toast = useToast();
 
-  // Calculate total percentage (excluding snapie's 3%)
-  const totalPercentage = beneficiaries
-    .filter(b => b.account !== 'snapie')
-    .reduce((sum, b) => sum + (b.weight / 100), 0);
-
-  const snapiePercentage = 3; // Fixed 3% for snapie
+  const totalPercentage = getTotalWeight(beneficiaries) / 100;
+  const requiredRules = getBeneficiaryRules(contentType).filter((rule) => getMinimumWeight(rule) > 0);
+  const isRemovable = (account: string) => !isReadOnly && getMinimumWeight(getBeneficiaryRule(account, contentType)) === 0;
 
   const handleAddBeneficiary = () => {
     // Validation
@@ -65,23 +72,19 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
       return;
     }
 
-    // Check if total would exceed 100%
-    if (totalPercentage + percentage + snapiePercentage > 100) {
-      toast({
-        title: 'Exceeds 100%',
-        description: `Total beneficiaries would be ${(totalPercentage + percentage + snapiePercentage).toFixed(1)}%. Maximum is 100%.`,
-        status: 'error',
-        duration: 3000,
-        isClosable: true,
-      });
-      return;
-    }
+    // Adding an account already in the list changes its share
+    const account = newAccount.toLowerCase();
+    const weight = Math.round(percentage * 100); // Convert to basis points
+    const exists = beneficiaries.some(b => b.account === account);
+    const updated = exists
+      ? beneficiaries.map(b => (b.account === account ? { account, weight } : b))
+      : [...beneficiaries, { account, weight }];
 
-    // Check for duplicate
-    if (beneficiaries.some(b => b.account.toLowerCase() === newAccount.toLowerCase())) {
+    const error = validateBeneficiaries(updated, contentType);
+    if (error) {
       toast({
-        title: 'Duplicate Account',
-        description: 'This account is already a beneficiary',
+        title: 'Invalid Beneficiaries',
+        description: error,
         status: 'error',
         duration: 3000,
         isClosable: true,
@@ -89,16 +92,14 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
       return;
     }
 
-    // Add beneficiary
-    const weight = Math.round(percentage * 100); // Convert to basis points
-    setBeneficiaries([...beneficiaries, { account: newAccount.toLowerCase(), weight }]);
+    setBeneficiaries(updated);
     
     // Clear inputs
     setNewAccount('');
     setNewPercentage('');
 
     toast({
-      title: 'Beneficiary Added',
+      title: exists ? 'Beneficiary Updated' : 'Beneficiary Added',
       description: `${newAccount} will receive ${percentage}% of post rewards`,
       status: 'success',
       duration: 2000,
@@ -107,11 +108,11 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
   };
 
   const handleRemoveBeneficiary = (account: string) => {
-    // Can't remove snapie
-    if (account === 'snapie') {
+    // Required by the site policy
+    if (!isRemovable(account)) {
       toast({
         title: 'Cannot Remove',
-        description: 'Snapie is a required beneficiary (3%)',
+        description: `@${account} is a required beneficiary`,
         status: 'warning',
         duration: 2000,
         isClosable: true,
@@ -145,7 +146,7 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
             Reward Beneficiaries
           </Text>
           <Tag size="sm" colorScheme="blue">
-            {(totalPercentage + snapiePercentage).toFixed(1)}% allocated
+            {totalPercentage.toFixed(1)}% allocated
           </Tag>
         </HStack>
         <IconButton
@@ -174,12 +175,12 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
                       size="md"
                       borderRadius="base"
                       variant="solid"
-                      colorScheme={b.account === 'snapie' ? 'green' : 'blue'}
+                      colorScheme={isRemovable(b.account) ? 'blue' : 'green'}
                     >
                       <TagLabel>
                         @{b.account} ({(b.weight / 100).toFixed(1)}%)
                       </TagLabel>
-                      {b.account !== 'snapie' && (
+                      {isRemovable(b.account) && (
                         <TagCloseButton onClick={() => handleRemoveBeneficiary(b.account)} />
                       )}
                     </Tag>
@@ -188,52 +189,64 @@ const BeneficiariesInput: FC<BeneficiariesInputProps> = ({ beneficiaries, setBen
               </Box>
             )}
 
-            {/* Add New Beneficiary */}
-            <Box>
-              <Text fontSize="sm" color="gray.400" mb={2}>
-                Add beneficiary:
+            {isReadOnly && (
+              <Text fontSize="sm" color="gray.400">
+                {beneficiaries.length === 0 ? 'This post has no beneficiaries. ' : ''}
+                Beneficiaries are set when a post is published and can&apos;t be changed afterwards.
               </Text>
-              <HStack spacing={2}>
-                <Input
-                  placeholder="@username"
-                  value={newAccount}
-                  onChange={(e) => setNewAccount(e.target.value.replace('@', ''))}
-                  size="sm"
-                  bg="background"
-                  color="text"
-                  borderColor="border"
-                  _focus={{ borderColor: 'primary' }}
-                  _placeholder={{ color: 'gray.500' }}
-                />
-                <Input
-                  placeholder="%"
-                  type="number"
-                  min="0"
-                  max="100"
-                  step="0.1"
-                  value={newPercentage}
-                  onChange={(e) => setNewPercentage(e.target.value)}
-                  size="sm"
-                  width="80px"
-                  bg="background"
-                  color="text"
-                  borderColor="border"
-                  _focus={{ borderColor: 'primary' }}
-                  _placeholder={{ color: 'gray.500' }}
-                />
-                <IconButton
-                  aria-label="Add beneficiary"
-                  icon={<FaPlus />}
-                  size="sm"
-                  colorScheme="blue"
-                  onClick={handleAddBeneficiary}
-                  isDisabled={totalPercentage + snapiePercentage >= 100}
-                />
-              </HStack>
-              <Text fontSize="xs" color="gray.500" mt={1}>
-                Remaining: {(100 - totalPercentage - snapiePercentage).toFixed(1)}% • Note: 3% to @snapie is required
-              </Text>
-            </Box>
+            )}
+
+            {/* Add New Beneficiary */}
+            {!isReadOnly && (
+              <Box>
+                <Text fontSize="sm" color="gray.400" mb={2}>
+                  Add beneficiary:
+                </Text>
+                <HStack spacing={2}>
+                  <Input
+                    placeholder="@username"
+                    value={newAccount}
+                    onChange={(e) => setNewAccount(e.target.value.replace('@', ''))}
+                    size="sm"
+                    bg="background"
+                    color="text"
+                    borderColor="border"
+                    _focus={{ borderColor: 'primary' }}
+                    _placeholder={{ color: 'gray.500' }}
+                  />
+                  <Input
+                    placeholder="%"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={newPercentage}
+                    onChange={(e) => setNewPercentage(e.target.value)}
+                    size="sm"
+                    width="80px"
+                    bg="background"
+                    color="text"
+                    borderColor="border"
+                    _focus={{ borderColor: 'primary' }}
+                    _placeholder={{ color: 'gray.500' }}
+                  />
+                  <IconButton
+                    aria-label="Add beneficiary"
+                    icon={<FaPlus />}
+                    size="sm"
+                    colorScheme="blue"
+                    onClick={handleAddBeneficiary}
+                    isDisabled={totalPercentage >= 100}
+                  />
+                </HStack>
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Remaining: {(100 - totalPercentage).toFixed(1)}%
+                  {requiredRules.map((rule) => (
+                    ` • ${rule.locked ? '' : 'At least '}${(getMinimumWeight(rule) / 100).toFixed(1)}% to @${rule.account} is required`
+                  ))}
+                </Text>
+              </Box>
+            )}
           </VStack>
         </Box>
       </Collapse>
@@ -0,0 +1,45 @@
+'use client';
+import { FC } from 'react';
+import { Box, HStack, Select, Spinner, Text } from '@chakra-ui/react';
+import type { CommunityOption } from '@/hooks/useSubscribedCommunities';
+
+interface CommunitySelectProps {
+  value: string;
+  onChange: (community: string) => void;
+  communities: CommunityOption[];
+  isLoading?: boolean;
+  isDisabled?: boolean; // The community of a published post can't change
+}
+
+const CommunitySelect: FC<CommunitySelectProps> = ({ value, onChange, communities, isLoading = false, isDisabled = false }) => {
+  // A draft or post can be in a community the user left since
+  const options = communities.some(({ name }) => name === value) ? communities : [...communities, { name: value, title: value }];
+
+  return (
+    <Box border="1px solid" borderColor="border" borderRadius="md" bg="background" px={3} py={2}>
+      <HStack spacing={3}>
+        <Text fontSize="sm" color="text" whiteSpace="nowrap">
+          Post in
+        </Text>
+        <Select
+          size="sm"
+          aria-label="Community"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          isDisabled={isDisabled}
+          bg="background"
+          color="text"
+        >
+          {options.map(({ name, title }) => (
+            <option key={name} value={name}>
+              {title === name ? name : `${title} (${name})`}
+            </option>
+          ))}
+        </Select>
+        {isLoading && <Spinner size="sm" />}
+      </HStack>
+    </Box>
+  );
+};
+
+export default CommunitySelect;
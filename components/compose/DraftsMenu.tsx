@@ -0,0 +1,77 @@
+'use client';
+import { FC } from 'react';
+import {
+  Button,
+  HStack,
+  IconButton,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FaRegFileAlt, FaTrash } from 'react-icons/fa';
+import { Draft, getDraftPreview } from '@/lib/utils/drafts';
+import { getPostDate } from '@/lib/utils/GetPostDate';
+
+interface DraftsMenuProps {
+  drafts: Draft[];
+  savedAt: string | null;
+  onRestore: (draft: Draft) => void;
+  onDelete: (id: string) => void;
+}
+
+// getPostDate expects chain timestamps, UTC without the timezone suffix
+const formatDraftDate = (date: string) => getPostDate(new Date(date).toISOString().slice(0, 19));
+
+const DraftsMenu: FC<DraftsMenuProps> = ({ drafts, savedAt, onRestore, onDelete }) => {
+  return (
+    <HStack spacing={3}>
+      {savedAt && (
+        <Text fontSize="xs" color="gray.500">
+          Draft saved at {new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </Text>
+      )}
+      <Menu placement="bottom-end" isLazy>
+        <MenuButton
+          as={Button}
+          size="xs"
+          variant="ghost"
+          leftIcon={<FaRegFileAlt />}
+          isDisabled={drafts.length === 0}
+        >
+          Drafts ({drafts.length})
+        </MenuButton>
+        <MenuList bg="background" maxH="320px" overflowY="auto" zIndex={20}>
+          {drafts.map((draft) => (
+            <MenuItem key={draft.id} bg="background" onClick={() => onRestore(draft)}>
+              <HStack justify="space-between" w="full" spacing={3}>
+                <VStack align="start" spacing={0} minW={0}>
+                  <Text fontSize="sm" noOfLines={1}>
+                    {getDraftPreview(draft)}
+                  </Text>
+                  <Text fontSize="xs" color="gray.500">
+                    {formatDraftDate(draft.updatedAt)}
+                  </Text>
+                </VStack>
+                <IconButton
+                  aria-label="Delete draft"
+                  icon={<FaTrash />}
+                  size="xs"
+                  variant="ghost"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(draft.id);
+                  }}
+                />
+              </HStack>
+            </MenuItem>
+          ))}
+        </MenuList>
+      </Menu>
+    </HStack>
+  );
+};
+
+export default DraftsMenu;
@@ -0,0 +1,97 @@
+'use client';
+import { FC, useEffect, useState } from 'react';
+import {
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Image,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Textarea,
+  VStack,
+} from '@chakra-ui/react';
+import { EMPTY_IMAGE_DETAILS, ImageDetails } from '@/lib/utils/imageMarkdown';
+
+interface ImageDetailsModalProps {
+  file: File | null; // Image being described, the modal is open while set
+  details?: ImageDetails; // Current details when editing them again
+  queueLabel?: string; // Like "Image 2 of 3"
+  onSave: (details: ImageDetails) => void;
+  onSkip: () => void; // Keep the image without details
+}
+
+const ImageDetailsModal: FC<ImageDetailsModalProps> = ({ file, details = EMPTY_IMAGE_DETAILS, queueLabel, onSave, onSkip }) => {
+  const [alt, setAlt] = useState(details.alt);
+  const [caption, setCaption] = useState(details.caption);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAlt(details.alt);
+    setCaption(details.caption);
+  }, [file, details.alt, details.caption]);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <Modal isOpen={file !== null} onClose={onSkip} isCentered size="md">
+      <ModalOverlay />
+      <ModalContent bg="background" color="text">
+        <ModalHeader fontSize="md">
+          Describe this image{queueLabel ? ` (${queueLabel})` : ''}
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            {previewUrl && (
+              <Image src={previewUrl} alt={alt} maxH="200px" objectFit="contain" borderRadius="base" />
+            )}
+            <FormControl>
+              <FormLabel fontSize="sm">Alt text</FormLabel>
+              <Textarea
+                value={alt}
+                onChange={(e) => setAlt(e.target.value)}
+                placeholder="What's in the picture?"
+                size="sm"
+                rows={2}
+                autoFocus
+              />
+              <FormHelperText fontSize="xs">Read aloud by screen readers and shown when the image can&apos;t load</FormHelperText>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontSize="sm">Caption</FormLabel>
+              <Input
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Optional, shown under the image"
+                size="sm"
+              />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={2}>
+            <Button size="sm" variant="ghost" onClick={onSkip}>
+              Skip
+            </Button>
+            <Button size="sm" colorScheme="primary" onClick={() => onSave({ alt: alt.trim(), caption: caption.trim() })}>
+              Save
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default ImageDetailsModal;
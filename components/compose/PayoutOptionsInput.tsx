@@ -0,0 +1,161 @@
+'use client';
+import { FC, useState } from 'react';
+import {
+  Box,
+  Flex,
+  IconButton,
+  Input,
+  Text,
+  VStack,
+  HStack,
+  Tag,
+  Radio,
+  RadioGroup,
+  Stack,
+  Collapse,
+} from '@chakra-ui/react';
+import { FaChevronDown, FaChevronUp } from 'react-icons/fa';
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import { PAYOUT_TYPE_LABELS, PayoutOptions, PayoutType, getRewardSplit, validatePayoutOptions } from '@/lib/utils/payoutOptions';
+
+interface PayoutOptionsInputProps {
+  payout: PayoutOptions;
+  setPayout: (payout: PayoutOptions) => void;
+  beneficiaries: Beneficiary[]; // Their share is shown in the preview
+  isReadOnly?: boolean; // Published posts can't change their payout options
+}
+
+function formatShare(percent: number): string {
+  return `${Number(percent.toFixed(2))}%`;
+}
+
+const PayoutOptionsInput: FC<PayoutOptionsInputProps> = ({ payout, setPayout, beneficiaries, isReadOnly = false }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const error = validatePayoutOptions(payout);
+  const split = getRewardSplit(payout, beneficiaries);
+  const limit = payout.type !== 'decline' && payout.maxAcceptedPayout.trim() && !error ? payout.maxAcceptedPayout.trim() : null;
+
+  return (
+    <Box
+      border="1px solid"
+      borderColor="border"
+      borderRadius="md"
+      bg="background"
+    >
+      {/* Header */}
+      <Flex
+        px={4}
+        py={3}
+        justify="space-between"
+        align="center"
+        cursor="pointer"
+        onClick={() => setIsExpanded(!isExpanded)}
+        _hover={{ bg: 'secondary' }}
+        transition="background 0.2s"
+      >
+        <HStack spacing={3}>
+          <Text fontWeight="bold" color="text">
+            Payout
+          </Text>
+          <Tag size="sm" colorScheme={error ? 'red' : payout.type === 'decline' ? 'orange' : 'blue'}>
+            {PAYOUT_TYPE_LABELS[payout.type]}{limit ? ` • max ${limit} HBD` : ''}
+          </Tag>
+        </HStack>
+        <IconButton
+          aria-label="Toggle payout options"
+          icon={isExpanded ? <FaChevronUp /> : <FaChevronDown />}
+          size="xs"
+          variant="ghost"
+          color="white"
+        />
+      </Flex>
+
+      {/* Expanded Content */}
+      <Collapse in={isExpanded}>
+        <Box p={4} borderTop="1px solid" borderColor="border">
+          <VStack spacing={3} align="stretch">
+            <RadioGroup
+              value={payout.type}
+              onChange={(type) => setPayout({ ...payout, type: type as PayoutType })}
+              isDisabled={isReadOnly}
+            >
+              <Stack direction={{ base: 'column', sm: 'row' }} spacing={4}>
+                {(Object.keys(PAYOUT_TYPE_LABELS) as PayoutType[]).map((type) => (
+                  <Radio key={type} value={type} size="sm">
+                    <Text fontSize="sm" color="text">{PAYOUT_TYPE_LABELS[type]}</Text>
+                  </Radio>
+                ))}
+              </Stack>
+            </RadioGroup>
+
+            {payout.type !== 'decline' && (
+              <Box>
+                <Text fontSize="sm" color="gray.400" mb={2}>
+                  Maximum accepted payout (HBD):
+                </Text>
+                <Input
+                  placeholder="No limit"
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  value={payout.maxAcceptedPayout}
+                  onChange={(e) => setPayout({ ...payout, maxAcceptedPayout: e.target.value })}
+                  isReadOnly={isReadOnly}
+                  size="sm"
+                  width="160px"
+                  bg="background"
+                  color="text"
+                  borderColor={error ? 'red.400' : 'border'}
+                  _focus={{ borderColor: 'primary' }}
+                  _placeholder={{ color: 'gray.500' }}
+                />
+                {error && (
+                  <Text fontSize="xs" color="red.400" mt={1}>
+                    {error}
+                  </Text>
+                )}
+              </Box>
+            )}
+
+            {/* Reward split preview */}
+            <Box>
+              <Text fontSize="sm" color="gray.400" mb={2}>
+                Reward split:
+              </Text>
+              {payout.type === 'decline' ? (
+                <Text fontSize="sm" color="text">
+                  Nobody is paid for this post, its rewards stay in the reward pool.
+                </Text>
+              ) : (
+                <Flex flexWrap="wrap" gap={2}>
+                  <Tag size="sm" variant="subtle">Curators {formatShare(split.curators)}</Tag>
+                  {split.beneficiaries > 0 && (
+                    <Tag size="sm" variant="subtle">Beneficiaries {formatShare(split.beneficiaries)}</Tag>
+                  )}
+                  {split.authorHbd > 0 && (
+                    <Tag size="sm" variant="subtle" colorScheme="green">You {formatShare(split.authorHbd)} HBD</Tag>
+                  )}
+                  <Tag size="sm" variant="subtle" colorScheme="blue">You {formatShare(split.authorHp)} HP</Tag>
+                </Flex>
+              )}
+              {limit && (
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  Rewards above {limit} HBD are left in the reward pool.
+                </Text>
+              )}
+            </Box>
+
+            {isReadOnly && (
+              <Text fontSize="sm" color="gray.400">
+                Payout options are set when a post is published and can&apos;t be changed afterwards.
+              </Text>
+            )}
+          </VStack>
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default PayoutOptionsInput;
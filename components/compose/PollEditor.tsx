@@ -0,0 +1,132 @@
+'use client';
+import { FC } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  NumberDecrementStepper,
+  NumberIncrementStepper,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { CloseIcon } from '@chakra-ui/icons';
+import { FaPlus } from 'react-icons/fa';
+import { MAX_POLL_CHOICES, MIN_POLL_CHOICES, PollDraft, validatePollDraft } from '@/lib/utils/polls';
+import { toLocalInputValue } from '@/lib/utils/composeUtils';
+
+interface PollEditorProps {
+  poll: PollDraft;
+  onChange: (poll: PollDraft) => void;
+  onRemove: () => void;
+  isDisabled?: boolean;
+}
+
+const PollEditor: FC<PollEditorProps> = ({ poll, onChange, onRemove, isDisabled = false }) => {
+  const validationError = validatePollDraft(poll);
+
+  function updateChoice(index: number, value: string) {
+    onChange({ ...poll, choices: poll.choices.map((choice, i) => (i === index ? value : choice)) });
+  }
+
+  function removeChoice(index: number) {
+    const choices = poll.choices.filter((_, i) => i !== index);
+    onChange({ ...poll, choices, maxChoices: Math.min(poll.maxChoices, choices.length) });
+  }
+
+  return (
+    <Box p={3} border="1px solid" borderColor="border" borderRadius="base" bg="background">
+      <HStack justify="space-between" mb={2}>
+        <Text fontWeight="bold" fontSize="sm">Poll</Text>
+        <IconButton aria-label="Remove poll" icon={<CloseIcon />} size="xs" variant="ghost" onClick={onRemove} isDisabled={isDisabled} />
+      </HStack>
+
+      <VStack align="stretch" spacing={2}>
+        <Input
+          size="sm"
+          placeholder="Ask a question"
+          value={poll.question}
+          onChange={(e) => onChange({ ...poll, question: e.target.value })}
+          isDisabled={isDisabled}
+        />
+
+        {poll.choices.map((choice, index) => (
+          <HStack key={index}>
+            <Input
+              size="sm"
+              placeholder={`Option ${index + 1}`}
+              value={choice}
+              onChange={(e) => updateChoice(index, e.target.value)}
+              isDisabled={isDisabled}
+            />
+            {poll.choices.length > MIN_POLL_CHOICES && (
+              <IconButton
+                aria-label="Remove option"
+                icon={<CloseIcon />}
+                size="xs"
+                variant="ghost"
+                onClick={() => removeChoice(index)}
+                isDisabled={isDisabled}
+              />
+            )}
+          </HStack>
+        ))}
+
+        {poll.choices.length < MAX_POLL_CHOICES && (
+          <Button
+            size="xs"
+            variant="ghost"
+            leftIcon={<FaPlus />}
+            alignSelf="flex-start"
+            onClick={() => onChange({ ...poll, choices: [...poll.choices, ''] })}
+            isDisabled={isDisabled}
+          >
+            Add option
+          </Button>
+        )}
+
+        <HStack spacing={4} flexWrap="wrap">
+          <Box>
+            <Text fontSize="xs" color="gray.500" mb={1}>Ends</Text>
+            <Input
+              type="datetime-local"
+              size="sm"
+              value={toLocalInputValue(poll.endTime)}
+              min={toLocalInputValue(new Date())}
+              onChange={(e) => e.target.value && onChange({ ...poll, endTime: new Date(e.target.value).toISOString() })}
+              isDisabled={isDisabled}
+            />
+          </Box>
+          <Box>
+            <Text fontSize="xs" color="gray.500" mb={1}>Choices per voter</Text>
+            <NumberInput
+              size="sm"
+              maxW="100px"
+              min={1}
+              max={poll.choices.length}
+              value={poll.maxChoices}
+              onChange={(_, value) => onChange({ ...poll, maxChoices: isNaN(value) ? 1 : value })}
+              isDisabled={isDisabled}
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+          </Box>
+        </HStack>
+
+        {validationError && (
+          <Text fontSize="xs" color="gray.500">{validationError}</Text>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default PollEditor;
@@ -0,0 +1,249 @@
+'use client';
+import { FC, useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Divider,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Spinner,
+  Text,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { useScheduledPosts } from '@/hooks/useScheduledPosts';
+import { ScheduledPost, ScheduledPostStatus, validatePublishAt } from '@/lib/utils/scheduledPosts';
+import { toLocalInputValue } from '@/lib/utils/composeUtils';
+
+interface ScheduledPostsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scheduler: ReturnType<typeof useScheduledPosts>;
+  canSchedule: boolean; // The composer holds a valid post
+  editingJob: ScheduledPost | null; // Scheduled post loaded in the composer
+  onSchedule: (publishAt: string) => Promise<void>;
+  onEditContent: (job: ScheduledPost) => void;
+}
+
+const STATUS_COLORS: Record<ScheduledPostStatus, string> = {
+  scheduled: 'blue',
+  publishing: 'purple',
+  published: 'green',
+  failed: 'red',
+  cancelled: 'gray',
+};
+
+function getDefaultPublishTime(): string {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return toLocalInputValue(date);
+}
+
+const ScheduledPostsModal: FC<ScheduledPostsModalProps> = ({
+  isOpen,
+  onClose,
+  scheduler,
+  canSchedule,
+  editingJob,
+  onSchedule,
+  onEditContent,
+}) => {
+  const { jobs, appAccount, hasAuthority, isLoading, error, refresh, updatePost, cancelPost, grantAuthority } = scheduler;
+  const [publishAt, setPublishAt] = useState(getDefaultPublishTime);
+  const [rescheduleTimes, setRescheduleTimes] = useState<Record<string, string>>({});
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  useEffect(() => {
+    if (editingJob) setPublishAt(toLocalInputValue(editingJob.publishAt));
+  }, [editingJob]);
+
+  async function runAction(key: string, action: () => Promise<void>, successTitle: string) {
+    setBusyAction(key);
+    try {
+      await action();
+      toast({ title: successTitle, status: 'success', duration: 3000, isClosable: true });
+    } catch (err: any) {
+      toast({
+        title: 'Scheduler Error',
+        description: err.message || 'Something went wrong',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setBusyAction(null);
+    }
+  }
+
+  function handleSchedule() {
+    const publishDate = new Date(publishAt).toISOString();
+    const validationError = validatePublishAt(publishDate);
+    if (validationError) {
+      toast({ title: 'Invalid Time', description: validationError, status: 'error', duration: 3000, isClosable: true });
+      return;
+    }
+    runAction('schedule', () => onSchedule(publishDate), editingJob ? 'Scheduled post updated' : 'Post scheduled');
+  }
+
+  function handleReschedule(job: ScheduledPost) {
+    const value = rescheduleTimes[job.id];
+    if (!value) return;
+    const publishDate = new Date(value).toISOString();
+    const validationError = validatePublishAt(publishDate);
+    if (validationError) {
+      toast({ title: 'Invalid Time', description: validationError, status: 'error', duration: 3000, isClosable: true });
+      return;
+    }
+    runAction(`reschedule-${job.id}`, async () => {
+      await updatePost(job.id, { publishAt: publishDate });
+    }, 'Publish time updated');
+  }
+
+  const activeJobs = jobs.filter((job) => job.status !== 'cancelled');
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent bg="background" color="text">
+        <ModalHeader>Scheduled posts</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          {isLoading && jobs.length === 0 ? (
+            <Box textAlign="center" py={6}>
+              <Spinner color="primary" />
+            </Box>
+          ) : error ? (
+            <VStack spacing={3} py={4}>
+              <Text color="red.400">{error}</Text>
+              <Button size="sm" onClick={refresh}>Retry</Button>
+            </VStack>
+          ) : (
+            <VStack align="stretch" spacing={4}>
+              {appAccount && !hasAuthority && (
+                <Box p={3} border="1px solid" borderColor="border" borderRadius="base">
+                  <Text fontSize="sm" mb={2}>
+                    Scheduled posts are published for you by @{appAccount}. Grant it posting authority to
+                    schedule posts, it can be revoked at any time from your wallet.
+                  </Text>
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    onClick={() => runAction('grant', grantAuthority, 'Posting authority granted')}
+                    isLoading={busyAction === 'grant'}
+                  >
+                    Grant posting authority
+                  </Button>
+                </Box>
+              )}
+
+              <Box>
+                <Text fontWeight="bold" mb={2}>
+                  {editingJob ? `Update "${editingJob.title}"` : 'Publish this post at'}
+                </Text>
+                <HStack>
+                  <Input
+                    type="datetime-local"
+                    size="sm"
+                    value={publishAt}
+                    min={toLocalInputValue(new Date())}
+                    onChange={(e) => setPublishAt(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    flexShrink={0}
+                    onClick={handleSchedule}
+                    isLoading={busyAction === 'schedule'}
+                    isDisabled={!canSchedule || !hasAuthority}
+                  >
+                    {editingJob ? 'Update' : 'Schedule'}
+                  </Button>
+                </HStack>
+                {!canSchedule && (
+                  <Text fontSize="xs" color="gray.500" mt={1}>
+                    Write a title and some content first
+                  </Text>
+                )}
+              </Box>
+
+              <Divider />
+
+              {activeJobs.length === 0 ? (
+                <Text fontSize="sm" color="gray.500">No scheduled posts yet</Text>
+              ) : (
+                activeJobs.map((job) => {
+                  const isEditable = job.status === 'scheduled' || job.status === 'failed';
+
+                  return (
+                    <Box key={job.id} p={3} border="1px solid" borderColor="border" borderRadius="base">
+                      <HStack justify="space-between" mb={1}>
+                        <Text fontWeight="bold" noOfLines={1}>{job.title}</Text>
+                        <Badge colorScheme={STATUS_COLORS[job.status]}>{job.status}</Badge>
+                      </HStack>
+                      <Text fontSize="xs" color="gray.500">
+                        {new Date(job.publishAt).toLocaleString()}
+                      </Text>
+                      {job.lastError && (
+                        <Text fontSize="xs" color="red.400" mt={1}>{job.lastError}</Text>
+                      )}
+                      {job.status === 'published' && (
+                        <Button as="a" href={`/@${job.author}/${job.permlink}`} size="xs" variant="link" mt={1}>
+                          View post
+                        </Button>
+                      )}
+                      {isEditable && (
+                        <HStack mt={2} spacing={2} flexWrap="wrap">
+                          <Input
+                            type="datetime-local"
+                            size="xs"
+                            maxW="200px"
+                            value={rescheduleTimes[job.id] ?? toLocalInputValue(job.publishAt)}
+                            onChange={(e) => setRescheduleTimes((prev) => ({ ...prev, [job.id]: e.target.value }))}
+                          />
+                          <Button
+                            size="xs"
+                            onClick={() => handleReschedule(job)}
+                            isLoading={busyAction === `reschedule-${job.id}`}
+                            isDisabled={!rescheduleTimes[job.id]}
+                          >
+                            Reschedule
+                          </Button>
+                          <Button size="xs" variant="outline" onClick={() => onEditContent(job)}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="xs"
+                            variant="ghost"
+                            colorScheme="red"
+                            onClick={() => runAction(`cancel-${job.id}`, () => cancelPost(job.id), 'Scheduled post cancelled')}
+                            isLoading={busyAction === `cancel-${job.id}`}
+                          >
+                            Cancel
+                          </Button>
+                        </HStack>
+                      )}
+                    </Box>
+                  );
+                })
+              )}
+            </VStack>
+          )}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default ScheduledPostsModal;
@@ -0,0 +1,151 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Container, Flex, Heading, Tab, TabList, TabPanel, TabPanels, Tabs, useToast } from '@chakra-ui/react';
+import { Comment, Discussion } from '@hiveio/dhive';
+import { FaHashtag } from 'react-icons/fa';
+import SnapList from '@/components/homepage/SnapList';
+import Conversation from '@/components/homepage/Conversation';
+import SnapReplyModal from '@/components/homepage/SnapReplyModal';
+import PostInfiniteScroll from '@/components/blog/PostInfiniteScroll';
+import { useSnaps } from '@/hooks/useSnaps';
+import { useFollowedTags } from '@/hooks/useFollowedTags';
+import { findPosts } from '@/lib/hive/client-functions';
+
+interface HashtagPageProps {
+  tag: string;
+}
+
+/**
+ * Long-form posts carrying the tag, from get_discussions_by_created
+ */
+function HashtagPosts({ tag }: HashtagPageProps) {
+  const [allPosts, setAllPosts] = useState<Discussion[]>([]);
+  const isFetching = useRef(false);
+  const params = useRef({
+    tag,
+    limit: 12,
+    start_author: '',
+    start_permlink: '',
+  });
+
+  const fetchPosts = useCallback(async () => {
+    if (isFetching.current) return; // Prevent multiple fetches
+    isFetching.current = true;
+    try {
+      const posts = await findPosts('created', params.current);
+      // The API repeats the start post on every page after the first, hence the extra one requested
+      const newPosts = params.current.start_permlink ? posts.slice(1) : posts;
+      const topLevelPosts = newPosts.filter((post: Discussion) => post.parent_author === '');
+
+      setAllPosts((prevPosts) => [...prevPosts, ...topLevelPosts]);
+
+      const lastPost = posts[posts.length - 1];
+      if (lastPost) {
+        params.current = {
+          tag,
+          limit: 13,
+          start_author: lastPost.author,
+          start_permlink: lastPost.permlink,
+        };
+      }
+    } catch (error) {
+      console.error('Error fetching hashtag posts:', error);
+    } finally {
+      isFetching.current = false;
+    }
+  }, [tag]);
+
+  useEffect(() => {
+    setAllPosts([]);
+    params.current = { tag, limit: 12, start_author: '', start_permlink: '' };
+    fetchPosts();
+  }, [tag, fetchPosts]);
+
+  return <PostInfiniteScroll allPosts={allPosts} fetchPosts={fetchPosts} viewMode="list" />;
+}
+
+export default function HashtagPage({ tag }: HashtagPageProps) {
+  const normalizedTag = tag.toLowerCase();
+  const [conversation, setConversation] = useState<Comment | undefined>();
+  const [reply, setReply] = useState<Comment>();
+  const [isOpen, setIsOpen] = useState(false);
+  const { isFollowingTag, toggleFollowTag } = useFollowedTags();
+  const toast = useToast();
+
+  const snaps = useSnaps({ filterType: 'hashtag', hashtag: normalizedTag });
+  const following = isFollowingTag(normalizedTag);
+
+  const onOpen = () => setIsOpen(true);
+  const onClose = () => setIsOpen(false);
+
+  function handleFollowTag() {
+    toggleFollowTag(normalizedTag);
+    toast({
+      title: following ? 'Unfollowed' : 'Following',
+      description: following ? `You unfollowed #${normalizedTag}` : `You are now following #${normalizedTag}`,
+      status: 'success',
+      duration: 3000,
+      isClosable: true,
+    });
+  }
+
+  return (
+    <Container
+      id="scrollableDiv"
+      maxW={{ base: '100%', md: '720px' }}
+      h="100vh"
+      overflowY="auto"
+      px={0}
+      sx={{
+        '&::-webkit-scrollbar': {
+          display: 'none',
+        },
+        scrollbarWidth: 'none',
+      }}
+    >
+      <Flex justify="space-between" align="center" px={2} py={4}>
+        <Heading size="lg" display="flex" alignItems="center" gap={2}>
+          <FaHashtag />
+          {normalizedTag}
+        </Heading>
+        <Button
+          size="sm"
+          variant={following ? 'outline' : 'solid'}
+          colorScheme="primary"
+          onClick={handleFollowTag}
+        >
+          {following ? 'Unfollow tag' : 'Follow this tag'}
+        </Button>
+      </Flex>
+      <Tabs isLazy variant="soft-rounded" colorScheme="primary">
+        <TabList px={2}>
+          <Tab>Snaps</Tab>
+          <Tab>Posts</Tab>
+        </TabList>
+        <TabPanels>
+          <TabPanel px={0}>
+            {!conversation ? (
+              <SnapList
+                author="peak.snaps"
+                permlink="snaps"
+                setConversation={setConversation}
+                onOpen={onOpen}
+                setReply={setReply}
+                newComment={null}
+                data={snaps}
+              />
+            ) : (
+              <Conversation comment={conversation} setConversation={setConversation} onOpen={onOpen} setReply={setReply} />
+            )}
+          </TabPanel>
+          <TabPanel px={2}>
+            <Box>
+              <HashtagPosts tag={normalizedTag} />
+            </Box>
+          </TabPanel>
+        </TabPanels>
+      </Tabs>
+      {isOpen && <SnapReplyModal isOpen={isOpen} onClose={onClose} comment={reply} onNewReply={() => null} />}
+    </Container>
+  );
+}
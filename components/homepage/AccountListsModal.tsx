@@ -0,0 +1,213 @@
+import {
+    Modal,
+    ModalBody,
+    ModalContent,
+    ModalFooter,
+    ModalHeader,
+    ModalOverlay,
+    ModalCloseButton,
+    Button,
+    HStack,
+    VStack,
+    Input,
+    Textarea,
+    Text,
+    IconButton,
+    Box,
+    useToast,
+} from '@chakra-ui/react';
+import React, { useRef, useState } from 'react';
+import { FaEdit, FaTrash, FaFileImport, FaFileExport, FaBroadcastTower } from 'react-icons/fa';
+import { useAccountLists } from '@/hooks/useAccountLists';
+import { AccountList, exportAccountLists, parseAccountNames } from '@/lib/utils/accountLists';
+
+interface AccountListsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    accountLists: ReturnType<typeof useAccountLists>;
+    canPublish: boolean;
+}
+
+export default function AccountListsModal({ isOpen, onClose, accountLists, canPublish }: AccountListsModalProps) {
+    const { lists, addList, updateList, removeList, importLists, publishLists } = accountLists;
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [accountsInput, setAccountsInput] = useState('');
+    const [isPublishing, setIsPublishing] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const toast = useToast();
+
+    const { accounts, invalid } = parseAccountNames(accountsInput);
+
+    function resetForm() {
+        setEditingId(null);
+        setName('');
+        setAccountsInput('');
+    }
+
+    function handleEdit(list: AccountList) {
+        setEditingId(list.id);
+        setName(list.name);
+        setAccountsInput(list.accounts.join('\n'));
+    }
+
+    function handleSave() {
+        if (!name.trim() || !accounts.length) return;
+        if (editingId) {
+            updateList(editingId, name, accounts);
+        } else {
+            addList(name, accounts);
+        }
+        resetForm();
+    }
+
+    function handleRemove(list: AccountList) {
+        if (!window.confirm(`Delete the list "${list.name}"?`)) return;
+        removeList(list.id);
+        if (editingId === list.id) resetForm();
+    }
+
+    function handleExport() {
+        const blob = new Blob([exportAccountLists(lists)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'account-lists.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    async function handleImport(event: React.ChangeEvent<HTMLInputElement>) {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+
+        try {
+            const count = importLists(await file.text());
+            toast({
+                title: 'Lists imported',
+                description: `${count} list${count > 1 ? 's' : ''} imported`,
+                status: 'success',
+                duration: 3000,
+                isClosable: true,
+            });
+        } catch (error) {
+            toast({
+                title: 'Import failed',
+                description: error instanceof Error ? error.message : 'Could not read the file',
+                status: 'error',
+                duration: 3000,
+                isClosable: true,
+            });
+        }
+    }
+
+    async function handlePublish() {
+        setIsPublishing(true);
+        try {
+            await publishLists();
+            toast({
+                title: 'Lists published',
+                description: 'Your account lists are now on the blockchain',
+                status: 'success',
+                duration: 3000,
+                isClosable: true,
+            });
+        } catch (error) {
+            toast({
+                title: 'Publish failed',
+                description: error instanceof Error ? error.message : 'Failed to publish account lists',
+                status: 'error',
+                duration: 3000,
+                isClosable: true,
+            });
+        } finally {
+            setIsPublishing(false);
+        }
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} size="xl">
+            <ModalOverlay bg="rgba(0, 0, 0, 0.6)" backdropFilter="blur(10px)" />
+            <ModalContent bg="background" color="text">
+                <ModalHeader>Account lists</ModalHeader>
+                <ModalCloseButton />
+                <ModalBody>
+                    <VStack align="stretch" spacing={2} mb={6}>
+                        {lists.length === 0 && (
+                            <Text fontSize="sm" color="gray.500">
+                                No lists yet. Each list becomes a tab of the snaps feed.
+                            </Text>
+                        )}
+                        {lists.map((list) => (
+                            <HStack key={list.id} justify="space-between" p={2} border="tb1" borderRadius="base" bg="muted">
+                                <Box>
+                                    <Text fontWeight="bold">{list.name}</Text>
+                                    <Text fontSize="xs" color="gray.500">
+                                        {list.accounts.length} account{list.accounts.length !== 1 ? 's' : ''}
+                                    </Text>
+                                </Box>
+                                <HStack>
+                                    <IconButton aria-label="Edit list" icon={<FaEdit />} size="sm" variant="ghost" onClick={() => handleEdit(list)} />
+                                    <IconButton aria-label="Delete list" icon={<FaTrash />} size="sm" variant="ghost" onClick={() => handleRemove(list)} />
+                                </HStack>
+                            </HStack>
+                        ))}
+                    </VStack>
+
+                    <VStack align="stretch" spacing={3}>
+                        <Text fontWeight="bold">{editingId ? 'Edit list' : 'New list'}</Text>
+                        <Input
+                            placeholder="List name, e.g. Brazilian artists"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            maxLength={40}
+                        />
+                        <Textarea
+                            placeholder="Accounts, one per line or separated by commas"
+                            value={accountsInput}
+                            onChange={(e) => setAccountsInput(e.target.value)}
+                            rows={5}
+                        />
+                        {invalid.length > 0 && (
+                            <Text fontSize="sm" color="red.400">
+                                Not valid account names: {invalid.join(', ')}
+                            </Text>
+                        )}
+                        <HStack justify="flex-end">
+                            {editingId && (
+                                <Button variant="ghost" onClick={resetForm}>
+                                    Cancel
+                                </Button>
+                            )}
+                            <Button colorScheme="blue" onClick={handleSave} isDisabled={!name.trim() || !accounts.length}>
+                                {editingId ? 'Save list' : 'Create list'}
+                            </Button>
+                        </HStack>
+                    </VStack>
+                </ModalBody>
+                <ModalFooter justifyContent="space-between" flexWrap="wrap" gap={2}>
+                    <HStack>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+                        <Button size="sm" leftIcon={<FaFileImport />} variant="outline" onClick={() => fileInputRef.current?.click()}>
+                            Import
+                        </Button>
+                        <Button size="sm" leftIcon={<FaFileExport />} variant="outline" onClick={handleExport} isDisabled={!lists.length}>
+                            Export
+                        </Button>
+                    </HStack>
+                    <Button
+                        size="sm"
+                        leftIcon={<FaBroadcastTower />}
+                        onClick={handlePublish}
+                        isLoading={isPublishing}
+                        isDisabled={!canPublish || !lists.length}
+                        title={canPublish ? 'Publish your lists as a custom_json' : 'Login to publish your lists'}
+                    >
+                        Publish on chain
+                    </Button>
+                </ModalFooter>
+            </ModalContent>
+        </Modal>
+    );
+}
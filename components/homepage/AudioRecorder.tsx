@@ -21,20 +21,18 @@ import { FaMicrophone, FaStop, FaTrash, FaPlay, FaPause } from 'react-icons/fa';
 interface AudioRecorderProps {
   isOpen: boolean;
   onClose: () => void;
-  onAudioRecorded: (audioUrl: string) => void;
-  username: string;
+  onAudioRecorded: (audio: Blob, duration: number) => void; // Uploaded by the composer
 }
 
 const MAX_DURATION = 300; // 5 minutes in seconds
 
-export default function AudioRecorder({ isOpen, onClose, onAudioRecorded, username }: AudioRecorderProps) {
+export default function AudioRecorder({ isOpen, onClose, onAudioRecorded }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -144,37 +142,10 @@ export default function AudioRecorder({ isOpen, onClose, onAudioRecorded, userna
     }
   };
 
-  const handleUpload = async () => {
+  const handleUseAudio = () => {
     if (!audioBlob) return;
-
-    setIsUploading(true);
-    try {
-      const { uploadAudioTo3Speak } = await import('@/lib/hive/client-functions');
-      const result = await uploadAudioTo3Speak(audioBlob, duration, username);
-      
-      if (result.success && result.playUrl) {
-        onAudioRecorded(result.playUrl);
-        handleClose();
-        toast({
-          title: 'Audio Uploaded',
-          description: 'Your audio has been uploaded successfully!',
-          status: 'success',
-          duration: 3000,
-        });
-      } else {
-        throw new Error('Upload failed');
-      }
-    } catch (error) {
-      console.error('Error uploading audio:', error);
-      toast({
-        title: 'Upload Error',
-        description: 'Failed to upload audio. Please try again.',
-        status: 'error',
-        duration: 3000,
-      });
-    } finally {
-      setIsUploading(false);
-    }
+    onAudioRecorded(audioBlob, duration);
+    handleClose();
   };
 
   const handleClose = () => {
@@ -273,15 +244,13 @@ export default function AudioRecorder({ isOpen, onClose, onAudioRecorded, userna
         </ModalBody>
 
         <ModalFooter>
-          <Button variant="ghost" mr={3} onClick={handleClose} isDisabled={isUploading}>
+          <Button variant="ghost" mr={3} onClick={handleClose}>
             Cancel
           </Button>
           <Button
             colorScheme="blue"
-            onClick={handleUpload}
-            isDisabled={!audioBlob || isUploading}
-            isLoading={isUploading}
-            loadingText="Uploading..."
+            onClick={handleUseAudio}
+            isDisabled={!audioBlob}
           >
             Use Audio
           </Button>
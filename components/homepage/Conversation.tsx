@@ -1,19 +1,76 @@
-import { Box, Text, HStack, Button, Avatar, Divider, VStack, Spinner } from '@chakra-ui/react';
+import { Box, Text, HStack, Button, Avatar, Divider, Spinner } from '@chakra-ui/react';
 import { Comment } from '@hiveio/dhive';
-import { useComments } from '@/hooks/useComments';
+import { useEffect, useMemo, useState } from 'react';
+import { useThread } from '@/hooks/useThread';
 import { ArrowBackIcon } from "@chakra-ui/icons";
 import Snap from './Snap';
+import ThreadReplies, { ThreadContext } from './ThreadReplies';
+import {
+    DEFAULT_THREAD_DEPTH,
+    ReplyRef,
+    THREAD_SORT_LABELS,
+    ThreadSort,
+    getReplyElementId,
+    getReplyKey,
+} from '@/lib/utils/threadUtils';
 
 interface ConversationProps {
     comment: Comment;
     setConversation: (conversation: Comment | undefined) => void;
     onOpen: () => void;
     setReply: (reply: Comment) => void;
+    maxDepth?: number; // Reply levels loaded at once, deeper branches load on demand
+    focusReply?: ReplyRef; // Reply to expand and scroll to, from a permalink
 }
 
-const Conversation = ({ comment, setConversation, onOpen, setReply }: ConversationProps) => {
-    const { comments, isLoading, error } = useComments(comment.author, comment.permlink, true);
-    const replies = comments
+const threadSorts = Object.keys(THREAD_SORT_LABELS) as ThreadSort[];
+
+const Conversation = ({ comment, setConversation, onOpen, setReply, maxDepth = DEFAULT_THREAD_DEPTH, focusReply }: ConversationProps) => {
+    const { replies, isLoading, error, loadingBranches, loadBranch, revealReply } = useThread(comment.author, comment.permlink, maxDepth);
+    const [sort, setSort] = useState<ThreadSort>('oldest');
+    const [focusPath, setFocusPath] = useState<Set<string>>(new Set());
+    const focusAuthor = focusReply?.author;
+    const focusPermlink = focusReply?.permlink;
+
+    // Open the branches leading to the permalink target once the thread is loaded
+    useEffect(() => {
+        if (isLoading || !focusAuthor || !focusPermlink) return;
+        let cancelled = false;
+
+        revealReply({ author: focusAuthor, permlink: focusPermlink })
+            .then((path) => {
+                if (!cancelled) setFocusPath(new Set(path));
+            })
+            .catch((error) => console.error('Failed to open reply permalink:', error));
+
+        return () => {
+            cancelled = true;
+        };
+        // revealReply changes with the thread, only run once it has loaded
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isLoading, focusAuthor, focusPermlink]);
+
+    // Scroll once the expanded branches have rendered
+    useEffect(() => {
+        if (!focusPath.size || !focusAuthor || !focusPermlink) return;
+        const frame = requestAnimationFrame(() => {
+            document
+                .getElementById(getReplyElementId({ author: focusAuthor, permlink: focusPermlink }))
+                ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [focusPath, focusAuthor, focusPermlink]);
+
+    const thread: ThreadContext = useMemo(() => ({
+        root: { author: comment.author, permlink: comment.permlink },
+        sort,
+        focusPath,
+        focusKey: focusAuthor && focusPermlink ? getReplyKey({ author: focusAuthor, permlink: focusPermlink }) : undefined,
+        loadingBranches,
+        onLoadBranch: loadBranch,
+        onOpen,
+        setReply,
+    }), [comment.author, comment.permlink, sort, focusPath, focusAuthor, focusPermlink, loadingBranches, loadBranch, onOpen, setReply]);
 
     function handleReplyModal() {
         setReply(comment);
@@ -39,7 +96,7 @@ const Conversation = ({ comment, setConversation, onOpen, setReply }: Conversati
                 <Button onClick={onBackClick} variant="ghost" leftIcon={<ArrowBackIcon />}></Button>
                 <Text fontSize="lg" fontWeight="bold">Conversation</Text>
             </HStack>
-            <Snap comment={comment} onOpen={onOpen} setReply={setReply} />
+            <Snap comment={comment} onOpen={onOpen} setReply={setReply} showReplies={false} />
             <Divider my={4} />
             <HStack justify="space-between" mt={3} onClick={handleReplyModal}>
                 <HStack>
@@ -51,11 +108,35 @@ const Conversation = ({ comment, setConversation, onOpen, setReply }: Conversati
                 </Button>
             </HStack>
             <Divider my={4} />
-            <VStack spacing={2} align="stretch">
-                {replies.map((reply: any) => (
-                    <Snap key={reply.permlink} comment={reply} onOpen={onOpen} setReply={setReply} />
-                ))}
-            </VStack>
+            <HStack spacing={2} justify="flex-end" flexWrap="wrap">
+                {threadSorts.map((option) => {
+                    const isActive = sort === option;
+
+                    return (
+                        <Button
+                            key={option}
+                            onClick={() => setSort(option)}
+                            size="xs"
+                            variant={isActive ? 'solid' : 'outline'}
+                            bg={isActive ? 'primary' : 'transparent'}
+                            color={isActive ? 'background' : 'text'}
+                            borderColor={isActive ? 'primary' : 'border'}
+                            _hover={{
+                                borderColor: 'primary',
+                                color: isActive ? 'background' : 'primary',
+                            }}
+                        >
+                            {THREAD_SORT_LABELS[option]}
+                        </Button>
+                    );
+                })}
+            </HStack>
+            {error && (
+                <Text fontSize="sm" color="red.400" mt={2}>
+                    {error}
+                </Text>
+            )}
+            <ThreadReplies replies={replies} thread={thread} />
         </Box>
     );
 }
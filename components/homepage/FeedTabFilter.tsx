@@ -1,28 +1,54 @@
 'use client';
 import React from 'react';
-import { Box, Button, HStack } from '@chakra-ui/react';
+import { Box, Button, HStack, IconButton } from '@chakra-ui/react';
+import { FaListUl } from 'react-icons/fa';
 import { SnapFilterType } from '@/hooks/useSnaps';
+import { RankWindow } from '@/lib/utils/snapRanking';
+import { AccountList } from '@/lib/utils/accountLists';
 
 interface FeedTabFilterProps {
   activeFilter: SnapFilterType;
-  onFilterChange: (filter: SnapFilterType) => void;
+  onFilterChange: (filter: SnapFilterType, listId?: string) => void;
   communityName?: string;
   isLoggedIn?: boolean;
+  rankWindow?: RankWindow;
+  onRankWindowChange?: (window: RankWindow) => void;
+  accountLists?: AccountList[];
+  activeListId?: string;
+  onManageLists?: () => void;
+  hasFollowedTags?: boolean; // Shows the feed of the tags followed from hashtag pages
 }
 
+const rankWindows: { label: string; value: RankWindow }[] = [
+  { label: '24h', value: '24h' },
+  { label: '7 days', value: '7d' },
+];
+
 export default function FeedTabFilter({ 
   activeFilter, 
   onFilterChange, 
   communityName = 'HiveBR',
-  isLoggedIn = false 
+  isLoggedIn = false,
+  rankWindow = '24h',
+  onRankWindowChange,
+  accountLists = [],
+  activeListId,
+  onManageLists,
+  hasFollowedTags = false
 }: FeedTabFilterProps) {
   
-  const tabs: { label: string; value: SnapFilterType; requiresAuth?: boolean }[] = [
+  const tabs: { label: string; value: SnapFilterType; requiresAuth?: boolean; listId?: string }[] = [
     { label: communityName, value: 'community' },
     { label: 'All', value: 'all' },
     { label: 'Following', value: 'following', requiresAuth: true },
+    { label: 'Trending', value: 'trending' },
+    { label: 'Hot', value: 'hot' },
+    ...(hasFollowedTags ? [{ label: 'Tags', value: 'tags' as SnapFilterType }] : []),
+    ...accountLists.map((list) => ({ label: list.name, value: 'list' as SnapFilterType, listId: list.id })),
   ];
 
+  const isRanked = activeFilter === 'trending' || activeFilter === 'hot';
+
   return (
     <Box 
       bg="background" 
@@ -33,17 +59,29 @@ export default function FeedTabFilter({
       py={3}
       w="full"
     >
-      <HStack spacing={2} justify="space-between" w="full" px={2}>
+      <HStack
+        spacing={2}
+        justify="space-between"
+        w="full"
+        px={2}
+        overflowX="auto"
+        sx={{
+          '&::-webkit-scrollbar': {
+            display: 'none',
+          },
+          scrollbarWidth: 'none',
+        }}
+      >
         {tabs.map((tab) => {
           const isDisabled = tab.requiresAuth && !isLoggedIn;
-          const isActive = activeFilter === tab.value;
+          const isActive = activeFilter === tab.value && (tab.value !== 'list' || tab.listId === activeListId);
           
           return (
             <Button
-              key={tab.value}
-              onClick={() => !isDisabled && onFilterChange(tab.value)}
+              key={tab.listId || tab.value}
+              onClick={() => !isDisabled && onFilterChange(tab.value, tab.listId)}
               size="md"
-              flex={1}
+              flex="1 0 auto"
               bg={isActive ? 'primary' : 'muted'}
               color={isActive ? 'background' : 'text'}
               borderWidth="2px"
@@ -76,7 +114,50 @@ export default function FeedTabFilter({
             </Button>
           );
         })}
+        {onManageLists && (
+          <IconButton
+            aria-label="Manage account lists"
+            title="Manage account lists"
+            icon={<FaListUl />}
+            onClick={onManageLists}
+            size="md"
+            flexShrink={0}
+            bg="muted"
+            color="text"
+            borderWidth="2px"
+            borderColor="border"
+            _hover={{
+              borderColor: 'primary',
+              color: 'primary',
+            }}
+          />
+        )}
       </HStack>
+      {isRanked && onRankWindowChange && (
+        <HStack spacing={2} justify="flex-end" w="full" px={2} pt={2}>
+          {rankWindows.map((option) => {
+            const isActive = rankWindow === option.value;
+
+            return (
+              <Button
+                key={option.value}
+                onClick={() => onRankWindowChange(option.value)}
+                size="xs"
+                variant={isActive ? 'solid' : 'outline'}
+                bg={isActive ? 'primary' : 'transparent'}
+                color={isActive ? 'background' : 'text'}
+                borderColor={isActive ? 'primary' : 'border'}
+                _hover={{
+                  borderColor: 'primary',
+                  color: isActive ? 'background' : 'primary',
+                }}
+              >
+                {option.label}
+              </Button>
+            );
+          })}
+        </HStack>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,40 @@
+'use client';
+import React, { useState } from 'react';
+import { Box, Button, Collapse, HStack, Text } from '@chakra-ui/react';
+import { FaEyeSlash } from 'react-icons/fa';
+import { MuteReason } from '@/lib/hive/moderation';
+
+interface HiddenSnapProps {
+    author: string;
+    reason: MuteReason;
+    children: React.ReactNode;
+}
+
+const reasonLabels: Record<MuteReason, string> = {
+    community: 'muted by the community',
+    ignored: 'muted by you',
+    blacklist: 'on a blacklist you follow',
+};
+
+export default function HiddenSnap({ author, reason, children }: HiddenSnapProps) {
+    const [isRevealed, setIsRevealed] = useState(false);
+
+    return (
+        <Box bg="muted" border="tb1" borderRadius="base" mt={1} mb={1}>
+            <HStack justify="space-between" p={3} color="gray.500">
+                <HStack spacing={2}>
+                    <FaEyeSlash />
+                    <Text fontSize="sm" title={`@${author} is ${reasonLabels[reason]}`}>
+                        Hidden snap from muted user
+                    </Text>
+                </HStack>
+                <Button size="xs" variant="ghost" onClick={() => setIsRevealed(!isRevealed)}>
+                    {isRevealed ? 'Hide' : 'Show'}
+                </Button>
+            </HStack>
+            <Collapse in={isRevealed} animateOpacity unmountOnExit>
+                {children}
+            </Collapse>
+        </Box>
+    );
+}
@@ -1,15 +1,24 @@
-import { Box, Text, HStack, Button, Avatar, Link, VStack, Flex, Slider, SliderTrack, SliderFilledTrack, SliderThumb, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, Textarea, useToast } from '@chakra-ui/react';
+import { Box, Text, HStack, Button, Avatar, Badge, Link, VStack, Flex, Slider, SliderTrack, SliderFilledTrack, SliderThumb, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, Textarea, useToast } from '@chakra-ui/react';
 import { Comment } from '@hiveio/dhive';
 import { ExtendedComment } from '@/hooks/useComments';
-import { FaRegComment, FaRegHeart, FaShare, FaHeart, FaEdit, FaRetweet } from "react-icons/fa";
+import { FaRegComment, FaRegHeart, FaShare, FaHeart, FaEdit, FaRetweet, FaTrash } from "react-icons/fa";
 import { useAioha } from '@aioha/react-ui';
 import { useState, useMemo, memo } from 'react';
 import { getPostDate } from '@/lib/utils/GetPostDate';
 import { separateContent, extractHivePostUrls } from '@/lib/utils/snapUtils';
 import MediaRenderer from '@/components/shared/MediaRenderer';
 import HivePostPreview from '@/components/shared/HivePostPreview';
+import PollView from '@/components/shared/PollView';
+import { parsePollMetadata } from '@/lib/utils/polls';
 import markdownRenderer from '@/lib/utils/MarkdownRenderer';
 import { useCurrencyDisplay } from '@/hooks/useCurrencyDisplay';
+import { useQuoteCount } from '@/hooks/useQuoteCount';
+import { getSnapQuote, stripQuoteFooter } from '@/lib/utils/quotes';
+import SnapQuoteModal from './SnapQuoteModal';
+import EditedMarker from '@/components/shared/EditedMarker';
+import DeletePostDialog from '@/components/shared/DeletePostDialog';
+import { getEditBody } from '@/lib/utils/textDiff';
+import { BLANKED_BODY, DeleteMode, buildBlankedMetadata, canDeleteFromChain } from '@/lib/utils/postEditing';
 
 interface SnapProps {
     comment: ExtendedComment;
@@ -17,9 +26,12 @@ interface SnapProps {
     setReply: (comment: Comment) => void;
     setConversation?: (conversation: Comment) => void;
     level?: number; // Added level for indentation
+    showReplies?: boolean; // The threaded conversation renders replies itself
+    isOriginalAuthor?: boolean; // Reply by the author of the conversation
+    isHighlighted?: boolean; // Target of a reply permalink
 }
 
-const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: SnapProps) => {
+const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0, showReplies = true, isOriginalAuthor = false, isHighlighted = false }: SnapProps) => {
     const commentDate = getPostDate(comment.created);
     const { aioha, user } = useAioha();
     const [voted, setVoted] = useState(comment.active_votes?.some(item => item.voter === user))
@@ -28,7 +40,12 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
     const [showSlider, setShowSlider] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editedBody, setEditedBody] = useState(comment.body);
+    const [body, setBody] = useState(comment.body); // Edits show right away, before the chain confirms them
+    const [isDeleted, setIsDeleted] = useState(false);
+    const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
+    const [isQuoteModalOpen, setIsQuoteModalOpen] = useState(false);
+    const { count: quoteCount, addQuote } = useQuoteCount(comment.author, comment.permlink, comment.created);
     const payoutDisplay = useCurrencyDisplay(comment);
     const toast = useToast();
     
@@ -42,24 +59,30 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
 
     // Extract Hive post URLs for preview cards
     const hivePostUrls = useMemo(
-        () => extractHivePostUrls(comment.body),
-        [comment.body]
+        () => extractHivePostUrls(body),
+        [body]
     );
 
     // Separate media from text using SkateHive's pattern
     const { text, media } = useMemo(
-        () => separateContent(comment.body),
-        [comment.body]
+        () => separateContent(body),
+        [body]
+    );
+
+    // Snap quoted by this one, linked at the end of its text
+    const quote = useMemo(
+        () => getSnapQuote(comment.json_metadata),
+        [comment.json_metadata]
     );
 
     // Remove Hive post URLs from text since we'll render them as preview cards
     const textWithoutHiveUrls = useMemo(() => {
-        let cleanText = text;
+        let cleanText = quote ? stripQuoteFooter(text, quote) : text;
         hivePostUrls.forEach(({ url }) => {
             cleanText = cleanText.replace(url, '');
         });
         return cleanText.trim();
-    }, [text, hivePostUrls]);
+    }, [text, hivePostUrls, quote]);
 
     // Render text as HTML using markdown renderer
     const renderedText = useMemo(
@@ -67,6 +90,11 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
         [textWithoutHiveUrls]
     );
 
+    const poll = useMemo(
+        () => parsePollMetadata(comment.json_metadata),
+        [comment.json_metadata]
+    );
+
     const replies = comment.replies;
 
     function handleHeartClick() {
@@ -119,33 +147,53 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
         }
     }
 
-    function handleReSnap() {
+    function handleShare() {
         // Copy snap URL to clipboard for easy sharing
         const snapUrl = `${window.location.origin}/@${comment.author}/${comment.permlink}`;
         navigator.clipboard.writeText(snapUrl);
         toast({
             title: 'Link Copied!',
-            description: 'Snap link copied to clipboard. Paste it in a new snap to re-snap!',
+            description: 'Snap link copied to clipboard. Share it anywhere!',
+            status: 'success',
+            duration: 3000,
+        });
+    }
+
+    function handleNewQuote() {
+        addQuote();
+        toast({
+            title: 'Quote Posted',
+            description: `Your quote of @${comment.author}'s snap is live!`,
             status: 'success',
             duration: 3000,
         });
     }
 
+    // Edits are applied to the shared comment too, so the feed keeps them
+    function applyLocalEdit(newBody: string, lastUpdate: string) {
+        comment.body = newBody;
+        comment.last_update = lastUpdate;
+        setBody(newBody);
+    }
+
     async function handleEditPost() {
         if (!user || !editedBody.trim()) return;
-        
+
+        const previous = { body: comment.body, lastUpdate: comment.last_update };
+        applyLocalEdit(editedBody, new Date().toISOString().split('.')[0]);
+        setIsEditModalOpen(false);
         setIsEditing(true);
         try {
             // Parse existing metadata
             const metadata = comment.json_metadata ? JSON.parse(comment.json_metadata) : {};
             
-            // Edit is same as comment but with same permlink
+            // Edit is same as comment but with same permlink, sent as a patch when that is shorter
             const response = await aioha.comment(
                 comment.parent_author,
                 comment.parent_permlink,
                 comment.permlink,
                 comment.title || '',
-                editedBody,
+                getEditBody(previous.body, editedBody),
                 metadata
             );
             
@@ -156,14 +204,13 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                     status: 'success',
                     duration: 3000,
                 });
-                setIsEditModalOpen(false);
-                // Update comment body locally
-                comment.body = editedBody;
             } else {
                 throw new Error('Edit failed');
             }
         } catch (error) {
             console.error('Error editing post:', error);
+            // Rollback, the edited text stays in the modal to try again
+            applyLocalEdit(previous.body, previous.lastUpdate);
             toast({
                 title: 'Edit Failed',
                 description: 'Failed to update post. Please try again.',
@@ -174,6 +221,58 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
             setIsEditing(false);
         }
     }
+
+    async function handleDelete(mode: DeleteMode) {
+        setIsDeleteDialogOpen(false);
+        const previous = { body: comment.body, lastUpdate: comment.last_update };
+
+        // Optimistic update
+        if (mode === 'delete') {
+            setIsDeleted(true);
+        } else {
+            applyLocalEdit(BLANKED_BODY, new Date().toISOString().split('.')[0]);
+        }
+
+        try {
+            const response = mode === 'delete'
+                ? await aioha.deleteComment(comment.permlink)
+                : await aioha.comment(
+                    comment.parent_author,
+                    comment.parent_permlink,
+                    comment.permlink,
+                    comment.title || '',
+                    BLANKED_BODY,
+                    buildBlankedMetadata(comment.json_metadata)
+                );
+
+            if (!response.success) {
+                throw new Error(response.error || 'Broadcast failed');
+            }
+            toast({
+                title: mode === 'delete' ? 'Snap Deleted' : 'Snap Removed',
+                description: mode === 'delete' ? 'Your snap was deleted.' : 'The content of your snap was removed.',
+                status: 'success',
+                duration: 3000,
+            });
+        } catch (error) {
+            console.error('Error deleting post:', error);
+            // Rollback on error
+            if (mode === 'delete') {
+                setIsDeleted(false);
+            } else {
+                applyLocalEdit(previous.body, previous.lastUpdate);
+            }
+            toast({
+                title: 'Delete Failed',
+                description: 'Failed to delete the snap. Please try again.',
+                status: 'error',
+                duration: 3000,
+            });
+        }
+    }
+
+    if (isDeleted) return null;
+
     return (
         <Box pl={level > 0 ? 1 : 0} ml={level > 0 ? 2 : 0}>
             <Box
@@ -184,6 +283,7 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                 border="tb1"
                 borderRadius="base"  // This will apply the borderRadius from your theme
                 width="100%"
+                {...(isHighlighted ? { borderColor: "primary", borderWidth: "2px" } : {})}
             >
                 <HStack mb={2}>
                     <Avatar 
@@ -194,10 +294,18 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                     <Box ml={3}>
                         <Text fontWeight="medium" fontSize="sm">
                             <Link href={`/@${comment.author}`}>@{comment.author}</Link>
+                            {isOriginalAuthor && (
+                                <Badge ml={2} bg="primary" color="background" fontSize="2xs">
+                                    OP
+                                </Badge>
+                            )}
                         </Text>
-                        <Text fontWeight="medium" fontSize="sm" color="primary">
-                            {commentDate}
-                        </Text>
+                        <HStack spacing={2}>
+                            <Text fontWeight="medium" fontSize="sm" color="primary">
+                                {commentDate}
+                            </Text>
+                            <EditedMarker post={comment} />
+                        </HStack>
                     </Box>
                 </HStack>
                 
@@ -212,7 +320,8 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                         cursor={setConversation ? "pointer" : "default"}
                         sx={{
                             "& p": { marginBottom: 2 },
-                            "& a": { 
+                            "& figcaption": { fontSize: "sm", color: "gray.400", mt: 1 },
+                            "& a": {
                                 color: "primary", 
                                 textDecoration: "underline",
                                 cursor: "pointer",
@@ -224,6 +333,8 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                     />
                 )}
 
+                {poll && <PollView author={comment.author} permlink={comment.permlink} poll={poll} />}
+
                 {/* Render Hive post preview cards */}
                 {hivePostUrls.length > 0 && (
                     <VStack spacing={2} align="stretch" mt={2}>
@@ -273,9 +384,12 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                                 {comment.children}
                             </Text>
                         )}
-                        <HStack spacing={1} cursor="pointer" onClick={handleReSnap}>
+                        <HStack spacing={1} cursor="pointer" onClick={() => setIsQuoteModalOpen(true)} title="Quote this snap">
                             <FaRetweet />
-                            <Text fontSize="sm">Re-Snap/Share</Text>
+                            <Text fontSize="sm">Quote{quoteCount > 0 ? ` ${quoteCount}` : ''}</Text>
+                        </HStack>
+                        <HStack spacing={1} cursor="pointer" onClick={handleShare} title="Copy link">
+                            <FaShare />
                         </HStack>
                         {canEdit && (
                             <HStack spacing={1} cursor="pointer" onClick={() => setIsEditModalOpen(true)}>
@@ -283,6 +397,11 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
                                 <Text fontSize="sm">Edit</Text>
                             </HStack>
                         )}
+                        {user === comment.author && body !== BLANKED_BODY && (
+                            <HStack spacing={1} cursor="pointer" onClick={() => setIsDeleteDialogOpen(true)} title="Delete this snap">
+                                <FaTrash />
+                            </HStack>
+                        )}
                     </HStack>
                     <Text fontWeight="bold" fontSize="sm">
                         {payoutDisplay}
@@ -291,6 +410,23 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
             )}
             </Box>
             
+            {isQuoteModalOpen && (
+                <SnapQuoteModal
+                    isOpen={isQuoteModalOpen}
+                    onClose={() => setIsQuoteModalOpen(false)}
+                    comment={comment}
+                    onNewQuote={handleNewQuote}
+                />
+            )}
+
+            <DeletePostDialog
+                isOpen={isDeleteDialogOpen}
+                onClose={() => setIsDeleteDialogOpen(false)}
+                onConfirm={handleDelete}
+                mode={canDeleteFromChain(comment, voteCount) ? 'delete' : 'blank'}
+                kind="snap"
+            />
+
             {/* Edit Modal */}
             <Modal isOpen={isEditModalOpen} onClose={() => setIsEditModalOpen(false)} size="xl">
                 <ModalOverlay />
@@ -323,7 +459,7 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
             </Modal>
             
             {/* Render replies recursively */}
-            {replies && replies.length > 0 && (
+            {showReplies && replies && replies.length > 0 && (
                 <VStack spacing={2} align="stretch" mt={2}>
                     {replies.map((reply: Comment) => (
                         <Snap
@@ -344,7 +480,10 @@ const Snap = memo(({ comment, onOpen, setReply, setConversation, level = 0 }: Sn
     return (
         prevProps.comment.permlink === nextProps.comment.permlink &&
         prevProps.comment.active_votes?.length === nextProps.comment.active_votes?.length &&
-        prevProps.level === nextProps.level
+        prevProps.level === nextProps.level &&
+        prevProps.showReplies === nextProps.showReplies &&
+        prevProps.isOriginalAuthor === nextProps.isOriginalAuthor &&
+        prevProps.isHighlighted === nextProps.isHighlighted
     );
 });
 
@@ -1,5 +1,5 @@
-import React, { useState, useRef } from 'react';
-import { Box, Textarea, HStack, Button, Image, IconButton, Wrap, Spinner, Progress, Text, VStack } from '@chakra-ui/react';
+import React, { useState, useRef, useMemo } from 'react';
+import { Box, Textarea, HStack, Button, Image, IconButton, Wrap, Spinner, Progress, Text, VStack, Switch, Select } from '@chakra-ui/react';
 import { useAioha } from '@aioha/react-ui';
 import { KeyTypes } from '@aioha/aioha';
 import GiphySelector from './GiphySelector';
@@ -8,11 +8,41 @@ import VideoUploader from './VideoUploader';
 import AudioRecorder from './AudioRecorder';
 import { IGif } from '@giphy/js-types';
 import { CloseIcon } from '@chakra-ui/icons';
-import { FaImage, FaVideo, FaMicrophone } from 'react-icons/fa';
+import { FaImage, FaVideo, FaMicrophone, FaPoll } from 'react-icons/fa';
 import { MdGif } from 'react-icons/md';
 import { Comment } from '@hiveio/dhive';
-import { getFileSignature, getLastSnapsContainer, uploadImage } from '@/lib/hive/client-functions';
+import { getFileSignature, getLastSnapsContainer, uploadAudioTo3Speak, uploadImage } from '@/lib/hive/client-functions';
 import * as tus from 'tus-js-client';
+import DraftsMenu from '@/components/compose/DraftsMenu';
+import { useDrafts } from '@/hooks/useDrafts';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { Draft, DraftContent, DraftMedia, getDraftMedia, getDraftParentKey } from '@/lib/utils/drafts';
+import PollEditor from '@/components/compose/PollEditor';
+import { PollDraft, buildPollMetadata, createEmptyPollDraft, validatePollDraft } from '@/lib/utils/polls';
+import AutocompletePopup from '@/components/compose/AutocompletePopup';
+import { useMentionAutocomplete } from '@/hooks/useMentionAutocomplete';
+import { useHashtagAutocomplete } from '@/hooks/useHashtagAutocomplete';
+import { extractHashtags, getTagWarnings, prepareTags } from '@/lib/utils/tagUtils';
+import { extractMentions } from '@/lib/utils/mentions';
+import { BeneficiaryContentType, applyBeneficiaryPolicy, buildCommentOptionsOperation, getDefaultBeneficiaries } from '@/lib/utils/beneficiaries';
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import ImageDetailsModal from '@/components/compose/ImageDetailsModal';
+import { EMPTY_IMAGE_DETAILS, ImageDetails, buildImageMarkdown, hasDescriptiveAlt } from '@/lib/utils/imageMarkdown';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import HivePostPreview from '@/components/shared/HivePostPreview';
+import { SnapQuote, buildQuoteFooter, buildQuoteMetadata } from '@/lib/utils/quotes';
+import { UploadContext, UploadTask } from '@/lib/utils/uploadQueue';
+import { SNAP_CHAR_LIMIT, SnapThread, formatThreadPart, getSnapLength, getThreadPartParent, getThreadPartPermlink, splitIntoThread } from '@/lib/utils/snapThreads';
+
+// Let the previous part reach a block before its reply is broadcast
+const THREAD_PART_DELAY = 3000;
+
+// Image waiting to be uploaded, with what the author wrote about it
+interface SnapImage extends ImageDetails {
+    file: File;
+    part: number; // Thread part the image goes to
+    uploadId: string; // Task in the upload queue
+}
 
 interface SnapComposerProps {
     pa: string;
@@ -20,35 +50,108 @@ interface SnapComposerProps {
     onNewComment: (newComment: Partial<Comment>) => void;
     post?: boolean;
     onClose: () => void;
+    quote?: SnapQuote; // Snap being quoted, shown under the text and linked at the end of it
 }
 
-export default function SnapComposer ({ pa, pp, onNewComment, post = false, onClose }: SnapComposerProps) {
+export default function SnapComposer ({ pa, pp, onNewComment, post = false, onClose, quote }: SnapComposerProps) {
     const { user, aioha } = useAioha();
 
     const postBodyRef = useRef<HTMLTextAreaElement>(null);
-    const [images, setImages] = useState<File[]>([]);
+    const [images, setImages] = useState<SnapImage[]>([]);
+    const [describeQueue, setDescribeQueue] = useState<number[]>([]); // Images waiting for their alt text and caption
     const [selectedGif, setSelectedGif] = useState<IGif | null>(null);
     const [selectedVideo, setSelectedVideo] = useState<File | null>(null);
-    const [videoUploadProgress, setVideoUploadProgress] = useState<number>(0);
+    const [videoUploadId, setVideoUploadId] = useState<string | null>(null);
     const [videoEmbedUrl, setVideoEmbedUrl] = useState<string | null>(null);
     const [thumbnailProcessing, setThumbnailProcessing] = useState<boolean>(false);
     const [audioEmbedUrl, setAudioEmbedUrl] = useState<string | null>(null);
+    const [audioUploadId, setAudioUploadId] = useState<string | null>(null);
     const [isAudioRecorderOpen, setAudioRecorderOpen] = useState(false);
     const [isGiphyModalOpen, setGiphyModalOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [uploadProgress, setUploadProgress] = useState<number[]>([]);
+    const [body, setBody] = useState('');
+    const [poll, setPoll] = useState<PollDraft | null>(null);
+    const [postAsThread, setPostAsThread] = useState(false);
+    const [thread, setThread] = useState<SnapThread | null>(null); // Set while a thread is being published
 
     const buttonText = post ? "Reply" : "Post";
     const hasMedia = images.length > 0 || selectedGif !== null;
+    const describedImage = describeQueue.length > 0 ? images[describeQueue[0]] : undefined;
     const hasVideo = selectedVideo !== null;
-    const hasAudio = audioEmbedUrl !== null;
-    const isDisabled = !user || isLoading;
-
-    // Function to extract hashtags from text
-    function extractHashtags(text: string): string[] {
-        const hashtagRegex = /#(\w+)/g;
-        const matches = text.match(hashtagRegex) || [];
-        return matches.map(hashtag => hashtag.slice(1)); // Remove the '#' symbol
+    const hasAudio = audioEmbedUrl !== null || audioUploadId !== null;
+
+    // Nothing is posted while an attachment is uploading or has failed
+    const uploads = useUploadQueue();
+    const videoUpload = uploads.getTask(videoUploadId);
+    const audioUpload = uploads.getTask(audioUploadId);
+    const isWaitingForUploads = uploads.isUploading || uploads.failedCount > 0;
+    const isDisabled = !user || isLoading || thread !== null;
+
+    const snapLength = getSnapLength(body);
+    const isOverLimit = snapLength > SNAP_CHAR_LIMIT;
+    const isThread = isOverLimit && postAsThread;
+    const threadParts = useMemo(() => (isOverLimit ? splitIntoThread(body) : [body]), [body, isOverLimit]);
+
+    // Autosave the snap with its pending media, replies and quotes are kept apart per parent and quoted snap
+    const draftParentKey = quote
+        ? `quote:${getDraftParentKey(quote.author, quote.permlink)}`
+        : pp === "snaps" ? null : getDraftParentKey(pa, pp);
+    const draftContent: DraftContent = useMemo(() => {
+        const media: DraftMedia[] = images.map(({ file, alt, caption }) => ({ type: 'image', file, name: file.name, alt, caption }));
+        if (selectedGif) media.push({ type: 'gif', gif: selectedGif });
+        if (selectedVideo && videoEmbedUrl) media.push({ type: 'video', url: videoEmbedUrl, name: selectedVideo.name });
+        if (audioEmbedUrl) media.push({ type: 'audio', url: audioEmbedUrl });
+        return { title: '', body, hashtags: extractHashtags(body), beneficiaries: [], media, poll, thread };
+    }, [body, images, selectedGif, selectedVideo, videoEmbedUrl, audioEmbedUrl, poll, thread]);
+    const { drafts, removeDraft } = useDrafts('snap', draftParentKey);
+    const { savedAt, resumeDraft, discardDraft } = useDraftAutosave(draftContent, 'snap', draftParentKey);
+
+    // The textarea is uncontrolled, text inserted by the mention popup goes to both
+    function updateBody(value: string) {
+        if (postBodyRef.current) postBodyRef.current.value = value;
+        setBody(value);
+    }
+    const mentions = useMentionAutocomplete(postBodyRef, body, updateBody);
+    const hashtagSuggestions = useHashtagAutocomplete(postBodyRef, body, updateBody, draftContent.hashtags);
+
+    // Top-level snaps always carry the community tag and `snaps`
+    const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || '';
+    const autoTags = pp === "snaps" ? ['snaps'] : [];
+    const tagWarnings = useMemo(
+        () => getTagWarnings(draftContent.hashtags, autoTags.length + (communityTag ? 1 : 0)),
+        [draftContent.hashtags, autoTags.length, communityTag]
+    );
+
+    function updateSuggestions() {
+        mentions.updateMention();
+        hashtagSuggestions.updateHashtag();
+    }
+
+    function closeSuggestions() {
+        mentions.close();
+        hashtagSuggestions.close();
+    }
+
+    function restoreDraft(draft: Draft) {
+        resumeDraft(draft);
+        uploads.clear();
+        if (postBodyRef.current) postBodyRef.current.value = draft.body;
+        setBody(draft.body);
+        setImages(getDraftMedia(draft, 'image').map((image) => {
+            const file = new File([image.file], image.name, { type: image.file.type });
+            return { file, alt: image.alt || '', caption: image.caption || '', part: 0, uploadId: queueImageUpload(file) };
+        }));
+        setDescribeQueue([]);
+        setSelectedGif(getDraftMedia(draft, 'gif')[0]?.gif || null);
+        const [video] = getDraftMedia(draft, 'video');
+        // The video is already on 3Speak, only its name is kept for display
+        setSelectedVideo(video ? new File([], video.name) : null);
+        setVideoEmbedUrl(video ? video.url : null);
+        setVideoUploadId(null);
+        setAudioEmbedUrl(getDraftMedia(draft, 'audio')[0]?.url || null);
+        setAudioUploadId(null);
+        setPoll(draft.poll || null);
+        setThread(draft.thread || null);
     }
 
     // Extract thumbnail from video file
@@ -201,7 +304,7 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
     }
 
     // Upload video to 3Speak using TUS protocol
-    async function uploadVideoToThreeSpeak(file: File): Promise<string> {
+    async function uploadVideoToThreeSpeak(file: File, { signal, onProgress }: UploadContext): Promise<string> {
         return new Promise((resolve, reject) => {
             const apiKey = process.env.NEXT_PUBLIC_3SPEAK_API_KEY || '';
             if (!apiKey || apiKey === '') {
@@ -225,13 +328,10 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                 },
                 onError: (error) => {
                     console.error('Video upload failed:', error);
-                    setSelectedVideo(null);
-                    setVideoUploadProgress(0);
                     reject(error);
                 },
                 onProgress: (bytesUploaded, bytesTotal) => {
-                    const percentage = (bytesUploaded / bytesTotal) * 100;
-                    setVideoUploadProgress(Math.round(percentage));
+                    onProgress((bytesUploaded / bytesTotal) * 100);
                 },
                 onAfterResponse: (req, res) => {
                     const url = res.getHeader('X-Embed-URL');
@@ -248,63 +348,201 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                 }
             });
 
+            signal.addEventListener('abort', () => {
+                upload.abort(true);
+                reject(new Error('Upload cancelled'));
+            }, { once: true });
+
             upload.start();
         });
     }
 
-    // Handle video selection and start upload immediately
-    async function handleVideoSelection(file: File) {
+    // Handle video selection and start upload immediately, the thumbnail is made meanwhile
+    function handleVideoSelection(file: File) {
         setSelectedVideo(file);
-        setVideoUploadProgress(1); // Show it's starting
         setThumbnailProcessing(true);
         
         console.log('🎬 Starting video upload and thumbnail processing for:', file.name);
-        
-        try {
-            // Run video upload and thumbnail processing in parallel
-            console.log('📤 Starting parallel operations...');
-            const [videoResult, thumbnailResult] = await Promise.allSettled([
-                uploadVideoToThreeSpeak(file),
-                extractAndUploadThumbnail(file)
-            ]);
-
-            console.log('📋 Results:', { 
-                video: videoResult.status, 
-                thumbnail: thumbnailResult.status 
-            });
+        const thumbnail = extractAndUploadThumbnail(file);
+        thumbnail.catch(() => undefined).finally(() => setThumbnailProcessing(false));
+
+        const id = uploads.add({
+            kind: 'video',
+            name: file.name,
+            run: (context) => uploadVideoToThreeSpeak(file, context),
+            onSuccess: async (embedUrl) => {
+                setVideoEmbedUrl(embedUrl);
+                console.log('✅ Video uploaded successfully:', embedUrl);
 
-            if (videoResult.status === 'fulfilled') {
-                setVideoEmbedUrl(videoResult.value);
-                console.log('✅ Video uploaded successfully:', videoResult.value);
-                
                 // If thumbnail also succeeded, set it via 3Speak API
-                if (thumbnailResult.status === 'fulfilled') {
-                    console.log('🖼️ Thumbnail uploaded successfully:', thumbnailResult.value);
-                    try {
-                        const videoId = extractVideoId(videoResult.value);
-                        console.log('🆔 Extracted video ID:', videoId);
-                        if (videoId) {
-                            await setVideoThumbnail(videoId, thumbnailResult.value);
-                            console.log('✅ Thumbnail set successfully via 3Speak API');
-                        } else {
-                            console.error('❌ Could not extract video ID from:', videoResult.value);
-                        }
-                    } catch (error) {
-                        console.warn('⚠️ Failed to set thumbnail (video still works):', error);
+                try {
+                    const thumbnailUrl = await thumbnail;
+                    const videoId = extractVideoId(embedUrl);
+                    if (videoId) {
+                        await setVideoThumbnail(videoId, thumbnailUrl);
+                        console.log('✅ Thumbnail set successfully via 3Speak API');
+                    } else {
+                        console.error('❌ Could not extract video ID from:', embedUrl);
                     }
-                } else {
-                    console.warn('⚠️ Thumbnail processing failed (video still works):', thumbnailResult.reason);
+                } catch (error) {
+                    console.warn('⚠️ Failed to set thumbnail (video still works):', error);
                 }
-            } else {
-                throw videoResult.reason;
+            },
+        });
+        setVideoUploadId(id);
+    }
+
+    function removeVideo() {
+        if (videoUploadId) uploads.cancel(videoUploadId);
+        setSelectedVideo(null);
+        setVideoEmbedUrl(null);
+        setVideoUploadId(null);
+    }
+
+    function handleAudioRecorded(audio: Blob, duration: number) {
+        if (!user) return;
+        const id = uploads.add({
+            kind: 'audio',
+            name: 'Audio Snap',
+            run: async ({ signal }) => {
+                const result = await uploadAudioTo3Speak(audio, duration, user, signal);
+                if (!result.success || !result.playUrl) throw new Error(result.error || 'Upload failed');
+                return result.playUrl;
+            },
+            onSuccess: setAudioEmbedUrl,
+        });
+        setAudioUploadId(id);
+    }
+
+    function removeAudio() {
+        if (audioUploadId) uploads.cancel(audioUploadId);
+        setAudioEmbedUrl(null);
+        setAudioUploadId(null);
+    }
+
+    function queueImageUpload(file: File): string {
+        return uploads.add({
+            kind: file.type === 'image/gif' ? 'gif' : 'image',
+            name: file.name,
+            run: async ({ signal, onProgress }) => {
+                const signature = await getFileSignature(file);
+                return uploadImage(file, signature, { signal, onProgress });
+            },
+        });
+    }
+
+    // Images start uploading right away, new ones are described one after the other
+    function addImages(files: File[]) {
+        if (files.length === 0) return;
+        const start = images.length;
+        const added = files.map((file) => ({ file, ...EMPTY_IMAGE_DETAILS, part: 0, uploadId: queueImageUpload(file) }));
+        setImages(prevImages => [...prevImages, ...added]);
+        setDescribeQueue(prevQueue => [...prevQueue, ...files.map((_, i) => start + i)]);
+    }
+
+    function updateImage(index: number, changes: Partial<SnapImage>) {
+        setImages(prevImages => prevImages.map((image, i) => (i === index ? { ...image, ...changes } : image)));
+    }
+
+    function removeImage(index: number) {
+        uploads.cancel(images[index].uploadId);
+        setImages(prevImages => prevImages.filter((_, i) => i !== index));
+        setDescribeQueue(prevQueue => prevQueue.filter((i) => i !== index).map((i) => (i > index ? i - 1 : i)));
+    }
+
+    function handlePaste(event: React.ClipboardEvent<HTMLTextAreaElement>) {
+        const files = Array.from(event.clipboardData.files).filter((file) => file.type.startsWith('image/'));
+        if (files.length === 0 || hasVideo || hasAudio) return;
+        event.preventDefault();
+        addImages(files);
+    }
+
+    function resetComposer() {
+        postBodyRef.current!.value = '';
+        setBody('');
+        setImages([]);
+        setDescribeQueue([]);
+        setSelectedGif(null);
+        setSelectedVideo(null);
+        setVideoEmbedUrl(null);
+        setVideoUploadId(null);
+        setThumbnailProcessing(false);
+        setAudioEmbedUrl(null);
+        setAudioUploadId(null);
+        uploads.clear();
+        setPoll(null);
+        setPostAsThread(false);
+        setThread(null);
+    }
+
+    // Beneficiaries of the site policy, set by the media of the snap
+    function getSnapBeneficiaries(withMedia: boolean) {
+        const type: BeneficiaryContentType = withMedia && videoEmbedUrl ? 'videoSnap' : withMedia && audioEmbedUrl ? 'audioSnap' : 'textSnap';
+        return applyBeneficiaryPolicy(getDefaultBeneficiaries(type), type);
+    }
+
+    // Publish one snap, with a comment_options operation when the policy gives it beneficiaries
+    async function publishSnap(parentAuthor: string, parentPermlink: string, permlink: string, commentBody: string, metadata: Record<string, unknown>, beneficiaries: Beneficiary[]) {
+        if (!user) throw new Error('You must be logged in to post.');
+        if (beneficiaries.length > 0) {
+            const commentOp = [
+                'comment',
+                {
+                    parent_author: parentAuthor,
+                    parent_permlink: parentPermlink,
+                    author: user,
+                    permlink: permlink,
+                    title: '',
+                    body: commentBody,
+                    json_metadata: JSON.stringify(metadata)
+                }
+            ] as const;
+
+            const optionsOp = buildCommentOptionsOperation(user, permlink, beneficiaries);
+
+            return aioha.signAndBroadcastTx([commentOp, optionsOp], KeyTypes.Posting);
+        }
+        // Regular post without beneficiaries
+        return aioha.comment(parentAuthor, parentPermlink, permlink, '', commentBody, metadata);
+    }
+
+    // Publish the parts not on chain yet, a failed part leaves the thread in place to be resumed
+    async function publishThread(pending: SnapThread) {
+        if (!user) return;
+        setIsLoading(true);
+        const published = [...pending.published];
+
+        try {
+            for (let index = published.length; index < pending.parts.length; index++) {
+                if (index > 0) await new Promise((resolve) => setTimeout(resolve, THREAD_PART_DELAY));
+
+                const { parentAuthor, parentPermlink } = getThreadPartParent({ ...pending, published }, user, index);
+                const permlink = getThreadPartPermlink(pending.permlink, index);
+                const { body: partBody, metadata } = pending.parts[index];
+                const response = await publishSnap(parentAuthor, parentPermlink, permlink, partBody, metadata, getSnapBeneficiaries(index === 0));
+                if (!response.success) {
+                    throw new Error(response.error || 'Broadcast failed');
+                }
+
+                published.push(permlink);
+                setThread({ ...pending, published: [...published] });
             }
+
+            await discardDraft();
+            resetComposer();
+
+            const [first] = pending.parts;
+            onNewComment({
+                author: user,
+                permlink: pending.permlink,
+                body: first.body,
+                json_metadata: JSON.stringify(first.metadata),
+            });
+            onClose();
         } catch (error) {
-            console.error('❌ Video upload failed:', error);
-            alert('Failed to upload video. Please try again.');
-            setSelectedVideo(null);
-            setVideoUploadProgress(0);
+            alert(`Posted ${published.length} of ${pending.parts.length} parts, part ${published.length + 1} failed: ${error}\nUse "Resume thread" to post the rest.`);
         } finally {
-            setThumbnailProcessing(false);
+            setIsLoading(false);
         }
     }
 
@@ -313,132 +551,128 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
             alert('You must be logged in to post.');
             return;
         }
+
+        if (thread) {
+            await publishThread(thread);
+            return;
+        }
         
         let commentBody = postBodyRef.current?.value || '';
 
-        if (!commentBody.trim() && images.length === 0 && !selectedGif && !selectedVideo && !audioEmbedUrl) {
+        if (!commentBody.trim() && images.length === 0 && !selectedGif && !selectedVideo && !audioEmbedUrl && !poll && !quote) {
             alert('Please enter some text, upload an image, select a gif, upload a video, or record audio before posting.');
             return; // Do not proceed
         }
 
+        if (isWaitingForUploads) {
+            alert('Wait for your attachments to finish uploading, or retry or remove the ones that failed.');
+            return;
+        }
+
+        const pollError = poll ? validatePollDraft(poll) : null;
+        if (pollError) {
+            alert(pollError);
+            return;
+        }
+
+        // Frontends without polls still show the question
+        if (poll && !commentBody.trim()) {
+            commentBody = poll.question.trim();
+        }
+        const pollMetadata = poll ? buildPollMetadata(poll) : {};
+
         setIsLoading(true);
-        setUploadProgress([]);
 
         const permlink = new Date()
             .toISOString()
             .replace(/[^a-zA-Z0-9]/g, "")
             .toLowerCase();
 
+        // The thread is split before any media is added, the media goes after the text of its part
+        const partTexts = isThread ? splitIntoThread(commentBody) : [commentBody];
+        const partMedia: string[][] = partTexts.map(() => []);
+
+        // The link to the quoted snap comes right after the text of the first part
+        if (quote) {
+            partMedia[0].push(buildQuoteFooter(quote));
+        }
+
         // Add video embed URL if available
         if (videoEmbedUrl) {
             // Just add the URL, parser will handle iframe formatting and mode parameter
-            commentBody += `\n\n${videoEmbedUrl}`;
+            partMedia[0].push(videoEmbedUrl);
         }
 
         // Add audio embed URL if available
         if (audioEmbedUrl) {
-            commentBody += `\n\n${audioEmbedUrl}`;
+            partMedia[0].push(audioEmbedUrl);
         }
 
-        let validUrls: string[] = [];    
+        const partImages: string[][] = partTexts.map(() => []);
+        const partImageMarkup: string[][] = partTexts.map(() => []);
         if (images.length > 0) {
-            const uploadedImages = await Promise.all(images.map(async (image, index) => {
-                const signature = await getFileSignature(image);
-                try {
-                    const uploadUrl = await uploadImage(image, signature, index, setUploadProgress);
-                    return uploadUrl;
-                } catch (error) {
-                    console.error('Error uploading image:', error);
-                    return null;
+            // Every upload has succeeded by now
+            images.forEach((image) => {
+                const url = uploads.getTask(image.uploadId)?.result;
+                if (!url) return;
+                const part = Math.min(image.part, partTexts.length - 1);
+                partImages[part].push(url);
+                partImageMarkup[part].push(buildImageMarkdown(url, image));
+            });
+            partImageMarkup.forEach((markup, part) => {
+                if (markup.length > 0) {
+                    partMedia[part].push(markup.join('\n'));
                 }
-            }));
-
-            validUrls = uploadedImages.filter((url): url is string => url !== null);
-
-            if (validUrls.length > 0) {
-                const imageMarkup = validUrls.map((url: string | null) => `![image](${url?.toString() || ''})`).join('\n');
-                commentBody += `\n\n${imageMarkup}`;
-            }
+            });
         }
 
         if (selectedGif) {
-            commentBody += `\n\n![gif](${selectedGif.images.downsized_medium.url})`;
+            partMedia[0].push(buildImageMarkdown(selectedGif.images.downsized_medium.url, { alt: selectedGif.title || 'gif', caption: '' }));
         }
 
-        if (commentBody) {
-            let snapsTags: string[] = [];
+        if (partTexts.some((text, part) => text || partMedia[part].length > 0)) {
             try {
                 // Add existing `snaps` tag logic
                 if (pp === "snaps") { 
                     pp = (await getLastSnapsContainer()).permlink;
-                    snapsTags = [process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || "", "snaps"];
                 }
 
-                // Extract hashtags from the comment body and add to `snapsTags`
-                const hashtags = extractHashtags(commentBody);
-                snapsTags = [...new Set([...snapsTags, ...hashtags])]; // Add hashtags without duplicates
-
-                let commentResponse;
-
-                // If video upload, use beneficiaries (10% to @snapie)
-                if (videoEmbedUrl) {
-                    const commentOp = [
-                        'comment',
-                        {
-                            parent_author: pa,
-                            parent_permlink: pp,
-                            author: user,
-                            permlink: permlink,
-                            title: '',
-                            body: commentBody,
-                            json_metadata: JSON.stringify({ app: 'mycommunity', tags: snapsTags, images: validUrls })
-                        }
-                    ] as const;
-
-                    const optionsOp = [
-                        'comment_options',
-                        {
-                            author: user,
-                            permlink: permlink,
-                            max_accepted_payout: '1000000.000 HBD',
-                            percent_hbd: 10000,
-                            allow_votes: true,
-                            allow_curation_rewards: true,
-                            extensions: [
-                                [
-                                    0,
-                                    {
-                                        beneficiaries: [
-                                            {
-                                                account: 'snapie',
-                                                weight: 1000 // 10%
-                                            }
-                                        ]
-                                    }
-                                ]
-                            ]
-                        }
-                    ] as const;
+                // Hashtags from the comment body, invalid ones were flagged while typing and are left out
+                const snapsTags = prepareTags([...autoTags, ...extractHashtags(commentBody)], communityTag);
+                const parts = partTexts.map((text, part) => {
+                    const partBody = formatThreadPart(text, part, partTexts.length, partMedia[part]);
+                    return {
+                        body: partBody,
+                        metadata: {
+                            ...(part === 0 ? pollMetadata : {}),
+                            ...(part === 0 && quote ? buildQuoteMetadata(quote) : {}),
+                            app: 'mycommunity',
+                            tags: snapsTags,
+                            users: extractMentions(partBody),
+                            images: partImages[part],
+                        },
+                    };
+                });
 
-                    commentResponse = await aioha.signAndBroadcastTx([commentOp, optionsOp], KeyTypes.Posting);
-                } else {
-                    // Regular post without beneficiaries
-                    commentResponse = await aioha.comment(pa, pp, permlink, '', commentBody, { app: 'mycommunity', tags: snapsTags, images: validUrls });
+                if (isThread) {
+                    const pending: SnapThread = { parentAuthor: pa, parentPermlink: pp, permlink, parts, published: [] };
+                    setThread(pending);
+                    await publishThread(pending);
+                    return;
                 }
+
+                const [{ body: snapBody, metadata }] = parts;
+                const commentResponse = await publishSnap(pa, pp, permlink, snapBody, metadata, getSnapBeneficiaries(true));
                 
                 if (commentResponse.success) {
-                    postBodyRef.current!.value = '';
-                    setImages([]);
-                    setSelectedGif(null);
-                    setSelectedVideo(null);
-                    setVideoEmbedUrl(null);
-                    setVideoUploadProgress(0);
-                    setThumbnailProcessing(false);
+                    await discardDraft();
+                    resetComposer();
 
                     const newComment: Partial<Comment> = {
                         author: user, 
                         permlink: permlink,
-                        body: commentBody,
+                        body: snapBody,
+                        json_metadata: JSON.stringify(metadata),
                     };
 
                     onNewComment(newComment); 
@@ -450,56 +684,189 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                 alert('Error posting: ' + error);
             } finally {
                 setIsLoading(false);
-                setUploadProgress([]);
             }
         }
     }
 
     // Detect Ctrl+Enter and submit
     function handleKeyDown(event: React.KeyboardEvent<HTMLTextAreaElement>) {
+        if (mentions.handleKeyDown(event) || hashtagSuggestions.handleKeyDown(event)) return;
         if (event.ctrlKey && event.key === 'Enter') {
             handleComment();
         }
     }
 
+
+    // Progress of an attachment, with a retry button once it has failed for good
+    function renderUploadStatus(task: UploadTask | undefined, size: 'xs' | 'sm') {
+        if (!task) return null;
+        if (task.status === 'error') {
+            return (
+                <VStack align="start" spacing={1} mt={2} maxW={size === 'xs' ? '100px' : undefined}>
+                    <Text fontSize="xs" color="red.400" noOfLines={2} title={task.error}>
+                        Upload failed{task.error ? `: ${task.error}` : ''}
+                    </Text>
+                    <Button size="xs" colorScheme="red" variant="outline" onClick={() => uploads.retry(task.id)} isDisabled={isLoading}>
+                        Retry
+                    </Button>
+                </VStack>
+            );
+        }
+        const color = task.status === 'done' ? 'green' : task.status === 'retrying' ? 'orange' : 'blue';
+        return (
+            <Box mt={2}>
+                <Progress value={task.progress} size={size} colorScheme={color} isIndeterminate={task.status === 'queued'} />
+                {size === 'sm' && (
+                    <Text fontSize="xs" mt={1} color="text">
+                        {task.status === 'queued' && 'Waiting to upload...'}
+                        {task.status === 'uploading' && `${task.progress}% uploaded`}
+                        {task.status === 'retrying' && `Upload failed, retrying (attempt ${task.attempts + 1})...`}
+                        {task.status === 'done' && 'Uploaded'}
+                    </Text>
+                )}
+            </Box>
+        );
+    }
     return (
         <Box bg="muted" p={4} mb={1} borderRadius="base" border="tb1">
-            <Textarea
-                placeholder={!user ? "Please log in to post..." : "What's happening?"}
-                bg="background"
-                border="tb1"
-                borderRadius={'base'}
-                mb={3}
-                ref={postBodyRef}
-                _placeholder={{ color: 'text' }}
-                isDisabled={isDisabled}
-                onKeyDown={handleKeyDown} // Attach the keydown handler
-            />
+            {(drafts.length > 0 || savedAt) && (
+                <HStack justify="flex-end" mb={2}>
+                    <DraftsMenu drafts={drafts} savedAt={savedAt} onRestore={restoreDraft} onDelete={removeDraft} />
+                </HStack>
+            )}
+            <Box position="relative" mb={3}>
+                <Textarea
+                    placeholder={!user ? "Please log in to post..." : quote ? "Add your comment..." : "What's happening?"}
+                    bg="background"
+                    border="tb1"
+                    borderRadius={'base'}
+                    ref={postBodyRef}
+                    _placeholder={{ color: 'text' }}
+                    isDisabled={isDisabled}
+                    onKeyDown={handleKeyDown} // Attach the keydown handler
+                    onKeyUp={(e) => {
+                        mentions.handleKeyUp(e);
+                        hashtagSuggestions.handleKeyUp(e);
+                    }}
+                    onClick={updateSuggestions}
+                    onBlur={closeSuggestions}
+                    onPaste={handlePaste}
+                    onChange={(e) => {
+                        setBody(e.target.value);
+                        updateSuggestions();
+                    }}
+                />
+                <AutocompletePopup
+                    items={mentions.items}
+                    activeIndex={mentions.activeIndex}
+                    position={mentions.position}
+                    onSelect={mentions.selectSuggestion}
+                    onHover={mentions.setActiveIndex}
+                />
+                <AutocompletePopup
+                    items={hashtagSuggestions.items}
+                    activeIndex={hashtagSuggestions.activeIndex}
+                    position={hashtagSuggestions.position}
+                    onSelect={hashtagSuggestions.selectSuggestion}
+                    onHover={hashtagSuggestions.setActiveIndex}
+                />
+                {tagWarnings.map((warning) => (
+                    <Text key={warning} fontSize="xs" color="orange.400" mt={1}>
+                        {warning}
+                    </Text>
+                ))}
+                <HStack justify="flex-end" spacing={3} mt={1}>
+                    {isOverLimit && !thread && (
+                        <HStack as="label" spacing={2} fontSize="xs" cursor="pointer">
+                            <Text>Post as thread ({threadParts.length} parts)</Text>
+                            <Switch size="sm" isChecked={postAsThread} onChange={(e) => setPostAsThread(e.target.checked)} isDisabled={isDisabled} />
+                        </HStack>
+                    )}
+                    <Text fontSize="xs" color={isOverLimit && !postAsThread ? 'orange.400' : 'gray.400'} title={isOverLimit && !postAsThread ? 'Some apps cut snaps after this many characters' : undefined}>
+                        {snapLength}/{SNAP_CHAR_LIMIT}
+                    </Text>
+                </HStack>
+            </Box>
+            {quote && (
+                <Box mb={3}>
+                    <HivePostPreview author={quote.author} permlink={quote.permlink} />
+                </Box>
+            )}
+            {isThread && !thread && (
+                <VStack align="stretch" spacing={2} mb={3}>
+                    {threadParts.map((part, index) => (
+                        <Box key={index} bg="background" p={2} borderRadius="base" border="tb1">
+                            <Text fontSize="xs" color="gray.400" mb={1}>Part {index + 1}/{threadParts.length}</Text>
+                            <Text fontSize="sm" whiteSpace="pre-wrap" noOfLines={4}>{part}</Text>
+                        </Box>
+                    ))}
+                </VStack>
+            )}
+            {thread && (
+                <HStack justify="space-between" mb={3}>
+                    <Text fontSize="sm">
+                        {isLoading
+                            ? `Posting part ${Math.min(thread.published.length + 1, thread.parts.length)} of ${thread.parts.length}...`
+                            : `${thread.published.length} of ${thread.parts.length} parts posted`}
+                    </Text>
+                    {!isLoading && (
+                        <Button size="xs" variant="ghost" onClick={() => setThread(null)}>
+                            Stop here
+                        </Button>
+                    )}
+                </HStack>
+            )}
             <HStack justify="space-between" mb={3}>
                 <HStack>
                     <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} as="label" variant="ghost" isDisabled={isDisabled || hasVideo || hasAudio}>
                         <FaImage size={22} />
-                        <ImageUploader images={images} onUpload={setImages} onRemove={(index) => setImages(prevImages => prevImages.filter((_, i) => i !== index))} />
+                        <ImageUploader images={images.map(({ file }) => file)} onUpload={addImages} onRemove={removeImage} />
                     </Button>
                     <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} variant="ghost" onClick={() => setGiphyModalOpen(!isGiphyModalOpen)} isDisabled={isDisabled || hasVideo || hasAudio}>
                         <MdGif size={48} />
                     </Button>
-                    <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} as="label" variant="ghost" isDisabled={isDisabled || hasMedia || videoUploadProgress > 0 || hasAudio}>
+                    <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} as="label" variant="ghost" isDisabled={isDisabled || hasMedia || selectedVideo !== null || hasAudio}>
                         <FaVideo size={22} />
                         <VideoUploader onUpload={handleVideoSelection} />
                     </Button>
                     <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} variant="ghost" onClick={() => setAudioRecorderOpen(true)} isDisabled={isDisabled || hasMedia || hasVideo || hasAudio}>
                         <FaMicrophone size={22} />
                     </Button>
+                    <Button _hover={{ border: 'tb1' }} _active={{ border: 'tb1' }} variant="ghost" aria-label="Add poll" onClick={() => setPoll(poll ? null : createEmptyPollDraft())} isDisabled={isDisabled}>
+                        <FaPoll size={22} />
+                    </Button>
                 </HStack>
-                <Button variant="solid" colorScheme="primary" onClick={handleComment} isDisabled={isDisabled || Boolean(selectedVideo && !videoEmbedUrl)}>
-                    {isLoading ? <Spinner size="sm" /> : (!user ? "Log in to post" : buttonText)}
-                </Button>
+                {thread && !isLoading ? (
+                    <Button variant="solid" colorScheme="primary" onClick={handleComment}>
+                        Resume thread
+                    </Button>
+                ) : (
+                    <Button variant="solid" colorScheme="primary" onClick={handleComment} isDisabled={isDisabled || isWaitingForUploads}>
+                        {isLoading ? <Spinner size="sm" /> : (!user ? "Log in to post" : isThread ? `${buttonText} thread` : buttonText)}
+                    </Button>
+                )}
             </HStack>
+            {poll && (
+                <Box mb={3}>
+                    <PollEditor poll={poll} onChange={setPoll} onRemove={() => setPoll(null)} isDisabled={isLoading} />
+                </Box>
+            )}
             <Wrap spacing={4}>
                 {images.map((image, index) => (
                     <Box key={index} position="relative">
-                        <Image alt="" src={URL.createObjectURL(image)} boxSize="100px" borderRadius="base" />
+                        <Image alt={image.alt} src={URL.createObjectURL(image.file)} boxSize="100px" borderRadius="base" />
+                        <Button
+                            size="xs"
+                            position="absolute"
+                            top="72px"
+                            left="1"
+                            colorScheme={image.alt ? 'green' : 'gray'}
+                            title={image.alt ? `Alt text: ${image.alt}` : 'Add alt text and a caption'}
+                            onClick={() => setDescribeQueue([index])}
+                            isDisabled={isLoading || thread !== null}
+                        >
+                            ALT
+                        </Button>
                         <IconButton
                             aria-label="Remove image"
                             icon={<CloseIcon />}
@@ -507,10 +874,25 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                             position="absolute"
                             top="0"
                             right="0"
-                            onClick={() => setImages(prevImages => prevImages.filter((_, i) => i !== index))}
-                            isDisabled={isLoading}
+                            onClick={() => removeImage(index)}
+                            isDisabled={isLoading || thread !== null}
                         />
-                        <Progress value={uploadProgress[index]} size="xs" colorScheme="green" mt={2} />
+                        {renderUploadStatus(uploads.getTask(image.uploadId), 'xs')}
+                        {isThread && (
+                            <Select
+                                size="xs"
+                                mt={1}
+                                w="100px"
+                                aria-label="Thread part of the image"
+                                value={Math.min(image.part, threadParts.length - 1)}
+                                onChange={(e) => updateImage(index, { part: Number(e.target.value) })}
+                                isDisabled={isDisabled}
+                            >
+                                {threadParts.map((_, part) => (
+                                    <option key={part} value={part}>Part {part + 1}</option>
+                                ))}
+                            </Select>
+                        )}
                     </Box>
                 ))}
                 {selectedGif && (
@@ -537,21 +919,18 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                                     aria-label="Remove video"
                                     icon={<CloseIcon />}
                                     size="xs"
-                                    onClick={() => {
-                                        setSelectedVideo(null);
-                                        setVideoEmbedUrl(null);
-                                        setVideoUploadProgress(0);
-                                    }}
+                                    onClick={removeVideo}
                                     isDisabled={isLoading}
                                 />
                             </HStack>
-                            <Text fontSize="xs" color="gray.400">
-                                {(selectedVideo.size / (1024 * 1024)).toFixed(2)} MB
-                            </Text>
-                            {videoUploadProgress > 0 && (
+                            {selectedVideo.size > 0 && (
+                                <Text fontSize="xs" color="gray.400">
+                                    {(selectedVideo.size / (1024 * 1024)).toFixed(2)} MB
+                                </Text>
+                            )}
+                            {videoUpload && (
                                 <Box w="100%">
-                                    <Progress value={videoUploadProgress} size="sm" colorScheme="blue" />
-                                    <Text fontSize="xs" mt={1} color="text">{videoUploadProgress}% uploaded</Text>
+                                    {renderUploadStatus(videoUpload, 'sm')}
                                     {thumbnailProcessing && (
                                         <Text fontSize="xs" color="blue.400">Generating thumbnail...</Text>
                                     )}
@@ -560,7 +939,7 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                         </VStack>
                     </Box>
                 )}
-                {audioEmbedUrl && (
+                {(audioEmbedUrl || audioUpload) && (
                     <Box position="relative" bg="muted" p={3} borderRadius="base" border="1px solid" borderColor="gray.600" minW="250px">
                         <VStack align="start" spacing={2}>
                             <HStack justify="space-between" w="100%">
@@ -569,15 +948,41 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                                     aria-label="Remove audio"
                                     icon={<CloseIcon />}
                                     size="xs"
-                                    onClick={() => setAudioEmbedUrl(null)}
+                                    onClick={removeAudio}
                                     isDisabled={isLoading}
                                 />
                             </HStack>
-                            <Text fontSize="xs" color="green.400">✓ Ready to post</Text>
+                            {audioEmbedUrl ? (
+                                <Text fontSize="xs" color="green.400">✓ Ready to post</Text>
+                            ) : (
+                                <Box w="100%">{renderUploadStatus(audioUpload, 'sm')}</Box>
+                            )}
                         </VStack>
                     </Box>
                 )}
             </Wrap>
+            {isWaitingForUploads && !thread && (
+                <Text fontSize="xs" color={uploads.failedCount > 0 ? 'red.400' : 'gray.400'} mt={2}>
+                    {uploads.failedCount > 0
+                        ? `${uploads.failedCount} upload${uploads.failedCount > 1 ? 's' : ''} failed, retry or remove ${uploads.failedCount > 1 ? 'them' : 'it'} to post.`
+                        : 'Uploading attachments...'}
+                </Text>
+            )}
+            {images.some((image) => !hasDescriptiveAlt(image.alt)) && (
+                <Text fontSize="xs" color="gray.400" mt={2}>
+                    Tip: add alt text to your images so people using screen readers know what they show.
+                </Text>
+            )}
+            <ImageDetailsModal
+                file={describedImage?.file || null}
+                details={describedImage}
+                queueLabel={describeQueue.length > 1 ? `${describeQueue.length} left` : undefined}
+                onSave={(details) => {
+                    updateImage(describeQueue[0], details);
+                    setDescribeQueue(prevQueue => prevQueue.slice(1));
+                }}
+                onSkip={() => setDescribeQueue(prevQueue => prevQueue.slice(1))}
+            />
             {isGiphyModalOpen && (
                 <GiphySelector
                     apiKey={process.env.GIPHY_API_KEY || 'qXGQXTPKyNJByTFZpW7Kb0tEFeB90faV'}
@@ -592,8 +997,7 @@ export default function SnapComposer ({ pa, pp, onNewComment, post = false, onCl
                 <AudioRecorder
                     isOpen={isAudioRecorderOpen}
                     onClose={() => setAudioRecorderOpen(false)}
-                    onAudioRecorded={(playUrl) => setAudioEmbedUrl(playUrl)}
-                    username={user}
+                    onAudioRecorded={handleAudioRecorded}
                 />
             )}
         </Box>
@@ -1,10 +1,15 @@
-import React from 'react';
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
 import InfiniteScroll from 'react-infinite-scroll-component';
-import { Box, Spinner, VStack, Text } from '@chakra-ui/react';
+import { Badge, Box, Button, Link, Spinner, VStack, Text } from '@chakra-ui/react';
+import { FaArrowUp } from 'react-icons/fa';
 import Snap from './Snap';
 import { ExtendedComment, useComments } from '@/hooks/useComments';
 import { useSnaps } from '@/hooks/useSnaps';
 import SnapComposer from './SnapComposer';
+import { useLiveSnaps } from '@/hooks/useLiveSnaps';
+import { useModeration } from '@/hooks/useModeration';
+import HiddenSnap from './HiddenSnap';
+import { useAioha } from '@aioha/react-ui';
 
 interface SnapListProps {
   author: string
@@ -23,6 +28,12 @@ interface InfiniteScrollData {
   isLoading: boolean;
   hasMore: boolean; // Default can be `false` in usage
   refresh?: () => void; // Function to refresh the feed
+  isRanked?: boolean; // Comments are already in ranking order, keep it
+  matchesFilter?: (snap: ExtendedComment) => boolean; // Enables the live "new snaps" pill
+  prependSnaps?: (snaps: ExtendedComment[]) => void;
+  saveScrollTop?: (scrollTop: number) => void; // Remembers the reader's position in the feed
+  restoredScroll?: { top: number } | null; // Position to go back to after the feed was restored
+  filteredCount?: number; // Snaps hidden by the user's content filters
 }
 
 export default function SnapList(
@@ -36,7 +47,53 @@ export default function SnapList(
     post,
     data
 }: SnapListProps) {  
-  const { comments, loadNextPage, isLoading, hasMore, refresh } = data
+  const { comments, loadNextPage, isLoading, hasMore, refresh, isRanked, matchesFilter, prependSnaps, saveScrollTop, restoredScroll, filteredCount } = data
+  const pendingScrollRef = useRef<{ height: number; top: number } | null>(null);
+  const { user } = useAioha();
+  const { getMuteReason } = useModeration(user);
+
+  // Ranked feeds are not chronological, new snaps have no obvious place in them
+  const { newSnaps, acknowledge } = useLiveSnaps({
+    enabled: !post && !isRanked && !!matchesFilter && !!prependSnaps,
+  });
+  const loadedPermlinks = new Set(comments.map((comment) => comment.permlink));
+  const pendingSnaps = matchesFilter
+    ? newSnaps.filter((snap) => matchesFilter(snap) && !loadedPermlinks.has(snap.permlink))
+    : [];
+
+  const handleShowNewSnaps = () => {
+    if (!prependSnaps) return;
+    const scrollable = document.getElementById('scrollableDiv');
+    if (scrollable) {
+      pendingScrollRef.current = { height: scrollable.scrollHeight, top: scrollable.scrollTop };
+    }
+    prependSnaps(pendingSnaps);
+    acknowledge(pendingSnaps.map((snap) => snap.permlink));
+  };
+
+  // Keep the snaps on screen where they were after new ones are added above them
+  useLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    const scrollable = document.getElementById('scrollableDiv');
+    if (!pending || !scrollable) return;
+    pendingScrollRef.current = null;
+    scrollable.scrollTop = pending.top + (scrollable.scrollHeight - pending.height);
+  }, [comments.length]);
+
+  // Go back to where the reader left a restored feed
+  useLayoutEffect(() => {
+    const scrollable = document.getElementById('scrollableDiv');
+    if (!restoredScroll || !scrollable) return;
+    scrollable.scrollTop = restoredScroll.top;
+  }, [restoredScroll]);
+
+  useEffect(() => {
+    const scrollable = document.getElementById('scrollableDiv');
+    if (!scrollable || !saveScrollTop) return;
+    const handleScroll = () => saveScrollTop(scrollable.scrollTop);
+    scrollable.addEventListener('scroll', handleScroll, { passive: true });
+    return () => scrollable.removeEventListener('scroll', handleScroll);
+  }, [saveScrollTop]);
 
   const handleNewComment = () => {
     // Simple feed refresh after posting with delay for blockchain to catch up
@@ -47,9 +104,11 @@ export default function SnapList(
     }
   };
 
-  comments.sort((a: ExtendedComment, b: ExtendedComment) => {
-    return new Date(b.created).getTime() - new Date(a.created).getTime();
-  });
+  if (!isRanked) {
+    comments.sort((a: ExtendedComment, b: ExtendedComment) => {
+      return new Date(b.created).getTime() - new Date(a.created).getTime();
+    });
+  }
   // Handle new comment addition
   //const updatedComments = newComment ? [newComment, ...comments] : comments;
 
@@ -75,17 +134,50 @@ export default function SnapList(
                 )}
             scrollableTarget="scrollableDiv"
         >
+          {pendingSnaps.length > 0 && (
+            <Box position="sticky" top="72px" zIndex={9} display="flex" justifyContent="center" h={0} overflow="visible">
+              <Button
+                size="sm"
+                borderRadius="full"
+                bg="primary"
+                color="background"
+                leftIcon={<FaArrowUp />}
+                shadow="md"
+                _hover={{ bg: 'secondary' }}
+                onClick={handleShowNewSnaps}
+              >
+                {pendingSnaps.length} new snap{pendingSnaps.length > 1 ? 's' : ''}
+              </Button>
+            </Box>
+          )}
           <VStack spacing={1} align="stretch" mx="auto" pt={0} px={2}>
           {!post && <SnapComposer pa={author} pp={permlink} onNewComment={handleNewComment} onClose={() => null} />}
-          {comments.map((comment: ExtendedComment) => (
-            <Snap
-              key={comment.permlink}
-              comment={comment}
-              onOpen={onOpen}
-              setReply={setReply}
-              {...(!post ? { setConversation } : {})}
-            />
-          ))}
+          {!!filteredCount && (
+            <Box textAlign="right">
+              <Link href="/settings" _hover={{ textDecoration: 'none' }}>
+                <Badge bg="muted" color="text" borderRadius="full" px={2} title="Manage your content filters">
+                  {filteredCount} filtered
+                </Badge>
+              </Link>
+            </Box>
+          )}
+          {comments.map((comment: ExtendedComment) => {
+            const snap = (
+              <Snap
+                key={comment.permlink}
+                comment={comment}
+                onOpen={onOpen}
+                setReply={setReply}
+                {...(!post ? { setConversation } : {})}
+              />
+            );
+            const muteReason = getMuteReason(comment.author);
+            return muteReason ? (
+              <HiddenSnap key={comment.permlink} author={comment.author} reason={muteReason}>
+                {snap}
+              </HiddenSnap>
+            ) : snap;
+          })}
           </VStack>
       </InfiniteScroll>
 
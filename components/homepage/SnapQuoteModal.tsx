@@ -0,0 +1,45 @@
+import { Modal, ModalBody, ModalContent, ModalHeader, ModalOverlay, IconButton, Text } from '@chakra-ui/react';
+import React from 'react';
+import SnapComposer from './SnapComposer';
+import { Comment } from '@hiveio/dhive';
+import { CloseIcon } from '@chakra-ui/icons';
+
+interface SnapQuoteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    comment: Comment; // Snap being quoted
+    onNewQuote: (newComment: Partial<Comment>) => void;
+}
+
+export default function SnapQuoteModal({ isOpen, onClose, comment, onNewQuote }: SnapQuoteModalProps) {
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} size="2xl">
+            <ModalOverlay bg="rgba(0, 0, 0, 0.6)" backdropFilter="blur(10px)" />
+            <ModalContent bg="background" color="text" position="relative">
+                <IconButton
+                    aria-label="Close"
+                    icon={<CloseIcon />}
+                    onClick={onClose}
+                    position="absolute"
+                    top={2}
+                    right={2}
+                    variant="unstyled"
+                    size="lg"
+                />
+                <ModalHeader>
+                    <Text fontSize="md">Quote @{comment.author}</Text>
+                </ModalHeader>
+                <ModalBody pb={6}>
+                    {/* Quotes are new snaps, not replies to the quoted one */}
+                    <SnapComposer
+                        pa="peak.snaps"
+                        pp="snaps"
+                        quote={{ author: comment.author, permlink: comment.permlink }}
+                        onNewComment={onNewQuote}
+                        onClose={onClose}
+                    />
+                </ModalBody>
+            </ModalContent>
+        </Modal>
+    );
+}
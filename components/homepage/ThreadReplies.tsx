@@ -0,0 +1,146 @@
+import { Box, Button, HStack, VStack, useToast } from '@chakra-ui/react';
+import { ChevronDownIcon, ChevronRightIcon, LinkIcon } from '@chakra-ui/icons';
+import { Comment } from '@hiveio/dhive';
+import { useEffect, useMemo, useState } from 'react';
+import { ExtendedComment } from '@/hooks/useComments';
+import Snap from './Snap';
+import {
+    REPLIES_PAGE_SIZE,
+    ReplyRef,
+    ThreadSort,
+    buildReplyPermalink,
+    getReplyElementId,
+    getReplyKey,
+    hasUnloadedReplies,
+    sortReplies,
+} from '@/lib/utils/threadUtils';
+
+/**
+ * State shared by every branch of the thread
+ */
+export interface ThreadContext {
+    root: ReplyRef;
+    sort: ThreadSort;
+    focusPath: Set<string>; // Keys of the replies leading to the permalink target
+    focusKey?: string;
+    loadingBranches: Set<string>;
+    onLoadBranch: (parent: ReplyRef) => void;
+    onOpen: () => void;
+    setReply: (reply: Comment) => void;
+}
+
+interface ThreadRepliesProps {
+    replies: ExtendedComment[];
+    thread: ThreadContext;
+}
+
+interface ThreadNodeProps {
+    reply: ExtendedComment;
+    thread: ThreadContext;
+}
+
+const ThreadNode = ({ reply, thread }: ThreadNodeProps) => {
+    const key = getReplyKey(reply);
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const toast = useToast();
+
+    // Open the branches on the way to a permalink, even if they were collapsed
+    useEffect(() => {
+        if (thread.focusPath.has(key)) setIsCollapsed(false);
+    }, [thread.focusPath, key]);
+
+    function handleCopyLink() {
+        const url = `${window.location.origin}${buildReplyPermalink(thread.root, reply)}`;
+        navigator.clipboard.writeText(url);
+        toast({
+            title: 'Link Copied!',
+            description: 'Link to this reply copied to clipboard.',
+            status: 'success',
+            duration: 3000,
+        });
+    }
+
+    return (
+        <Box id={getReplyElementId(reply)}>
+            <Snap
+                comment={reply}
+                onOpen={thread.onOpen}
+                setReply={thread.setReply}
+                showReplies={false}
+                isOriginalAuthor={reply.author === thread.root.author}
+                isHighlighted={key === thread.focusKey}
+            />
+            <HStack spacing={1}>
+                {reply.children > 0 && (
+                    <Button
+                        size="xs"
+                        variant="ghost"
+                        leftIcon={isCollapsed ? <ChevronRightIcon /> : <ChevronDownIcon />}
+                        onClick={() => setIsCollapsed(!isCollapsed)}
+                    >
+                        {isCollapsed ? `Show ${reply.children} ${reply.children === 1 ? 'reply' : 'replies'}` : 'Hide replies'}
+                    </Button>
+                )}
+                <Button size="xs" variant="ghost" leftIcon={<LinkIcon />} onClick={handleCopyLink}>
+                    Copy link
+                </Button>
+            </HStack>
+            {!isCollapsed && reply.children > 0 && (
+                <Box
+                    ml={3}
+                    pl={3}
+                    borderLeft="2px solid"
+                    borderColor="border"
+                    _hover={{ borderColor: 'primary' }}
+                >
+                    {hasUnloadedReplies(reply) ? (
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            mt={1}
+                            onClick={() => thread.onLoadBranch(reply)}
+                            isLoading={thread.loadingBranches.has(key)}
+                        >
+                            Load {reply.children} more {reply.children === 1 ? 'reply' : 'replies'}
+                        </Button>
+                    ) : (
+                        <ThreadReplies replies={reply.replies || []} thread={thread} />
+                    )}
+                </Box>
+            )}
+        </Box>
+    );
+};
+
+/**
+ * One level of a threaded conversation, shown a page at a time
+ */
+const ThreadReplies = ({ replies, thread }: ThreadRepliesProps) => {
+    const [visibleCount, setVisibleCount] = useState(REPLIES_PAGE_SIZE);
+    const sortedReplies = useMemo(() => sortReplies(replies, thread.sort), [replies, thread.sort]);
+
+    // Never hide the branch holding the permalink target behind "show more"
+    const focusIndex = sortedReplies.findIndex((reply) => thread.focusPath.has(getReplyKey(reply)));
+    const shownCount = Math.max(visibleCount, focusIndex + 1);
+    const hiddenCount = sortedReplies.length - shownCount;
+
+    return (
+        <VStack spacing={2} align="stretch" mt={2}>
+            {sortedReplies.slice(0, shownCount).map((reply) => (
+                <ThreadNode key={getReplyKey(reply)} reply={reply} thread={thread} />
+            ))}
+            {hiddenCount > 0 && (
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    alignSelf="flex-start"
+                    onClick={() => setVisibleCount(shownCount + REPLIES_PAGE_SIZE)}
+                >
+                    Show {Math.min(hiddenCount, REPLIES_PAGE_SIZE)} more {hiddenCount === 1 ? 'reply' : 'replies'}
+                </Button>
+            )}
+        </VStack>
+    );
+};
+
+export default ThreadReplies;
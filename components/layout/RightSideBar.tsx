@@ -1,21 +1,30 @@
 'use client';
-import { Box, Spinner } from '@chakra-ui/react';
+import { Badge, Box, Link, Spinner } from '@chakra-ui/react';
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Discussion } from '@hiveio/dhive';
-import { findPosts, getCommunityMutedAccounts } from '@/lib/hive/client-functions';
+import { findPosts } from '@/lib/hive/client-functions';
+import { useModeration } from '@/hooks/useModeration';
+import { useContentFilters } from '@/hooks/useContentFilters';
+import { getFilterReason } from '@/lib/utils/contentFilters';
+import { useAioha } from '@aioha/react-ui';
 import PostInfiniteScroll from '@/components/blog/PostInfiniteScroll';
 
 export default function RightSideBar() {
   const [query, setQuery] = useState('created');
   const [allPosts, setAllPosts] = useState<Discussion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [mutedLoaded, setMutedLoaded] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const isFetching = useRef(false);
-  const mutedAccountsRef = useRef<string[]>([]);
+  const { user } = useAioha();
+  const { isLoaded: mutedLoaded, isHidden } = useModeration(user);
+  const isHiddenRef = useRef(isHidden);
+  isHiddenRef.current = isHidden;
+  const { rules: contentFilterRules } = useContentFilters();
+  const contentFilterRulesRef = useRef(contentFilterRules);
+  contentFilterRulesRef.current = contentFilterRules;
+  const [filteredCount, setFilteredCount] = useState(0);
 
   const tag = process.env.NEXT_PUBLIC_HIVE_SEARCH_TAG
-  const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG
 
   const params = useRef({
     tag: tag,
@@ -44,11 +53,16 @@ export default function RightSideBar() {
         // Filter out comments and muted accounts
         const topLevelPosts = posts.filter((post: Discussion) => {
           const isTopLevel = post.parent_author === '';
-          const isMuted = mutedAccountsRef.current.includes(post.author);
+          const isMuted = isHiddenRef.current(post.author);
           return isTopLevel && !isMuted;
         });
+        // Then apply the user's content filters, counting what they hide
+        const visiblePosts = topLevelPosts.filter(
+          (post: Discussion) => getFilterReason(post, contentFilterRulesRef.current) === null
+        );
+        setFilteredCount((prev) => prev + topLevelPosts.length - visiblePosts.length);
         
-        allFetchedPosts = [...allFetchedPosts, ...topLevelPosts];
+        allFetchedPosts = [...allFetchedPosts, ...visiblePosts];
         
         // Update params to fetch next batch using the last post from API (not filtered)
         const lastPost = posts[posts.length - 1];
@@ -71,24 +85,21 @@ export default function RightSideBar() {
     }
   }, [query, tag]);
 
-  // Fetch community muted accounts on mount
-  useEffect(() => {
-    const fetchMutedAccounts = async () => {
-      if (communityTag) {
-        const muted = await getCommunityMutedAccounts(communityTag);
-        mutedAccountsRef.current = muted;
-        setMutedLoaded(true);
-      }
-    };
-    fetchMutedAccounts();
-  }, [communityTag]);
-
-  // Only fetch posts after muted accounts are loaded
+  // Only fetch posts after the moderation lists are loaded
   useEffect(() => {
     if (mutedLoaded) {
+      // Start over when the content filters change
+      setAllPosts([]);
+      setFilteredCount(0);
+      params.current = {
+        tag: tag,
+        limit: 8,
+        start_author: '',
+        start_permlink: '',
+      };
       fetchPosts();
     }
-  }, [mutedLoaded, fetchPosts]);
+  }, [mutedLoaded, fetchPosts, contentFilterRules, tag]);
 
   // Scroll event handler
   const handleScroll = useCallback(() => {
@@ -133,6 +144,15 @@ export default function RightSideBar() {
         }
       }
     >
+      {filteredCount > 0 && (
+        <Box textAlign="right" mb={2}>
+          <Link href="/settings" _hover={{ textDecoration: 'none' }}>
+            <Badge bg="muted" color="text" borderRadius="full" px={2} title="Manage your content filters">
+              {filteredCount} filtered
+            </Badge>
+          </Link>
+        </Box>
+      )}
       <PostInfiniteScroll allPosts={allPosts} fetchPosts={fetchPosts} viewMode="list" />
     </Box>
   );
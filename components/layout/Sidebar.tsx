@@ -3,7 +3,7 @@ import React, { useEffect, useState } from 'react';
 import { Box, VStack, Button, Icon, Image, Spinner, Flex, Text, useColorMode, transition, Tooltip, useBreakpointValue } from '@chakra-ui/react';
 import { useRouter, usePathname } from 'next/navigation';
 import { AiohaModal, useAioha } from '@aioha/react-ui';
-import { FiHome, FiBell, FiUser, FiShoppingCart, FiBook, FiCreditCard, FiLogIn, FiLogOut } from 'react-icons/fi';
+import { FiHome, FiBell, FiUser, FiShoppingCart, FiBook, FiCreditCard, FiLogIn, FiLogOut, FiSettings } from 'react-icons/fi';
 import { Notifications } from '@hiveio/dhive';
 import { fetchNewNotifications, getCommunityInfo, getProfile } from '@/lib/hive/client-functions';
 import { animate, color, motion, px } from 'framer-motion';
@@ -180,6 +180,21 @@ export default function Sidebar() {
                             </Button>
                         </Box>
                     </Tooltip>
+                    <Tooltip label="Settings" placement="right" hasArrow isDisabled={!isCompactMode}>
+                        <Box w="full">
+                            <Button
+                                onClick={() => handleNavigation("/settings")}
+                                variant="ghost"
+                                w="full"
+                                justifyContent={iconJustify}
+                                leftIcon={<Icon as={FiSettings} boxSize={4} />}
+                                px={3}
+                                borderRadius="md"
+                            >
+                                <Text display={textDisplay}>Settings</Text>
+                            </Button>
+                        </Box>
+                    </Tooltip>
                     {user && (
                         <>
                             <Tooltip label="Notifications" placement="right" hasArrow isDisabled={!isCompactMode}>
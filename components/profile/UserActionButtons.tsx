@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { HStack, Button, useToast, Spinner } from '@chakra-ui/react';
 import { getRelationshipBetweenAccounts, setUserRelationship } from '@/lib/hive/client-functions';
+import { invalidateModerationLists } from '@/lib/hive/moderation';
 import { useAioha } from '@aioha/react-ui';
 
 interface UserActionButtonsProps {
@@ -109,6 +110,7 @@ export default function UserActionButtons({ targetUsername, currentUsername }: U
 
       if (success) {
         setIsMuted(!isMuted);
+        invalidateModerationLists(user);
         // If muting, also unfollow
         if (!isMuted && isFollowing) {
           setIsFollowing(false);
@@ -159,6 +161,7 @@ export default function UserActionButtons({ targetUsername, currentUsername }: U
 
       if (success) {
         setIsBlacklisted(!isBlacklisted);
+        invalidateModerationLists(user);
         // If blacklisting, also unfollow
         if (!isBlacklisted && isFollowing) {
           setIsFollowing(false);
@@ -0,0 +1,39 @@
+import { Button, Modal, ModalBody, ModalContent, ModalFooter, ModalHeader, ModalOverlay, Text } from '@chakra-ui/react';
+import { DeleteMode } from '@/lib/utils/postEditing';
+
+interface DeletePostDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (mode: DeleteMode) => void;
+    mode: DeleteMode; // What the chain allows for this post
+    kind: 'snap' | 'post';
+}
+
+export default function DeletePostDialog({ isOpen, onClose, onConfirm, mode, kind }: DeletePostDialogProps) {
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} isCentered size="md">
+            <ModalOverlay />
+            <ModalContent bg="background" color="text">
+                <ModalHeader fontSize="md">{mode === 'delete' ? `Delete this ${kind}?` : `Remove the content of this ${kind}?`}</ModalHeader>
+                <ModalBody>
+                    {mode === 'delete' ? (
+                        <Text fontSize="sm">It will be deleted from the blockchain for good.</Text>
+                    ) : (
+                        <Text fontSize="sm">
+                            This {kind} has votes or replies, or was already paid out, so the blockchain won&apos;t delete it.
+                            Its text and media can be replaced by a removal notice instead. Earlier versions stay in the account history.
+                        </Text>
+                    )}
+                </ModalBody>
+                <ModalFooter>
+                    <Button variant="ghost" mr={3} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button colorScheme="red" onClick={() => onConfirm(mode)}>
+                        {mode === 'delete' ? 'Delete' : 'Remove content'}
+                    </Button>
+                </ModalFooter>
+            </ModalContent>
+        </Modal>
+    );
+}
@@ -0,0 +1,130 @@
+import { Box, Button, ButtonGroup, HStack, Modal, ModalBody, ModalCloseButton, ModalContent, ModalHeader, ModalOverlay, Select, SimpleGrid, Spinner, Text, VStack } from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import { PostVersion } from '@/lib/utils/editHistory';
+import { DiffPart, diffText } from '@/lib/utils/textDiff';
+
+interface EditHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    author: string;
+    permlink: string;
+    created: string;
+}
+
+type DiffView = 'inline' | 'split';
+
+// History timestamps are UTC without a zone
+function formatTimestamp(timestamp: string): string {
+    return new Date(`${timestamp}Z`).toLocaleString();
+}
+
+function getVersionLabel(version: PostVersion, index: number, total: number): string {
+    const name = index === 0 ? 'Original' : index === total - 1 ? `Edit ${index} (current)` : `Edit ${index}`;
+    return `${name} · ${formatTimestamp(version.timestamp)}`;
+}
+
+function DiffText({ parts, show }: { parts: DiffPart[]; show: DiffPart['type'][] }) {
+    return (
+        <Box whiteSpace="pre-wrap" wordBreak="break-word" fontSize="sm" lineHeight="1.6">
+            {parts.filter((part) => show.includes(part.type)).map((part, index) => (
+                <Text
+                    as={part.type === 'insert' ? 'ins' : part.type === 'delete' ? 'del' : 'span'}
+                    key={index}
+                    bg={part.type === 'insert' ? 'green.700' : part.type === 'delete' ? 'red.700' : undefined}
+                    color={part.type === 'equal' ? undefined : 'white'}
+                    textDecoration={part.type === 'delete' ? 'line-through' : 'none'}
+                >
+                    {part.text}
+                </Text>
+            ))}
+        </Box>
+    );
+}
+
+export default function EditHistoryModal({ isOpen, onClose, author, permlink, created }: EditHistoryModalProps) {
+    const { versions, isLoading, error } = useEditHistory(author, permlink, created, isOpen);
+    const [fromIndex, setFromIndex] = useState(0);
+    const [toIndex, setToIndex] = useState(0);
+    const [view, setView] = useState<DiffView>('inline');
+
+    // Start with the last edit
+    useEffect(() => {
+        setFromIndex(Math.max(versions.length - 2, 0));
+        setToIndex(Math.max(versions.length - 1, 0));
+    }, [versions]);
+
+    const from = versions[fromIndex];
+    const to = versions[toIndex];
+    const bodyDiff = useMemo(() => (from && to ? diffText(from.body, to.body) : []), [from, to]);
+    const titleDiff = useMemo(() => (from && to && from.title !== to.title ? diffText(from.title, to.title) : null), [from, to]);
+    const hasChanges = bodyDiff.some((part) => part.type !== 'equal') || titleDiff !== null;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+            <ModalOverlay />
+            <ModalContent bg="background" color="text">
+                <ModalHeader fontSize="md">Edit history</ModalHeader>
+                <ModalCloseButton />
+                <ModalBody pb={6}>
+                    {isLoading && (
+                        <HStack justify="center" py={6}>
+                            <Spinner size="sm" />
+                            <Text fontSize="sm">Reading the account history...</Text>
+                        </HStack>
+                    )}
+                    {error && <Text fontSize="sm" color="red.400">{error}</Text>}
+                    {!isLoading && !error && versions.length < 2 && (
+                        <Text fontSize="sm" color="gray.400">No earlier version was found in the account history.</Text>
+                    )}
+                    {!isLoading && !error && versions.length >= 2 && from && to && (
+                        <VStack align="stretch" spacing={4}>
+                            <HStack spacing={3} flexWrap="wrap">
+                                <Select size="sm" maxW="280px" aria-label="Compare from" value={fromIndex} onChange={(e) => setFromIndex(Number(e.target.value))}>
+                                    {versions.map((version, index) => (
+                                        <option key={`${version.trxId}-${index}`} value={index}>{getVersionLabel(version, index, versions.length)}</option>
+                                    ))}
+                                </Select>
+                                <Text fontSize="sm">→</Text>
+                                <Select size="sm" maxW="280px" aria-label="Compare to" value={toIndex} onChange={(e) => setToIndex(Number(e.target.value))}>
+                                    {versions.map((version, index) => (
+                                        <option key={`${version.trxId}-${index}`} value={index}>{getVersionLabel(version, index, versions.length)}</option>
+                                    ))}
+                                </Select>
+                                <ButtonGroup size="xs" isAttached variant="outline">
+                                    <Button isActive={view === 'inline'} onClick={() => setView('inline')}>Inline</Button>
+                                    <Button isActive={view === 'split'} onClick={() => setView('split')}>Side by side</Button>
+                                </ButtonGroup>
+                            </HStack>
+                            {(from.isIncomplete || to.isIncomplete) && (
+                                <Text fontSize="xs" color="orange.400">
+                                    An edit was sent as a patch that couldn&apos;t be applied, this comparison may be missing some changes.
+                                </Text>
+                            )}
+                            {!hasChanges && <Text fontSize="sm" color="gray.400">The text is the same in both versions.</Text>}
+                            {titleDiff && (
+                                <Box fontWeight="bold">
+                                    <DiffText parts={titleDiff} show={['equal', 'delete', 'insert']} />
+                                </Box>
+                            )}
+                            {view === 'inline' ? (
+                                <Box border="tb1" borderRadius="base" p={3}>
+                                    <DiffText parts={bodyDiff} show={['equal', 'delete', 'insert']} />
+                                </Box>
+                            ) : (
+                                <SimpleGrid columns={2} spacing={3}>
+                                    <Box border="tb1" borderRadius="base" p={3}>
+                                        <DiffText parts={bodyDiff} show={['equal', 'delete']} />
+                                    </Box>
+                                    <Box border="tb1" borderRadius="base" p={3}>
+                                        <DiffText parts={bodyDiff} show={['equal', 'insert']} />
+                                    </Box>
+                                </SimpleGrid>
+                            )}
+                        </VStack>
+                    )}
+                </ModalBody>
+            </ModalContent>
+        </Modal>
+    );
+}
@@ -0,0 +1,44 @@
+import { Text } from '@chakra-ui/react';
+import { useState } from 'react';
+import EditHistoryModal from './EditHistoryModal';
+import { isEdited } from '@/lib/utils/editHistory';
+
+interface EditedMarkerProps {
+    post: { author: string; permlink: string; created: string; last_update?: string; updated?: string };
+}
+
+/**
+ * "edited" next to the date of a changed snap or post, opens its edit history
+ */
+export default function EditedMarker({ post }: EditedMarkerProps) {
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+    if (!isEdited(post)) return null;
+
+    return (
+        <>
+            <Text
+                as="button"
+                fontSize="xs"
+                color="gray.400"
+                textDecoration="underline"
+                title="See the edit history"
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setIsHistoryOpen(true);
+                }}
+            >
+                edited
+            </Text>
+            {isHistoryOpen && (
+                <EditHistoryModal
+                    isOpen={isHistoryOpen}
+                    onClose={() => setIsHistoryOpen(false)}
+                    author={post.author}
+                    permlink={post.permlink}
+                    created={post.created}
+                />
+            )}
+        </>
+    );
+}
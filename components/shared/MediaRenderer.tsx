@@ -1,6 +1,7 @@
-import { Box, Image } from "@chakra-ui/react";
+import { Box, Image, Text } from "@chakra-ui/react";
 import VideoRenderer from "@/components/layout/VideoRenderer";
 import { parseMediaContent, MediaItem } from "@/lib/utils/snapUtils";
+import { parseImageMarkdown } from "@/lib/utils/imageMarkdown";
 import DOMPurify from 'isomorphic-dompurify';
 
 interface MediaRendererProps {
@@ -32,16 +33,16 @@ const MediaRenderer = ({ mediaContent }: MediaRendererProps) => {
 
         // Render images
         if (item.type === "image") {
-          // Extract URL from markdown syntax
-          const urlMatch = item.content.match(/!\[.*?\]\((.*?)\)/);
-          const imageUrl = urlMatch ? urlMatch[1] : null;
+          // Extract URL, alt text and caption from markdown syntax
+          const [image] = parseImageMarkdown(item.content);
+          const imageUrl = image?.url || null;
           
           if (imageUrl) {
             return (
-              <Box key={index} mb={2}>
+              <Box key={index} as="figure" mb={2}>
                 <Image
                   src={imageUrl}
-                  alt="Post media"
+                  alt={image.alt || "Post media"}
                   width="100%"
                   maxWidth="540px"
                   height="auto"
@@ -52,6 +53,11 @@ const MediaRenderer = ({ mediaContent }: MediaRendererProps) => {
                     e.currentTarget.style.display = 'none';
                   }}
                 />
+                {image.caption && (
+                  <Text as="figcaption" fontSize="sm" color="gray.400" mt={1} maxWidth="540px">
+                    {image.caption}
+                  </Text>
+                )}
               </Box>
             );
           }
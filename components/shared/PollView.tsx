@@ -0,0 +1,145 @@
+import { Box, Button, Checkbox, CheckboxGroup, HStack, Progress, Radio, RadioGroup, Text, VStack, useToast } from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { usePoll } from '@/hooks/usePoll';
+import { Poll, isPollClosed } from '@/lib/utils/polls';
+
+interface PollViewProps {
+    author: string;
+    permlink: string;
+    poll: Poll;
+}
+
+function formatTimeLeft(endTime: string): string {
+    const remaining = new Date(endTime).getTime() - Date.now();
+    const minutes = Math.floor(remaining / (60 * 1000));
+    if (minutes < 60) return `${Math.max(minutes, 1)}m left`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h left`;
+    return `${Math.floor(hours / 24)}d left`;
+}
+
+export default function PollView({ author, permlink, poll }: PollViewProps) {
+    const { user } = useAioha();
+    const { counts, totalVoters, userChoices, isLoading, isVoting, error, vote } = usePoll(author, permlink, poll);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [isChangingVote, setIsChangingVote] = useState(false);
+    const toast = useToast();
+
+    const isClosed = useMemo(() => isPollClosed(poll), [poll]);
+    const isMultiple = poll.maxChoices > 1;
+    const canVote = Boolean(user) && !isClosed && (!userChoices || isChangingVote);
+    const showResults = isClosed || Boolean(userChoices) || (!poll.hideResultsUntilVoted && !canVote);
+
+    async function handleVote() {
+        try {
+            await vote(selected.map(Number).sort((a, b) => a - b));
+            setIsChangingVote(false);
+            setSelected([]);
+            toast({ title: 'Vote cast', status: 'success', duration: 3000, isClosable: true });
+        } catch (err: any) {
+            toast({
+                title: 'Vote Failed',
+                description: err.message || 'Failed to cast vote',
+                status: 'error',
+                duration: 3000,
+                isClosable: true,
+            });
+        }
+    }
+
+    function startChangingVote() {
+        setSelected((userChoices || []).map(String));
+        setIsChangingVote(true);
+    }
+
+    return (
+        <Box mt={2} p={3} border="1px solid" borderColor="border" borderRadius="base" bg="background">
+            <Text fontWeight="bold" mb={2}>{poll.question}</Text>
+
+            {canVote ? (
+                <VStack align="stretch" spacing={2}>
+                    {isMultiple ? (
+                        <CheckboxGroup
+                            value={selected}
+                            onChange={(value) => setSelected((value as string[]).slice(0, poll.maxChoices))}
+                        >
+                            <VStack align="start" spacing={1}>
+                                {poll.choices.map((choice, index) => (
+                                    <Checkbox
+                                        key={index}
+                                        value={String(index + 1)}
+                                        isDisabled={selected.length >= poll.maxChoices && !selected.includes(String(index + 1))}
+                                    >
+                                        {choice}
+                                    </Checkbox>
+                                ))}
+                            </VStack>
+                        </CheckboxGroup>
+                    ) : (
+                        <RadioGroup value={selected[0] || ''} onChange={(value) => setSelected([value])}>
+                            <VStack align="start" spacing={1}>
+                                {poll.choices.map((choice, index) => (
+                                    <Radio key={index} value={String(index + 1)}>{choice}</Radio>
+                                ))}
+                            </VStack>
+                        </RadioGroup>
+                    )}
+                    <HStack>
+                        <Button
+                            size="sm"
+                            colorScheme="primary"
+                            onClick={handleVote}
+                            isLoading={isVoting}
+                            isDisabled={selected.length === 0 || isLoading}
+                        >
+                            Vote
+                        </Button>
+                        {isChangingVote && (
+                            <Button size="sm" variant="ghost" onClick={() => setIsChangingVote(false)}>
+                                Cancel
+                            </Button>
+                        )}
+                        {isMultiple && (
+                            <Text fontSize="xs" color="gray.500">Pick up to {poll.maxChoices}</Text>
+                        )}
+                    </HStack>
+                </VStack>
+            ) : showResults ? (
+                <VStack align="stretch" spacing={2}>
+                    {poll.choices.map((choice, index) => {
+                        const count = counts[index] || 0;
+                        const percentage = totalVoters > 0 ? Math.round((count / totalVoters) * 100) : 0;
+                        const isUserChoice = userChoices?.includes(index + 1);
+                        return (
+                            <Box key={index}>
+                                <HStack justify="space-between" fontSize="sm">
+                                    <Text fontWeight={isUserChoice ? 'bold' : 'normal'}>
+                                        {choice}{isUserChoice ? ' ✓' : ''}
+                                    </Text>
+                                    <Text color="gray.500">{percentage}%</Text>
+                                </HStack>
+                                <Progress value={percentage} size="sm" borderRadius="base" colorScheme={isUserChoice ? 'green' : 'blue'} />
+                            </Box>
+                        );
+                    })}
+                </VStack>
+            ) : (
+                <Text fontSize="sm" color="gray.500">Log in to vote and see the results</Text>
+            )}
+
+            {error && <Text fontSize="xs" color="red.400" mt={2}>{error}</Text>}
+
+            <HStack justify="space-between" mt={2} fontSize="xs" color="gray.500">
+                <Text>
+                    {totalVoters} {totalVoters === 1 ? 'vote' : 'votes'} · {isClosed ? `Ended ${new Date(poll.endTime).toLocaleDateString()}` : formatTimeLeft(poll.endTime)}
+                </Text>
+                {userChoices && !isClosed && !isChangingVote && poll.allowVoteChanges && (
+                    <Button size="xs" variant="link" onClick={startChangingVote}>
+                        Change vote
+                    </Button>
+                )}
+            </HStack>
+        </Box>
+    );
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { KeyTypes } from '@aioha/aioha';
+import {
+  AccountList,
+  ACCOUNT_LISTS_CUSTOM_JSON_ID,
+  buildAccountListsCustomJson,
+  createAccountList,
+  importAccountLists,
+  loadAccountLists,
+  mergeAccountLists,
+  saveAccountLists,
+  validateAccountListsCustomJson,
+} from '@/lib/utils/accountLists';
+
+/**
+ * The user's account lists, persisted in localStorage on every change
+ */
+export const useAccountLists = () => {
+  const { aioha, user } = useAioha();
+  const [lists, setLists] = useState<AccountList[]>([]);
+
+  useEffect(() => {
+    setLists(loadAccountLists());
+  }, []);
+
+  const updateLists = useCallback((updater: (prev: AccountList[]) => AccountList[]) => {
+    setLists((prev) => {
+      const updated = updater(prev);
+      saveAccountLists(updated);
+      return updated;
+    });
+  }, []);
+
+  const addList = useCallback((name: string, accounts: string[]) => {
+    const list = createAccountList(name, accounts);
+    updateLists((prev) => [...prev, list]);
+    return list;
+  }, [updateLists]);
+
+  const updateList = useCallback((id: string, name: string, accounts: string[]) => {
+    updateLists((prev) => prev.map((list) =>
+      list.id === id ? { ...createAccountList(name, accounts), id } : list
+    ));
+  }, [updateLists]);
+
+  const removeList = useCallback((id: string) => {
+    updateLists((prev) => prev.filter((list) => list.id !== id));
+  }, [updateLists]);
+
+  // Throws when the content is not a valid export
+  const importLists = useCallback((content: string) => {
+    const imported = importAccountLists(content);
+    updateLists((prev) => mergeAccountLists(prev, imported));
+    return imported.length;
+  }, [updateLists]);
+
+  // Publish the lists as a custom_json signed with the posting key
+  const publishLists = useCallback(async () => {
+    if (!user) {
+      throw new Error('You need to be logged in to publish your lists');
+    }
+    const payload = buildAccountListsCustomJson(lists);
+    const sizeError = validateAccountListsCustomJson(payload);
+    if (sizeError) {
+      throw new Error(sizeError); // Checked before signing, the node would only answer with a generic error
+    }
+    const result = await aioha.customJSON(
+      KeyTypes.Posting,
+      ACCOUNT_LISTS_CUSTOM_JSON_ID,
+      payload,
+      'Publish account lists'
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to publish account lists');
+    }
+  }, [aioha, user, lists]);
+
+  return { lists, addList, updateList, removeList, importLists, publishLists };
+};
@@ -31,11 +31,18 @@ export interface ListCommentsParams {
     order: string
 }
 
-async function fetchComments(
+/**
+ * Fetch the replies to a post or snap
+ * @param recursive - Also fetch the replies of every reply
+ * @param maxDepth - Levels fetched when recursive, deeper replies keep `replies` undefined
+ * @throws When the replies can't be fetched, replies whose own replies failed keep `replies` undefined
+ */
+export async function fetchComments(
     author: string,
     permlink: string,
-    recursive: boolean = false
-): Promise<Comment[]> {
+    recursive: boolean = false,
+    maxDepth: number = Infinity
+): Promise<ExtendedComment[]> {
     try {
         /*
         const params = {
@@ -54,10 +61,14 @@ async function fetchComments(
             permlink,
         ])) as Comment[];
 
-        if (recursive) {
+        if (recursive && maxDepth > 1) {
             const fetchReplies = async (comment: ExtendedComment): Promise<ExtendedComment> => {
                 if (comment.children && comment.children > 0) {
-                    comment.replies = await fetchComments(comment.author, comment.permlink, true);
+                    try {
+                        comment.replies = await fetchComments(comment.author, comment.permlink, true, maxDepth - 1);
+                    } catch {
+                        // Left unloaded so the branch can be loaded again
+                    }
                 }
                 return comment;
             };
@@ -68,7 +79,7 @@ async function fetchComments(
         }
     } catch (error) {
         console.error("Failed to fetch comments:", error);
-        return [];
+        throw error;
     }
 }
 
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  CONTENT_FILTERS_CHANGE_EVENT,
+  CONTENT_FILTERS_STORAGE_KEY,
+  ContentFilterRules,
+  DEFAULT_CONTENT_FILTERS,
+  loadContentFilters,
+  saveContentFilters,
+} from '@/lib/utils/contentFilters';
+
+/**
+ * The user's content filter rules, kept in sync between every feed and the settings page
+ */
+export const useContentFilters = () => {
+  const [rules, setRules] = useState<ContentFilterRules>(DEFAULT_CONTENT_FILTERS);
+
+  useEffect(() => {
+    setRules(loadContentFilters());
+
+    const handleChange = () => setRules(loadContentFilters());
+    // Changes from this tab, and from other tabs through the storage event
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CONTENT_FILTERS_STORAGE_KEY) handleChange();
+    };
+
+    window.addEventListener(CONTENT_FILTERS_CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(CONTENT_FILTERS_CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const updateRules = useCallback((changes: Partial<ContentFilterRules>) => {
+    saveContentFilters({ ...loadContentFilters(), ...changes });
+  }, []);
+
+  return { rules, updateRules };
+};
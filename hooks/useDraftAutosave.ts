@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Draft,
+  DraftContent,
+  DraftKind,
+  deleteDraft,
+  generateDraftId,
+  isDraftEmpty,
+  saveDraft,
+} from '@/lib/utils/drafts';
+
+const AUTOSAVE_DELAY = 1500; // ms after the last change
+
+/**
+ * Save the content of a composer as a draft a moment after each change, and right away on unmount
+ * @param content - Current content, memoized so it only changes when the user edits
+ * @param parentKey - Snap or post being replied to, if any
+ */
+export const useDraftAutosave = (
+  content: DraftContent,
+  kind: DraftKind,
+  parentKey?: string | null,
+  delay: number = AUTOSAVE_DELAY
+) => {
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const draftIdRef = useRef<string | null>(null);
+  const createdAtRef = useRef<string | null>(null);
+  const pendingRef = useRef<DraftContent | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const persist = useCallback(async (next: DraftContent) => {
+    try {
+      // Clearing the composer drops its draft
+      if (isDraftEmpty(next)) {
+        if (draftIdRef.current) await deleteDraft(draftIdRef.current);
+        draftIdRef.current = null;
+        setSavedAt(null);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      if (!draftIdRef.current) {
+        draftIdRef.current = generateDraftId();
+        createdAtRef.current = now;
+      }
+      await saveDraft({
+        ...next,
+        id: draftIdRef.current,
+        kind,
+        parentKey: parentKey || undefined,
+        createdAt: createdAtRef.current || now,
+        updatedAt: now,
+      });
+      setSavedAt(now);
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  }, [kind, parentKey]);
+
+  const persistRef = useRef(persist);
+  persistRef.current = persist;
+
+  useEffect(() => {
+    pendingRef.current = content;
+    timerRef.current = setTimeout(() => {
+      pendingRef.current = null;
+      persistRef.current(content);
+    }, delay);
+    return () => clearTimeout(timerRef.current);
+  }, [content, delay]);
+
+  // Closing the composer (e.g. the reply modal) must not lose the last keystrokes
+  useEffect(() => {
+    return () => {
+      if (pendingRef.current) persistRef.current(pendingRef.current);
+    };
+  }, []);
+
+  /**
+   * Continue editing a saved draft, the composer then fills its fields from it
+   */
+  const resumeDraft = useCallback((draft: Draft) => {
+    clearTimeout(timerRef.current);
+    if (pendingRef.current) persistRef.current(pendingRef.current);
+    pendingRef.current = null;
+    draftIdRef.current = draft.id;
+    createdAtRef.current = draft.createdAt;
+    setSavedAt(draft.updatedAt);
+  }, []);
+
+  /**
+   * Keep the current draft as it is and save the next changes to a new one
+   */
+  const startNewDraft = useCallback(() => {
+    clearTimeout(timerRef.current);
+    if (pendingRef.current) persistRef.current(pendingRef.current);
+    pendingRef.current = null;
+    draftIdRef.current = null;
+    createdAtRef.current = null;
+    setSavedAt(null);
+  }, []);
+
+  /**
+   * Delete the current draft, once it is published
+   */
+  const discardDraft = useCallback(async () => {
+    clearTimeout(timerRef.current);
+    pendingRef.current = null;
+    const id = draftIdRef.current;
+    draftIdRef.current = null;
+    setSavedAt(null);
+    if (id) {
+      try {
+        await deleteDraft(id);
+      } catch (error) {
+        console.error('Error deleting draft:', error);
+      }
+    }
+  }, []);
+
+  return { savedAt, resumeDraft, startNewDraft, discardDraft };
+};
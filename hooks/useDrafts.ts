@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DRAFTS_CHANGE_EVENT, Draft, DraftKind, deleteDraft, listDrafts } from '@/lib/utils/drafts';
+
+/**
+ * Saved drafts of one kind, refreshed whenever a draft is saved or deleted
+ * @param parentKey - Only the drafts replying to this snap or post, top-level ones when null
+ */
+export const useDrafts = (kind: DraftKind, parentKey?: string | null) => {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDrafts(await listDrafts(kind, parentKey));
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  }, [kind, parentKey]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(DRAFTS_CHANGE_EVENT, refresh);
+    return () => window.removeEventListener(DRAFTS_CHANGE_EVENT, refresh);
+  }, [refresh]);
+
+  const removeDraft = useCallback(async (id: string) => {
+    try {
+      await deleteDraft(id);
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+    }
+  }, []);
+
+  return { drafts, refresh, removeDraft };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { getCommentEdits } from '@/lib/hive/client-functions';
+import { PostVersion, rebuildVersions } from '@/lib/utils/editHistory';
+
+/**
+ * Every version of a snap or post, oldest first, loaded from the account history of its author
+ * @param enabled - Nothing is loaded until the history is asked for
+ */
+export const useEditHistory = (author: string, permlink: string, created: string, enabled: boolean) => {
+  const [versions, setVersions] = useState<PostVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const loadVersions = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const edits = await getCommentEdits(author, permlink, created);
+        if (!cancelled) setVersions(rebuildVersions(edits));
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load the edit history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [author, permlink, created, enabled]);
+
+  return { versions, isLoading, error };
+};
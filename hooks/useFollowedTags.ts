@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const FOLLOWED_TAGS_KEY = 'followedTags';
+
+function readFollowedTags(): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(FOLLOWED_TAGS_KEY);
+    const tags = stored ? JSON.parse(stored) : [];
+    return Array.isArray(tags) ? tags : [];
+  } catch (error) {
+    console.error('Error reading followed tags:', error);
+    return [];
+  }
+}
+
+/**
+ * Hashtags the user follows, kept in localStorage (Hive has no on-chain tag follows)
+ */
+export function useFollowedTags() {
+  const [followedTags, setFollowedTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    setFollowedTags(readFollowedTags());
+  }, []);
+
+  const isFollowingTag = useCallback(
+    (tag: string) => followedTags.includes(tag.toLowerCase()),
+    [followedTags]
+  );
+
+  const toggleFollowTag = useCallback((tag: string) => {
+    const normalizedTag = tag.toLowerCase();
+    const current = readFollowedTags();
+    const updated = current.includes(normalizedTag)
+      ? current.filter((item) => item !== normalizedTag)
+      : [...current, normalizedTag];
+
+    localStorage.setItem(FOLLOWED_TAGS_KEY, JSON.stringify(updated));
+    setFollowedTags(updated);
+  }, []);
+
+  return { followedTags, isFollowingTag, toggleFollowTag };
+}
@@ -0,0 +1,50 @@
+import { RefObject, useCallback } from 'react';
+import { getHashtagQuery } from '@/lib/utils/tagUtils';
+import { useTagSuggestions } from './useTagSuggestions';
+import { useSuggestionNavigation, useTextareaAutocomplete } from './useTextareaAutocomplete';
+
+/**
+ * Suggest tags while a #hashtag is typed in a textarea
+ * @param textareaRef - The textarea being edited
+ * @param value - Current text of the textarea
+ * @param setValue - Update the text, used to insert the selected tag
+ * @param exclude - Tags already in the text
+ */
+export const useHashtagAutocomplete = (
+  textareaRef: RefObject<HTMLTextAreaElement>,
+  value: string,
+  setValue: (value: string) => void,
+  exclude: string[] = []
+) => {
+  const { match, position, updateMatch, handleKeyUp, close, complete } = useTextareaAutocomplete(
+    textareaRef,
+    value,
+    setValue,
+    getHashtagQuery
+  );
+  const query = match?.query ?? null;
+  const { suggestions, items } = useTagSuggestions(query, exclude.filter((tag) => tag !== query));
+
+  const selectSuggestion = useCallback((tag: string) => complete(`#${tag} `), [complete]);
+
+  const { activeIndex, setActiveIndex, handleKeyDown } = useSuggestionNavigation(
+    suggestions.length,
+    (index) => selectSuggestion(suggestions[index].tag),
+    close,
+    query
+  );
+
+  return {
+    isOpen: suggestions.length > 0,
+    suggestions,
+    items,
+    activeIndex,
+    setActiveIndex,
+    position,
+    updateHashtag: updateMatch,
+    selectSuggestion,
+    handleKeyDown,
+    handleKeyUp,
+    close,
+  };
+};
@@ -0,0 +1,68 @@
+import HiveClient from '@/lib/hive/hiveclient';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ExtendedComment } from './useComments';
+import { getLastSnapsContainer } from '@/lib/hive/client-functions';
+
+interface UseLiveSnapsProps {
+  enabled?: boolean;
+  pollInterval?: number; // Milliseconds between two checks of the newest container
+}
+
+/**
+ * Watch the newest `peak.snaps` container and collect snaps posted after the hook started.
+ * The first check only records what already exists, so nothing from the loaded feed shows up as new.
+ */
+export const useLiveSnaps = ({ enabled = true, pollInterval = 15000 }: UseLiveSnapsProps = {}) => {
+  const seenPermlinksRef = useRef<Set<string> | null>(null); // null until the first check
+  const [newSnaps, setNewSnaps] = useState<ExtendedComment[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const checkForNewSnaps = async () => {
+      // Skip checks while the tab is in the background
+      if (typeof document !== 'undefined' && document.hidden) return;
+
+      try {
+        const container = await getLastSnapsContainer();
+        const replies = (await HiveClient.database.call('get_content_replies', [
+          container.author,
+          container.permlink,
+        ])) as ExtendedComment[];
+        if (cancelled) return;
+
+        if (!seenPermlinksRef.current) {
+          seenPermlinksRef.current = new Set(replies.map((reply) => reply.permlink));
+          return;
+        }
+
+        const seen = seenPermlinksRef.current;
+        const unseen = replies.filter((reply) => !seen.has(reply.permlink));
+        if (unseen.length) {
+          unseen.forEach((reply) => seen.add(reply.permlink));
+          setNewSnaps((prev) => [...unseen, ...prev]);
+        }
+      } catch (error) {
+        console.error('Error checking for new snaps:', error);
+      }
+    };
+
+    checkForNewSnaps();
+    const interval = setInterval(checkForNewSnaps, pollInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, pollInterval]);
+
+  // Drop snaps from the pending list once they are shown
+  const acknowledge = useCallback((permlinks: string[]) => {
+    const shown = new Set(permlinks);
+    setNewSnaps((prev) => prev.filter((snap) => !shown.has(snap.permlink)));
+  }, []);
+
+  return { newSnaps, acknowledge };
+};
@@ -0,0 +1,109 @@
+import { RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { getAllFollowing } from '@/lib/hive/follow-list';
+import { getCommunitySubscribers, getRecentConversationPartners, lookupAccounts } from '@/lib/hive/client-functions';
+import { MENTION_SOURCE_LABELS, MentionSource, MentionSuggestion, getMentionQuery, rankMentionSuggestions } from '@/lib/utils/mentions';
+import { AutocompleteItem, useSuggestionNavigation, useTextareaAutocomplete } from './useTextareaAutocomplete';
+
+const LOOKUP_DELAY = 250; // Wait for a pause in typing before asking the node
+const MIN_LOOKUP_LENGTH = 2; // The lookup of one letter is mostly noise
+
+type MentionContext = Omit<Record<MentionSource, string[]>, 'search'>;
+
+const EMPTY_CONTEXT: MentionContext = { recent: [], following: [], community: [] };
+
+/**
+ * Suggest accounts while an @mention is typed in a textarea
+ * @param textareaRef - The textarea being edited
+ * @param value - Current text of the textarea
+ * @param setValue - Update the text, used to insert the selected account
+ */
+export const useMentionAutocomplete = (
+  textareaRef: RefObject<HTMLTextAreaElement>,
+  value: string,
+  setValue: (value: string) => void
+) => {
+  const { user } = useAioha();
+  const { match, position, updateMatch, handleKeyUp, close, complete } = useTextareaAutocomplete(
+    textareaRef,
+    value,
+    setValue,
+    getMentionQuery
+  );
+  const [searchResults, setSearchResults] = useState<string[]>([]);
+  const [context, setContext] = useState<MentionContext>(EMPTY_CONTEXT);
+  const contextUserRef = useRef<string | null>(null);
+  const query = match?.query ?? null;
+
+  // Accounts the user is most likely to mention, loaded on the first mention
+  useEffect(() => {
+    if (query === null || contextUserRef.current === (user || '')) return;
+    contextUserRef.current = user || '';
+    const community = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG;
+
+    Promise.all([
+      user ? getRecentConversationPartners(user) : Promise.resolve([]),
+      user ? getAllFollowing(user).catch(() => []) : Promise.resolve([]),
+      community ? getCommunitySubscribers(community) : Promise.resolve([]),
+    ]).then(([recent, following, subscribers]) => {
+      setContext({ recent, following, community: subscribers });
+    });
+  }, [query, user]);
+
+  useEffect(() => {
+    if (query === null || query.length < MIN_LOOKUP_LENGTH) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      lookupAccounts(query).then((accounts) => {
+        if (!cancelled) setSearchResults(accounts);
+      });
+    }, LOOKUP_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const suggestions: MentionSuggestion[] = useMemo(
+    () => (query === null ? [] : rankMentionSuggestions(query, { ...context, search: searchResults }, user ? [user] : [])),
+    [query, context, searchResults, user]
+  );
+
+  const items: AutocompleteItem[] = useMemo(
+    () => suggestions.map(({ account, source }) => ({
+      value: account,
+      label: `@${account}`,
+      detail: MENTION_SOURCE_LABELS[source] || undefined,
+      avatar: `https://images.hive.blog/u/${account}/avatar/sm`,
+    })),
+    [suggestions]
+  );
+
+  const selectSuggestion = useCallback((account: string) => complete(`@${account} `), [complete]);
+
+  const { activeIndex, setActiveIndex, handleKeyDown } = useSuggestionNavigation(
+    suggestions.length,
+    (index) => selectSuggestion(suggestions[index].account),
+    close,
+    query
+  );
+
+  return {
+    isOpen: suggestions.length > 0,
+    suggestions,
+    items,
+    activeIndex,
+    setActiveIndex,
+    position,
+    updateMention: updateMatch,
+    selectSuggestion,
+    handleKeyDown,
+    handleKeyUp,
+    close,
+  };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getMuteReason, loadModerationLists, ModerationLists, MuteReason, onModerationListsInvalidated } from '@/lib/hive/moderation';
+
+/**
+ * Moderation lists for the current user, with a helper telling why an author is hidden
+ */
+export const useModeration = (username?: string | null) => {
+  const [lists, setLists] = useState<ModerationLists>({ communityMuted: [], ignored: [], blacklisted: [] });
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [version, setVersion] = useState(0); // Bumped when the lists of this user are invalidated
+  const loadedUserRef = useRef<string | null>(null);
+
+  // Reload after a mute or unmute made anywhere on the page
+  useEffect(() => {
+    return onModerationListsInvalidated((invalidatedUser) => {
+      if (invalidatedUser === (username || '')) setVersion((prev) => prev + 1);
+    });
+  }, [username]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const key = username || '';
+    if (loadedUserRef.current !== key) setIsLoaded(false); // The old lists stay in use while a refresh loads
+
+    loadModerationLists(username || undefined).then((loaded) => {
+      if (cancelled) return;
+      loadedUserRef.current = key;
+      setLists(loaded);
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, version]);
+
+  const getReason = useCallback(
+    (author: string): MuteReason | null => getMuteReason(author, lists),
+    [lists]
+  );
+
+  const isHidden = useCallback((author: string) => getReason(author) !== null, [getReason]);
+
+  return { lists, isLoaded, getMuteReason: getReason, isHidden };
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { KeyTypes } from '@aioha/aioha';
+import {
+  POLLS_CUSTOM_JSON_ID,
+  Poll,
+  PollResults,
+  buildPollVoteJson,
+  countPollVotes,
+  isValidPollVote,
+} from '@/lib/utils/polls';
+
+/**
+ * Live results of the poll attached to a snap or post, with the vote of the user applied
+ * right away while the indexer catches up.
+ * @param poll - Poll parsed from the metadata, nothing is loaded when null
+ */
+export const usePoll = (author: string, permlink: string, poll: Poll | null) => {
+  const { aioha, user } = useAioha();
+  const [results, setResults] = useState<PollResults | null>(null);
+  const [pendingVote, setPendingVote] = useState<number[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isVoting, setIsVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!poll) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ author, permlink });
+      const response = await fetch(`/api/polls?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load poll results');
+      setResults(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load poll results');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [author, permlink, poll]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // The pending vote is dropped once the indexer reports the same choices
+  useEffect(() => {
+    if (!pendingVote || !user || !results) return;
+    const indexed = results.votes[user];
+    if (indexed && indexed.join(',') === pendingVote.join(',')) setPendingVote(null);
+  }, [results, pendingVote, user]);
+
+  const votes = useMemo(() => {
+    const indexed = results?.votes || {};
+    return pendingVote && user ? { ...indexed, [user]: pendingVote } : indexed;
+  }, [results, pendingVote, user]);
+
+  const tally = useMemo(
+    () => (poll ? countPollVotes(poll, votes) : { counts: [], totalVoters: 0 }),
+    [poll, votes]
+  );
+
+  const userChoices = user ? votes[user] || null : null;
+
+  const vote = useCallback(async (choices: number[]) => {
+    if (!poll) return;
+    if (!user) throw new Error('Please log in to vote');
+    if (!isValidPollVote(poll, choices)) throw new Error('Invalid choices');
+    if (!results?.trxId) throw new Error('This poll is still being indexed, try again in a minute');
+
+    setIsVoting(true);
+    try {
+      const result = await aioha.customJSON(
+        KeyTypes.Posting,
+        POLLS_CUSTOM_JSON_ID,
+        buildPollVoteJson(results.trxId, choices),
+        'Poll vote'
+      );
+      if (!result.success) throw new Error(result.error || 'Failed to cast vote');
+      setPendingVote(choices);
+    } finally {
+      setIsVoting(false);
+    }
+  }, [aioha, user, poll, results]);
+
+  return {
+    results,
+    counts: tally.counts,
+    totalVoters: tally.totalVoters,
+    userChoices,
+    isLoading,
+    isVoting,
+    error,
+    refresh,
+    vote,
+  };
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const BATCH_DELAY = 50; // ms, lets every snap of a page join the same request
+const MAX_BATCH_SIZE = 50; // Snaps the quotes route counts in one request
+
+interface QuoteCountRequest {
+  target: { author: string; permlink: string; since: string };
+  resolvers: ((count: number) => void)[];
+}
+
+let pendingRequests = new Map<string, QuoteCountRequest>();
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadBatch(requests: QuoteCountRequest[]) {
+  let counts: Record<string, number> = {};
+  try {
+    const response = await fetch('/api/snaps/quotes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ snaps: requests.map(({ target }) => target) }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load quotes');
+    counts = data.counts;
+  } catch (error) {
+    console.error('Error loading quote counts:', error);
+  }
+
+  requests.forEach(({ target, resolvers }) => {
+    resolvers.forEach((resolve) => resolve(counts[`${target.author}/${target.permlink}`] || 0));
+  });
+}
+
+function flushQuoteCounts() {
+  const requests = Array.from(pendingRequests.values());
+  pendingRequests = new Map();
+  batchTimer = null;
+
+  for (let i = 0; i < requests.length; i += MAX_BATCH_SIZE) {
+    loadBatch(requests.slice(i, i + MAX_BATCH_SIZE));
+  }
+}
+
+/**
+ * Queue a snap for the next batch, the snaps rendered together are counted in one request
+ */
+function loadQuoteCount(author: string, permlink: string, since: string): Promise<number> {
+  return new Promise((resolve) => {
+    const key = `${author}/${permlink}`;
+    const request = pendingRequests.get(key);
+    if (request) {
+      request.resolvers.push(resolve);
+    } else {
+      pendingRequests.set(key, { target: { author, permlink, since }, resolvers: [resolve] });
+    }
+    if (!batchTimer) batchTimer = setTimeout(flushQuoteCounts, BATCH_DELAY);
+  });
+}
+
+/**
+ * Number of snaps quoting a snap, quotes posted from this page are counted right away
+ * @param created - Creation date of the snap, bounds the search for quotes
+ */
+export const useQuoteCount = (author: string, permlink: string, created: string) => {
+  const [count, setCount] = useState(0);
+  const [localQuotes, setLocalQuotes] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadQuoteCount(author, permlink, created).then((quotes) => {
+      if (!cancelled) setCount(quotes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [author, permlink, created]);
+
+  const addQuote = useCallback(() => setLocalQuotes((quotes) => quotes + 1), []);
+
+  return { count: count + localQuotes, addQuote };
+};
@@ -0,0 +1,136 @@
+import { useCallback, useState } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { KeyTypes } from '@aioha/aioha';
+import type { Operation } from '@hiveio/dhive';
+import {
+  SCHEDULER_AUTH_HEADERS,
+  SCHEDULER_AUTH_MAX_AGE,
+  ScheduledPost,
+  ScheduledPostChanges,
+  buildSchedulerAuthMessage,
+} from '@/lib/utils/scheduledPosts';
+
+const AUTH_STORAGE_KEY = 'schedulerAuth';
+const AUTH_REFRESH_MARGIN = 5 * 60 * 1000; // Sign again a bit before the server rejects the signature
+
+interface SchedulerAuth {
+  username: string;
+  timestamp: number;
+  signature: string;
+}
+
+function readStoredAuth(username: string): SchedulerAuth | null {
+  try {
+    const stored = sessionStorage.getItem(AUTH_STORAGE_KEY);
+    const auth: SchedulerAuth | null = stored ? JSON.parse(stored) : null;
+    if (!auth || auth.username !== username) return null;
+    if (Date.now() - auth.timestamp > SCHEDULER_AUTH_MAX_AGE - AUTH_REFRESH_MARGIN) return null;
+    return auth;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scheduled posts of the logged in user. Requests are signed with the posting key once per hour,
+ * so nothing is loaded until `refresh` is called.
+ */
+export const useScheduledPosts = () => {
+  const { aioha, user } = useAioha();
+  const [jobs, setJobs] = useState<ScheduledPost[]>([]);
+  const [appAccount, setAppAccount] = useState<string | null>(null);
+  const [hasAuthority, setHasAuthority] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAuthHeaders = useCallback(async (): Promise<Record<string, string>> => {
+    if (!user) throw new Error('Please log in to schedule posts');
+
+    let auth = readStoredAuth(user);
+    if (!auth) {
+      const timestamp = Date.now();
+      const result = await aioha.signMessage(buildSchedulerAuthMessage(user, timestamp), KeyTypes.Posting);
+      if (!result.success) throw new Error(result.error || 'Signature rejected');
+      auth = { username: user, timestamp, signature: result.result };
+      sessionStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(auth));
+    }
+
+    return {
+      [SCHEDULER_AUTH_HEADERS.username]: auth.username,
+      [SCHEDULER_AUTH_HEADERS.timestamp]: String(auth.timestamp),
+      [SCHEDULER_AUTH_HEADERS.signature]: auth.signature,
+    };
+  }, [aioha, user]);
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()), ...init.headers },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 401) sessionStorage.removeItem(AUTH_STORAGE_KEY);
+    if (!response.ok) throw new Error(data.error || `Scheduler request failed (${response.status})`);
+    return data;
+  }, [getAuthHeaders]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await request('/api/scheduler');
+      setJobs(data.jobs);
+      setAppAccount(data.account);
+      setHasAuthority(data.hasAuthority);
+    } catch (err: any) {
+      setError(err.message || 'Error loading scheduled posts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [request]);
+
+  const schedulePost = useCallback(async (operations: Operation[], publishAt: string) => {
+    const data = await request('/api/scheduler', {
+      method: 'POST',
+      body: JSON.stringify({ operations, publishAt }),
+    });
+    setJobs((prev) => [...prev, data.job].sort((a, b) => a.publishAt.localeCompare(b.publishAt)));
+    return data.job as ScheduledPost;
+  }, [request]);
+
+  const updatePost = useCallback(async (id: string, changes: ScheduledPostChanges) => {
+    const data = await request(`/api/scheduler/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+    setJobs((prev) => prev.map((job) => (job.id === id ? data.job : job)).sort((a, b) => a.publishAt.localeCompare(b.publishAt)));
+    return data.job as ScheduledPost;
+  }, [request]);
+
+  const cancelPost = useCallback(async (id: string) => {
+    const data = await request(`/api/scheduler/${id}`, { method: 'DELETE' });
+    setJobs((prev) => prev.map((job) => (job.id === id ? data.job : job)));
+  }, [request]);
+
+  /**
+   * Let the app account broadcast posts for the user, needs the active key
+   */
+  const grantAuthority = useCallback(async () => {
+    if (!appAccount) return;
+    const result = await aioha.addAccountAuthority(appAccount, KeyTypes.Posting, 1);
+    if (!result.success) throw new Error(result.error || 'Failed to grant posting authority');
+    setHasAuthority(true);
+  }, [aioha, appAccount]);
+
+  return {
+    jobs,
+    appAccount,
+    hasAuthority,
+    isLoading,
+    error,
+    refresh,
+    schedulePost,
+    updatePost,
+    cancelPost,
+    grantAuthority,
+  };
+};
@@ -1,24 +1,66 @@
 import HiveClient from '@/lib/hive/hiveclient';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { ExtendedComment } from './useComments';
-import { getFollowing } from '@/lib/hive/client-functions';
+import { getAllFollowing, onFollowListInvalidated } from '@/lib/hive/follow-list';
+import type { SnapsPage, SnapsQuery } from '@/lib/hive/snaps-indexer';
+import { parseHiveDate, rankSnaps, RANK_WINDOWS, RankWindow } from '@/lib/utils/snapRanking';
+import { applyContentFilters } from '@/lib/utils/contentFilters';
+import { useContentFilters } from './useContentFilters';
+import { clearFeedSnapshot, getFeedKey, getFeedSnapshot, saveFeedScrollTop, saveFeedSnapshot } from '@/lib/utils/feedStore';
 
 interface lastContainerInfo {
   permlink: string;
   date: string;
 }
 
-export type SnapFilterType = 'community' | 'all' | 'following';
+interface SnapsBatch {
+  snaps: ExtendedComment[];
+  cursor: lastContainerInfo | null; // Where the next batch starts
+  hasMore: boolean; // False once the oldest container was read, a short batch alone doesn't end the feed
+}
+
+export type SnapFilterType = 'community' | 'all' | 'following' | 'hashtag' | 'trending' | 'hot' | 'list' | 'tags';
 
 interface UseSnapsProps {
   filterType?: SnapFilterType;
   username?: string; // Required when filterType is 'following'
+  hashtag?: string; // Required when filterType is 'hashtag'
+  rankWindow?: RankWindow; // Time window for 'trending' and 'hot'
+  listAccounts?: string[]; // Required when filterType is 'list'
+  followedTags?: string[]; // Required when filterType is 'tags'
+}
+
+// Safety limit on the pages crawled to fill a ranking window
+const MAX_RANKING_PAGES = 30;
+// Pages loaded in a row without scrolling when content filters hide most snaps
+const MAX_AUTO_LOADS = 5;
+
+/**
+ * Key of the saved snapshot of a feed, the same for the feed itself and for clearing it
+ */
+function getSnapsFeedKey(filterType: SnapFilterType, username?: string, hashtag?: string, rankWindow?: RankWindow | null, listKey = '', tagsKey = ''): string {
+  const isRanked = filterType === 'trending' || filterType === 'hot';
+  return getFeedKey(filterType, username, hashtag, isRanked ? rankWindow : null, listKey, tagsKey);
 }
 
-export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps = {}) => {
+export const useSnaps = ({ filterType = 'community', username, hashtag, rankWindow = '24h', listAccounts, followedTags }: UseSnapsProps = {}) => {
   const lastContainerRef = useRef<lastContainerInfo | null>(null); // Use useRef for last container
   const fetchedPermlinksRef = useRef<Set<string>>(new Set()); // Track fetched permlinks
   const followingListRef = useRef<string[]>([]); // Cache following list
+  const listAccountsRef = useRef<string[]>(listAccounts || []); // Accounts of the active custom list
+  const followedTagsRef = useRef<string[]>(followedTags || []);
+  const indexUnavailableRef = useRef(false); // Set once /api/snaps fails, use direct RPC from then on
+  const rankedSnapsRef = useRef<ExtendedComment[] | null>(null); // Whole ranked window, paginated locally
+  const restoredPageRef = useRef<number | null>(null); // Page of a restored feed, its snaps are already loaded
+  const autoLoadsRef = useRef(0);
+
+  const isRanked = filterType === 'trending' || filterType === 'hot';
+  // Changes whenever the accounts of the active custom list change
+  const listKey = filterType === 'list' ? (listAccounts || []).join(',') : '';
+  listAccountsRef.current = listAccounts || [];
+  const tagsKey = filterType === 'tags' ? (followedTags || []).join(',') : '';
+  followedTagsRef.current = followedTags || [];
+  const feedKey = getSnapsFeedKey(filterType, username, hashtag, rankWindow, listKey, tagsKey);
 
   const [currentPage, setCurrentPage] = useState(1);
   const [comments, setComments] = useState<ExtendedComment[]>([]);
@@ -26,33 +68,52 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
   const [hasMore, setHasMore] = useState(true);
   const [followingListLoaded, setFollowingListLoaded] = useState(false);
   const [fetchTrigger, setFetchTrigger] = useState(0);
+  const [followListVersion, setFollowListVersion] = useState(0); // Bumped when the follow list changes
+  const [restoredScroll, setRestoredScroll] = useState<{ top: number } | null>(null); // Set when a feed is restored
 
   const pageMinSize = 10;
+
+  const { rules: contentFilterRules } = useContentFilters();
+  const { items: visibleComments, filteredCount } = useMemo(
+    () => applyContentFilters(comments, contentFilterRules),
+    [comments, contentFilterRules]
+  );
   
-  // Load following list once when needed
+  // Load the whole following list when needed, cached with a TTL by the follow-list loader
   useEffect(() => {
     const loadFollowingList = async () => {
       if (filterType === 'following' && username) {
-        if (followingListRef.current.length === 0) {
-          setFollowingListLoaded(false);
-          try {
-            const following = await getFollowing(username, '', 1000);
-            followingListRef.current = following;
-            setFollowingListLoaded(true);
-            setFetchTrigger(prev => prev + 1); // Trigger fetch once list is loaded
-          } catch (error) {
-            console.error('Error loading following list:', error);
-            setFollowingListLoaded(true); // Set to true even on error to prevent infinite loading
-            setFetchTrigger(prev => prev + 1); // Trigger fetch anyway
-          }
-        } else {
-          setFollowingListLoaded(true);
-          setFetchTrigger(prev => prev + 1); // Trigger fetch since list already loaded
+        setFollowingListLoaded(false);
+        try {
+          followingListRef.current = await getAllFollowing(username);
+        } catch (error) {
+          console.error('Error loading following list:', error);
         }
+        setFollowingListLoaded(true); // Set to true even on error to prevent infinite loading
+        setFetchTrigger(prev => prev + 1); // Trigger fetch once list is loaded
       }
     };
     loadFollowingList();
-  }, [filterType, username]);
+  }, [filterType, username, followListVersion]);
+
+  // Start the following feed over after a follow or unfollow
+  useEffect(() => {
+    return onFollowListInvalidated((invalidatedUser) => {
+      if (invalidatedUser !== username) return;
+      followingListRef.current = [];
+      clearFeedSnapshot(getSnapsFeedKey('following', username, hashtag));
+
+      if (filterType === 'following') {
+        setFollowingListLoaded(false); // Hold the fetch until the new list is loaded
+        lastContainerRef.current = null;
+        restoredPageRef.current = null;
+        setComments([]);
+        setHasMore(true);
+        setCurrentPage(1);
+      }
+      setFollowListVersion((prev) => prev + 1);
+    });
+  }, [filterType, username, hashtag]);
 
   // Filter comments by the target tag
   function filterCommentsByTag(comments: ExtendedComment[], targetTag: string): ExtendedComment[] {
@@ -71,6 +132,23 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
     });
   }
 
+  // Filter comments by hashtag (case-insensitive, hashtags keep the author's casing)
+  function filterCommentsByHashtag(comments: ExtendedComment[], targetHashtag: string): ExtendedComment[] {
+    const normalizedHashtag = targetHashtag.toLowerCase();
+    return comments.filter((commentItem) => {
+      try {
+        if (!commentItem.json_metadata) {
+          return false;
+        }
+        const metadata = JSON.parse(commentItem.json_metadata);
+        const tags: string[] = metadata.tags || [];
+        return tags.some((tag) => String(tag).toLowerCase() === normalizedHashtag);
+      } catch (error) {
+        return false; // Exclude comments with invalid JSON
+      }
+    });
+  }
+
   // Filter comments by following
   function filterCommentsByFollowing(comments: ExtendedComment[]): ExtendedComment[] {
     return comments.filter((commentItem) => 
@@ -78,16 +156,87 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
     );
   }
 
+  // Filter comments by any of the followed tags
+  function filterCommentsByFollowedTags(comments: ExtendedComment[]): ExtendedComment[] {
+    return comments.filter((commentItem) =>
+      followedTagsRef.current.some((tag) => filterCommentsByHashtag([commentItem], tag).length > 0)
+    );
+  }
+
+  // Filter comments by the accounts of the active custom list
+  function filterCommentsByList(comments: ExtendedComment[]): ExtendedComment[] {
+    return comments.filter((commentItem) =>
+      listAccountsRef.current.includes(commentItem.author)
+    );
+  }
+
+  // Build the index query for the active filter
+  function getIndexQuery(): SnapsQuery {
+    if (filterType === 'community' || isRanked) {
+      return { tag: process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || '' };
+    } else if (filterType === 'following') {
+      return { authors: followingListRef.current };
+    } else if (filterType === 'hashtag') {
+      return { hashtag: hashtag || '' };
+    } else if (filterType === 'list') {
+      return { authors: listAccountsRef.current };
+    } else if (filterType === 'tags') {
+      return { hashtags: followedTagsRef.current };
+    }
+    return {};
+  }
+
+  // Fetch the next page from the server-side snaps index
+  async function getSnapsFromIndex(start: lastContainerInfo | null): Promise<SnapsBatch> {
+    const response = await fetch('/api/snaps', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...getIndexQuery(),
+        cursor: start,
+        limit: pageMinSize,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Snaps index responded with ${response.status}`);
+    }
+
+    const page = (await response.json()) as SnapsPage;
+    // Same cursor shape as the RPC path, so a fallback continues where the index stopped
+    return { snaps: page.snaps, cursor: page.cursor || start, hasMore: page.hasMore };
+  }
+
+  // Use the snaps index, falling back to the direct RPC crawl when it is unavailable
+  async function fetchSnapsBatch(start: lastContainerInfo | null): Promise<SnapsBatch> {
+    if (!indexUnavailableRef.current) {
+      try {
+        return await getSnapsFromIndex(start);
+      } catch (error) {
+        console.warn('Snaps index unavailable, falling back to RPC:', error);
+        indexUnavailableRef.current = true;
+      }
+    }
+    return getMoreSnaps(start);
+  }
+
+  // Fetch the batch after the last container and move the cursor past it
+  async function getSnapsPage(): Promise<SnapsBatch> {
+    const batch = await fetchSnapsBatch(lastContainerRef.current);
+    lastContainerRef.current = batch.cursor;
+    return batch;
+  }
+
   // Fetch comments with a minimum size
-  async function getMoreSnaps(): Promise<ExtendedComment[]> {
+  async function getMoreSnaps(start: lastContainerInfo | null): Promise<SnapsBatch> {
     const tag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || ''
     const author = "peak.snaps";
     const limit = 3;
     const allFilteredComments: ExtendedComment[] = [];
 
     let hasMoreData = true; // To track if there are more containers to fetch
-    let permlink = lastContainerRef.current?.permlink || "";
-    let date = lastContainerRef.current?.date || new Date().toISOString();
+    let permlink = start?.permlink || "";
+    let date = start?.date || new Date().toISOString();
 
     while (allFilteredComments.length < pageMinSize && hasMoreData) {
 
@@ -112,12 +261,18 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
         let filteredComments: ExtendedComment[] = [];
         
         // Apply appropriate filter based on filterType
-        if (filterType === 'community') {
+        if (filterType === 'community' || isRanked) {
           filteredComments = filterCommentsByTag(comments, tag);
         } else if (filterType === 'all') {
           filteredComments = comments;
         } else if (filterType === 'following') {
           filteredComments = filterCommentsByFollowing(comments);
+        } else if (filterType === 'hashtag') {
+          filteredComments = filterCommentsByHashtag(comments, hashtag || '');
+        } else if (filterType === 'list') {
+          filteredComments = filterCommentsByList(comments);
+        } else if (filterType === 'tags') {
+          filteredComments = filterCommentsByFollowedTags(comments);
         }
 
         allFilteredComments.push(...filteredComments);
@@ -131,21 +286,95 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
       }
     }
 
-    // Update the lastContainerRef state for the next API call
-    lastContainerRef.current = { permlink, date };
+    // Container info for the next API call
+    return { snaps: allFilteredComments, cursor: { permlink, date }, hasMore: hasMoreData };
+  }
 
-    return allFilteredComments;
+  // Crawl containers back to the start of the window, then rank everything at once
+  async function getRankedSnaps(): Promise<ExtendedComment[]> {
+    const cutoff = Date.now() - RANK_WINDOWS[rankWindow];
+    const pool: ExtendedComment[] = [];
+
+    let cursor: lastContainerInfo | null = null;
+
+    for (let page = 0; page < MAX_RANKING_PAGES; page++) {
+      const batch = await fetchSnapsBatch(cursor);
+      pool.push(...batch.snaps);
+
+      const next = batch.cursor;
+      if (!batch.hasMore || !next || next.permlink === cursor?.permlink || parseHiveDate(next.date) < cutoff) {
+        break;
+      }
+      cursor = next;
+    }
+
+    const uniqueSnaps = Array.from(new Map(pool.map((snap) => [snap.permlink, snap])).values());
+    return rankSnaps(uniqueSnaps, filterType as 'trending' | 'hot', rankWindow);
+  }
+
+  // Bring a restored feed up to date without touching what is on screen
+  async function refreshQuietly() {
+    try {
+      if (isRanked) {
+        const ranked = await getRankedSnaps();
+        rankedSnapsRef.current = ranked;
+        setComments((prevPosts) => ranked.slice(0, Math.max(prevPosts.length, pageMinSize)));
+        return;
+      }
+
+      const latest = await fetchSnapsBatch(null);
+      setComments((prevPosts) => {
+        const latestByPermlink = new Map(latest.snaps.map((snap) => [snap.permlink, snap]));
+        // Update votes and replies of the snaps already shown, add the new ones on top
+        const updated = prevPosts.map((post) => latestByPermlink.get(post.permlink) || post);
+        const existingPermlinks = new Set(prevPosts.map((post) => post.permlink));
+        const newSnaps = latest.snaps.filter((snap) => !existingPermlinks.has(snap.permlink));
+        return [...newSnaps, ...updated];
+      });
+    } catch (err) {
+      console.error('Error refreshing restored feed:', err);
+    }
   }
 
-  // Reset when filter changes
+  // Reset when filter changes, or restore the feed as it was left during this session
   useEffect(() => {
-    lastContainerRef.current = null;
     fetchedPermlinksRef.current.clear();
+
+    const snapshot = getFeedSnapshot(feedKey);
+    if (snapshot) {
+      lastContainerRef.current = snapshot.cursor;
+      rankedSnapsRef.current = snapshot.rankedSnaps;
+      setComments(snapshot.snaps);
+      setHasMore(snapshot.hasMore);
+      restoredPageRef.current = snapshot.currentPage;
+      setCurrentPage(snapshot.currentPage);
+      setRestoredScroll({ top: snapshot.scrollTop });
+      refreshQuietly();
+      return;
+    }
+
+    lastContainerRef.current = null;
+    rankedSnapsRef.current = null;
+    restoredPageRef.current = null;
     setComments([]);
     setHasMore(true);
     setCurrentPage(1);
     setFetchTrigger(prev => prev + 1); // Trigger a new fetch
-  }, [filterType, username]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterType, username, hashtag, rankWindow, listKey, tagsKey]);
+
+  // Keep the session snapshot of this feed up to date
+  useEffect(() => {
+    if (!comments.length) return; // Nothing worth restoring, and a reset must not overwrite the snapshot
+    saveFeedSnapshot(feedKey, {
+      snaps: comments,
+      cursor: lastContainerRef.current,
+      hasMore,
+      currentPage,
+      rankedSnaps: rankedSnapsRef.current,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [comments, hasMore, currentPage]);
 
   // Fetch posts when `currentPage` changes (or when followingListLoaded changes for following filter)
   useEffect(() => {
@@ -156,12 +385,36 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
       }
     }
 
+    // Runs before the restored page number is applied, and once for that page, fetch neither
+    const restoredPage = restoredPageRef.current;
+    if (restoredPage !== null) {
+      if (currentPage < restoredPage) return;
+      restoredPageRef.current = null;
+      if (currentPage === restoredPage) return; // The restored feed already holds this page
+    }
+
+    const fetchRankedPosts = async () => {
+      setIsLoading(true);
+      try {
+        if (!rankedSnapsRef.current) {
+          rankedSnapsRef.current = await getRankedSnaps();
+        }
+        const visibleCount = currentPage * pageMinSize;
+        setComments(rankedSnapsRef.current.slice(0, visibleCount));
+        setHasMore(rankedSnapsRef.current.length > visibleCount);
+      } catch (err) {
+        console.error('Error ranking posts:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
     const fetchPosts = async () => {
       setIsLoading(true);
       try {
-        const newSnaps = await getMoreSnaps();
+        const { snaps: newSnaps, hasMore: hasMorePages } = await getSnapsPage();
 
-        if (newSnaps.length < pageMinSize) {
+        if (!hasMorePages) {
           setHasMore(false); // No more items to fetch
         }
 
@@ -178,16 +431,33 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
       }
     };
 
-    fetchPosts();
+    if (isRanked) {
+      fetchRankedPosts();
+    } else {
+      fetchPosts();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, fetchTrigger]);
 
+  // Whole pages can be filtered out, keep loading until the list is long enough to scroll
+  useEffect(() => {
+    if (isLoading || !hasMore || !filteredCount) return;
+    if (visibleComments.length >= (currentPage * pageMinSize) / 2) {
+      autoLoadsRef.current = 0;
+      return;
+    }
+    if (autoLoadsRef.current >= MAX_AUTO_LOADS) return;
+    autoLoadsRef.current += 1;
+    setCurrentPage((prevPage) => prevPage + 1);
+  }, [isLoading, hasMore, filteredCount, visibleComments.length, currentPage]);
+
   // Load the next page with throttling
   const loadNextPage = (() => {
     let isThrottled = false;
     return () => {
       if (!isLoading && hasMore && !isThrottled) {
         isThrottled = true;
+        autoLoadsRef.current = 0;
         setCurrentPage((prevPage) => prevPage + 1);
         // Throttle for 1 second
         setTimeout(() => {
@@ -197,9 +467,41 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
     };
   })();
 
+  // Check a snap against the active filter, used for snaps arriving from the live feed
+  const matchesFilter = (snap: ExtendedComment): boolean => {
+    if (filterType === 'community' || isRanked) {
+      return filterCommentsByTag([snap], process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || '').length > 0;
+    } else if (filterType === 'following') {
+      return filterCommentsByFollowing([snap]).length > 0;
+    } else if (filterType === 'hashtag') {
+      return filterCommentsByHashtag([snap], hashtag || '').length > 0;
+    } else if (filterType === 'list') {
+      return filterCommentsByList([snap]).length > 0;
+    } else if (filterType === 'tags') {
+      return filterCommentsByFollowedTags([snap]).length > 0;
+    }
+    return true;
+  };
+
+  // Same check plus the user's content filters, for snaps that were not loaded through the feed
+  const isVisibleSnap = (snap: ExtendedComment): boolean =>
+    matchesFilter(snap) && applyContentFilters([snap], contentFilterRules).items.length > 0;
+
+  // Add snaps on top of the list without reloading it
+  const prependSnaps = (newSnaps: ExtendedComment[]) => {
+    setComments((prevPosts) => {
+      const existingPermlinks = new Set(prevPosts.map((post) => post.permlink));
+      const uniqueSnaps = newSnaps.filter((snap) => !existingPermlinks.has(snap.permlink));
+      return [...uniqueSnaps, ...prevPosts];
+    });
+  };
+
   // Refresh function to refetch data (F5 equivalent)
   const refresh = () => {
+    clearFeedSnapshot(feedKey);
     lastContainerRef.current = null;
+    indexUnavailableRef.current = false; // Give the index another chance
+    rankedSnapsRef.current = null;
     fetchedPermlinksRef.current.clear();
     setComments([]);
     setHasMore(true);
@@ -207,5 +509,21 @@ export const useSnaps = ({ filterType = 'community', username }: UseSnapsProps =
     setFetchTrigger(prev => prev + 1);
   };
 
-  return { comments, isLoading, loadNextPage, hasMore, currentPage, refresh };
+  // Scroll offset of this feed, saved by the list and handed back through `restoredScroll`
+  const saveScrollTop = useCallback((scrollTop: number) => saveFeedScrollTop(feedKey, scrollTop), [feedKey]);
+
+  return {
+    comments: visibleComments,
+    filteredCount,
+    isLoading,
+    loadNextPage,
+    hasMore,
+    currentPage,
+    refresh,
+    isRanked,
+    matchesFilter: isVisibleSnap,
+    prependSnaps,
+    saveScrollTop,
+    restoredScroll,
+  };
 };
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { getCommunityInfo, getSubscribedCommunities } from '@/lib/hive/client-functions';
+
+export type CommunityOption = { name: string; title: string };
+
+const siteCommunity = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG || 'blog';
+
+async function loadSiteCommunity(): Promise<CommunityOption> {
+  try {
+    const community = await getCommunityInfo(siteCommunity);
+    return { name: siteCommunity, title: community?.title || siteCommunity };
+  } catch {
+    return { name: siteCommunity, title: siteCommunity }; // A plain tag when the site has no community
+  }
+}
+
+/**
+ * Communities a user can post to: the site community first, then their subscriptions
+ */
+export const useSubscribedCommunities = (username?: string | null) => {
+  const [communities, setCommunities] = useState<CommunityOption[]>([{ name: siteCommunity, title: siteCommunity }]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([loadSiteCommunity(), username ? getSubscribedCommunities(username) : Promise.resolve([])])
+      .then(([site, subscriptions]) => {
+        if (cancelled) return;
+        const subscribed = subscriptions.find(({ name }) => name === siteCommunity);
+        setCommunities([subscribed || site, ...subscriptions.filter(({ name }) => name !== siteCommunity)]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  return { communities, isLoading, siteCommunity };
+};
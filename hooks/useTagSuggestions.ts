@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAioha } from '@aioha/react-ui';
+import { getRecentTags, getTrendingTopics } from '@/lib/hive/client-functions';
+import { TagSuggestion, isValidTag, rankTagSuggestions } from '@/lib/utils/tagUtils';
+import type { AutocompleteItem } from './useTextareaAutocomplete';
+
+const TRENDING_TTL = 10 * 60 * 1000; // 10 minutes
+
+type TrendingTopic = { tag: string; label?: string };
+
+// Shared by every composer on the page
+let trendingCache: { topics: Promise<TrendingTopic[]>; expiresAt: number } | null = null;
+
+function loadTrendingTopics(): Promise<TrendingTopic[]> {
+  if (!trendingCache || trendingCache.expiresAt < Date.now()) {
+    trendingCache = { topics: getTrendingTopics(), expiresAt: Date.now() + TRENDING_TTL };
+  }
+  return trendingCache.topics;
+}
+
+/**
+ * Tags to suggest for a partly typed tag, from the user's recent tags and the trending topics
+ * @param query - Normalised typed tag, nothing is suggested when null
+ * @param exclude - Tags already added
+ */
+export const useTagSuggestions = (query: string | null, exclude: string[] = []) => {
+  const { user } = useAioha();
+  const [recent, setRecent] = useState<string[]>([]);
+  const [trending, setTrending] = useState<TrendingTopic[]>([]);
+  const loadedUserRef = useRef<string | null>(null);
+  const isActive = query !== null;
+
+  // Loaded on the first tag typed
+  useEffect(() => {
+    if (!isActive || loadedUserRef.current === (user || '')) return;
+    loadedUserRef.current = user || '';
+
+    Promise.all([loadTrendingTopics(), user ? getRecentTags(user) : Promise.resolve([])]).then(([topics, tags]) => {
+      setTrending(topics.filter(({ tag }) => isValidTag(tag)));
+      setRecent(tags.filter(isValidTag));
+    });
+  }, [isActive, user]);
+
+  const excludeKey = exclude.join(',');
+  const suggestions = useMemo<TagSuggestion[]>(
+    () => (query === null ? [] : rankTagSuggestions(query, { recent, trending }, excludeKey ? excludeKey.split(',') : [])),
+    [query, recent, trending, excludeKey]
+  );
+
+  const items = useMemo<AutocompleteItem[]>(
+    () => suggestions.map(({ tag, label, source }) => ({
+      value: tag,
+      label: `#${tag}`,
+      detail: label || (source === 'recent' ? 'Recent' : 'Trending'),
+    })),
+    [suggestions]
+  );
+
+  return { suggestions, items };
+};
@@ -0,0 +1,124 @@
+import { KeyboardEvent, RefObject, useCallback, useEffect, useState } from 'react';
+import { getCaretCoordinates, insertAtCursor } from '@/lib/utils/composeUtils';
+
+const CARET_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'];
+
+/**
+ * Word being completed, found right before the caret
+ */
+export interface AutocompleteMatch {
+  query: string; // Typed part without the trigger character
+  start: number; // Position of the trigger character
+}
+
+/**
+ * Suggestion as shown in the popup
+ */
+export interface AutocompleteItem {
+  value: string;
+  label: string;
+  detail?: string; // Shown dimmed on the right, like where the suggestion comes from
+  avatar?: string;
+}
+
+/**
+ * Follow the word typed at the caret of a textarea and replace it with the chosen completion
+ * @param textareaRef - The textarea being edited
+ * @param value - Current text of the textarea
+ * @param setValue - Update the text, used to insert the completion
+ * @param getMatch - Find the word to complete before the caret, like an @mention or a #hashtag
+ */
+export const useTextareaAutocomplete = (
+  textareaRef: RefObject<HTMLTextAreaElement>,
+  value: string,
+  setValue: (value: string) => void,
+  getMatch: (text: string, caret: number) => AutocompleteMatch | null
+) => {
+  const [match, setMatch] = useState<AutocompleteMatch | null>(null);
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  /**
+   * Look for a word to complete at the caret, call it after every change of the text
+   */
+  const updateMatch = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      setMatch(null);
+      return;
+    }
+
+    const next = getMatch(textarea.value, textarea.selectionStart);
+    setMatch(next);
+    if (next) {
+      const caret = getCaretCoordinates(textarea, next.start);
+      setPosition({ top: textarea.offsetTop + caret.top + caret.height, left: textarea.offsetLeft + caret.left });
+    }
+  }, [textareaRef, getMatch]);
+
+  // Typing is followed through onChange, only caret moves are left
+  const handleKeyUp = useCallback((event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (CARET_KEYS.includes(event.key)) updateMatch();
+  }, [updateMatch]);
+
+  const close = useCallback(() => setMatch(null), []);
+
+  /**
+   * Replace the word being typed, trigger character included
+   */
+  const complete = useCallback((text: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !match) return;
+    textarea.setSelectionRange(match.start, textarea.selectionEnd);
+    insertAtCursor(textarea, text, value, setValue);
+    setMatch(null);
+  }, [textareaRef, match, value, setValue]);
+
+  return { match, position, updateMatch, handleKeyUp, close, complete };
+};
+
+/**
+ * Keyboard navigation of a suggestion list: arrows move, Enter or Tab pick, Escape closes
+ * @param count - Number of suggestions shown
+ * @param resetKey - The first suggestion is active again when it changes, usually the query
+ */
+export const useSuggestionNavigation = (
+  count: number,
+  onSelect: (index: number) => void,
+  onClose: () => void,
+  resetKey: unknown
+) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [resetKey]);
+
+  /**
+   * @returns true when the key was handled and must not reach the input
+   */
+  const handleKeyDown = useCallback((event: KeyboardEvent<HTMLElement>): boolean => {
+    if (!count) return false;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex((index) => (index + 1) % count);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((index) => (index - 1 + count) % count);
+        break;
+      case 'Enter':
+      case 'Tab':
+        onSelect(Math.min(activeIndex, count - 1));
+        break;
+      case 'Escape':
+        onClose();
+        break;
+      default:
+        return false;
+    }
+    event.preventDefault();
+    return true;
+  }, [count, activeIndex, onSelect, onClose]);
+
+  return { activeIndex, setActiveIndex, handleKeyDown };
+};
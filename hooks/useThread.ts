@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import HiveClient from '@/lib/hive/hiveclient';
+import { ExtendedComment, fetchComments } from './useComments';
+import {
+  DEFAULT_THREAD_DEPTH,
+  ReplyRef,
+  findReply,
+  findReplyPath,
+  getReplyKey,
+  setReplyChildren,
+} from '@/lib/utils/threadUtils';
+
+// Highest reply depth followed when resolving a permalink
+const MAX_PERMALINK_DEPTH = 50;
+
+/**
+ * Reply tree of a conversation, fetched a few levels deep with deeper branches loaded on demand
+ * @param author - Author of the root snap or post
+ * @param permlink - Permlink of the root snap or post
+ * @param maxDepth - Levels fetched at once, for the initial load and for each branch
+ */
+export const useThread = (author: string, permlink: string, maxDepth: number = DEFAULT_THREAD_DEPTH) => {
+  const [replies, setReplies] = useState<ExtendedComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadingBranches, setLoadingBranches] = useState<Set<string>>(new Set());
+  const repliesRef = useRef<ExtendedComment[]>([]);
+  repliesRef.current = replies;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchComments(author, permlink, true, maxDepth)
+      .then((fetched) => {
+        if (!cancelled) setReplies(fetched);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError(err.message ? err.message : 'Error loading conversation');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [author, permlink, maxDepth]);
+
+  const setBranchLoading = useCallback((key: string, loading: boolean) => {
+    setLoadingBranches((prev) => {
+      const next = new Set(prev);
+      if (loading) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  }, []);
+
+  const loadBranch = useCallback(async (parent: ReplyRef) => {
+    const key = getReplyKey(parent);
+    setBranchLoading(key, true);
+    try {
+      const children = await fetchComments(parent.author, parent.permlink, true, maxDepth);
+      setReplies((prev) => setReplyChildren(prev, parent, children));
+      setError(null);
+    } catch (err: any) {
+      // The branch keeps no children, so it can be loaded again
+      setError(err?.message ? err.message : 'Error loading replies');
+    } finally {
+      setBranchLoading(key, false);
+    }
+  }, [maxDepth, setBranchLoading]);
+
+  /**
+   * Load every branch leading to a reply, however deep it is
+   * @returns Keys of the replies from the top of the thread down to the target, empty when it is not part of it
+   */
+  const revealReply = useCallback(async (target: ReplyRef): Promise<string[]> => {
+    // Walk up from the target to the root to know which branches to open
+    const ancestors: ReplyRef[] = [];
+    let current = target;
+    let reachedRoot = false;
+
+    for (let i = 0; i < MAX_PERMALINK_DEPTH; i++) {
+      const content = await HiveClient.database.call('get_content', [current.author, current.permlink]);
+      if (!content?.author || !content.parent_author) break;
+      if (content.parent_author === author && content.parent_permlink === permlink) {
+        reachedRoot = true;
+        break;
+      }
+      current = { author: content.parent_author, permlink: content.parent_permlink };
+      ancestors.unshift(current);
+    }
+    if (!reachedRoot) return [];
+
+    let tree = repliesRef.current;
+    const loaded: { parent: ReplyRef; children: ExtendedComment[] }[] = [];
+    for (const ancestor of ancestors) {
+      const reply = findReply(tree, ancestor);
+      if (!reply) return [];
+      if (reply.replies) continue;
+
+      let children: ExtendedComment[];
+      try {
+        children = await fetchComments(ancestor.author, ancestor.permlink, true, maxDepth);
+      } catch (err: any) {
+        setError(err?.message ? err.message : 'Error loading replies');
+        throw err;
+      }
+      tree = setReplyChildren(tree, ancestor, children);
+      loaded.push({ parent: ancestor, children });
+    }
+
+    if (loaded.length) {
+      setReplies((prev) => loaded.reduce((acc, { parent, children }) => setReplyChildren(acc, parent, children), prev));
+    }
+    return findReplyPath(tree, target);
+  }, [author, permlink, maxDepth]);
+
+  return { replies, isLoading, error, loadingBranches, loadBranch, revealReply };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { UploadQueue, UploadQueueOptions, UploadTask, createUploadQueue, isUploadPending } from '@/lib/utils/uploadQueue';
+
+/**
+ * Upload queue of a composer, uploads still running are aborted when it unmounts
+ * @param options - Read once, when the queue is created
+ */
+export const useUploadQueue = (options?: UploadQueueOptions) => {
+  const queueRef = useRef<UploadQueue | null>(null);
+  if (!queueRef.current) queueRef.current = createUploadQueue(options);
+  const queue = queueRef.current;
+  const [tasks, setTasks] = useState<UploadTask[]>([]);
+
+  useEffect(() => queue.subscribe(setTasks), [queue]);
+  useEffect(() => () => queue.clear(), [queue]);
+
+  const getTask = useCallback((id: string | null | undefined) => (id ? tasks.find((task) => task.id === id) : undefined), [tasks]);
+
+  const status = useMemo(() => ({
+    isUploading: tasks.some(isUploadPending),
+    failedCount: tasks.filter((task) => task.status === 'error').length,
+  }), [tasks]);
+
+  return {
+    tasks,
+    getTask,
+    ...status,
+    add: queue.add,
+    retry: queue.retry,
+    cancel: queue.cancel,
+    clear: queue.clear,
+  };
+};
@@ -0,0 +1,8 @@
+// instrumentation.ts
+export async function register() {
+  // Publish scheduled posts from the Node.js server, not from the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSchedulerWorker } = await import('./lib/hive/post-scheduler');
+    startSchedulerWorker();
+  }
+}
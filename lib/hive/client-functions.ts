@@ -1,11 +1,13 @@
 'use client';
 import { Broadcast, Custom, KeychainKeyTypes, KeychainRequestResponse, KeychainSDK, Login, Post, Transfer, Vote, WitnessVote } from "keychain-sdk";
 import HiveClient from "./hiveclient";
+import { invalidateFollowList } from "./follow-list";
 import crypto from 'crypto';
 import { signImageHash } from "./server-functions";
 import { Account, Discussion, Notifications, PublicKey, PrivateKey, KeyRole } from "@hiveio/dhive";
 import { extractNumber } from "../utils/extractNumber";
 import { ExtendedComment } from "@/hooks/useComments";
+import type { CommentEdit } from "@/lib/utils/editHistory";
 
 interface HiveKeychainResponse {
   success: boolean
@@ -13,6 +15,9 @@ interface HiveKeychainResponse {
 }
 
 const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG;
+const COMMENT_OPERATION_FILTER = 1 << 1; // `comment` in the account history bitmask
+const COMMENT_HISTORY_PAGE_SIZE = 1000;
+const COMMENT_HISTORY_PAGES = 10; // Bounds the scan for very active authors
 
 export async function vote(props: Vote): Promise<KeychainRequestResponse> {
   const keychain = new KeychainSDK(window)
@@ -238,6 +243,7 @@ export async function changeFollow(follower: string, following: string) {
     const custom = await keychain.custom(formParamsAsObject.data as unknown as Custom);
     //const broadcast = await keychain.broadcast(formParamsAsObject.data as unknown as Broadcast);
     console.log('Broadcast success:', custom);
+    invalidateFollowList(follower);
   } catch (error) {
     console.error('Profile update failed:', error);
   }
@@ -273,7 +279,8 @@ export async function witnessVoteWithKeychain(username: string, witness: string)
 export async function uploadAudioTo3Speak(
   audioBlob: Blob,
   duration: number,
-  username: string
+  username: string,
+  signal?: AbortSignal
 ): Promise<{ success: boolean; permlink?: string; cid?: string; playUrl?: string; apiUrl?: string; error?: string }> {
   try {
     const apiKey = process.env.NEXT_PUBLIC_3SPEAK_API_KEY;
@@ -298,6 +305,7 @@ export async function uploadAudioTo3Speak(
         'X-User': username,
       },
       body: formData,
+      signal,
     });
 
     if (!response.ok) {
@@ -352,7 +360,8 @@ export function getFileSignature (file: File): Promise<string> {
   });
 }
 
-export async function uploadImage(file: File, signature: string, index?: number, setUploadProgress?: React.Dispatch<React.SetStateAction<number[]>>): Promise<string> {
+export async function uploadImage(file: File, signature: string, options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}): Promise<string> {
+  const { onProgress, signal } = options;
   const signatureUser = process.env.NEXT_PUBLIC_HIVE_USER;
   const formData = new FormData();
   formData.append("file", file, file.name);
@@ -361,19 +370,25 @@ export async function uploadImage(file: File, signature: string, index?: number,
     const xhr = new XMLHttpRequest();
     xhr.open('POST', `https://images.hive.blog/${signatureUser}/${signature}`, true);
 
-    if (index !== undefined && setUploadProgress) {
+    if (onProgress) {
       xhr.upload.onprogress = (event) => {
         if (event.lengthComputable) {
-          const progress = (event.loaded / event.total) * 100;
-          setUploadProgress((prevProgress: number[]) => {
-            const updatedProgress = [...prevProgress];
-            updatedProgress[index] = progress;
-            return updatedProgress;
-          });
+          onProgress((event.loaded / event.total) * 100);
         }
       }
     }
 
+    if (signal) {
+      if (signal.aborted) {
+        reject(new Error('Upload cancelled'));
+        return;
+      }
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+    xhr.onabort = () => {
+      reject(new Error('Upload cancelled'));
+    };
+
     xhr.onload = () => {
       if (xhr.status === 200) {
         try {
@@ -579,6 +594,64 @@ export async function getCommunityMutedAccounts(community: string): Promise<stri
   }
 }
 
+/**
+ * Get the accounts muted by a user (follow_api `ignore` entries)
+ * @param username - The user whose mute list to load
+ * @returns Promise<string[]> - Array of muted account usernames
+ */
+export async function getIgnoredAccounts(username: string): Promise<string[]> {
+  const pageSize = 1000;
+  const ignored: string[] = [];
+  let start = '';
+
+  try {
+    while (true) {
+      const result = await HiveClient.database.call('get_following', [
+        username,
+        start,
+        'ignore',
+        pageSize
+      ]);
+      // Every page after the first starts with the last account of the previous one
+      const page = start ? result.slice(1) : result;
+      ignored.push(...page.map((item: any) => item.following).filter(Boolean));
+
+      if (result.length < pageSize) break;
+      start = result[result.length - 1].following;
+    }
+    return ignored;
+  } catch (error) {
+    console.error('Error fetching ignored accounts:', error);
+    return ignored;
+  }
+}
+
+/**
+ * Get a follow list from the Bridge API (blacklists and muted lists, and their subscriptions)
+ * @param observer - The account owning the list
+ * @param followType - 'blacklisted', 'follow_blacklist', 'muted' or 'follow_muted'
+ * @returns Promise<string[]> - Array of account usernames in the list
+ */
+export async function getBridgeFollowList(
+  observer: string,
+  followType: 'blacklisted' | 'follow_blacklist' | 'muted' | 'follow_muted'
+): Promise<string[]> {
+  try {
+    const result = await HiveClient.call('bridge', 'get_follow_list', {
+      observer,
+      follow_type: followType
+    });
+
+    if (result && Array.isArray(result)) {
+      return result.map((item: any) => item.name).filter(Boolean);
+    }
+    return [];
+  } catch (error) {
+    console.error(`Error fetching ${followType} list:`, error);
+    return [];
+  }
+}
+
 /**
  * Set user relationship (follow, mute, blacklist, or unfollow) using Keychain
  * @param follower - The username performing the action
@@ -616,6 +689,7 @@ export async function setUserRelationship(
     
     if (result.success) {
       console.log('Relationship update success:', result);
+      invalidateFollowList(follower);
       return true;
     }
     return false;
@@ -653,6 +727,41 @@ export async function getFollowing(
   }
 }
 
+/**
+ * Get the posts of the accounts a user follows (their Hive feed) using Bridge API
+ * @param username - The user whose feed to load
+ * @param startAuthor - Optional: author of the last post of the previous page
+ * @param startPermlink - Optional: permlink of the last post of the previous page
+ * @param limit - Optional: number of posts to return (default: 20, max: 20)
+ * @returns Array of posts, including reblogs
+ */
+export async function getFeedPosts(
+  username: string,
+  startAuthor: string = '',
+  startPermlink: string = '',
+  limit: number = 20
+): Promise<Discussion[]> {
+  try {
+    const result = await HiveClient.call('bridge', 'get_account_posts', {
+      sort: 'feed',
+      account: username,
+      start_author: startAuthor || undefined,
+      start_permlink: startPermlink || undefined,
+      limit,
+      observer: username
+    });
+    if (!Array.isArray(result)) return [];
+    // Bridge returns json_metadata parsed, the blog components expect the condenser string
+    return result.map((post: any) => ({
+      ...post,
+      json_metadata: typeof post.json_metadata === 'string' ? post.json_metadata : JSON.stringify(post.json_metadata || {})
+    }));
+  } catch (error) {
+    console.error('Error fetching feed posts:', error);
+    return [];
+  }
+}
+
 /**
  * Get the followers list for a user
  * @param username - The username to get followers list for
@@ -681,6 +790,167 @@ export async function getFollowers(
   }
 }
 
+/**
+ * Find accounts whose name starts with a prefix
+ * @param prefix - Beginning of the account name
+ * @param limit - Optional: number of results to return (default: 10)
+ * @returns Array of matching usernames, in alphabetical order
+ */
+export async function lookupAccounts(prefix: string, limit: number = 10): Promise<string[]> {
+  try {
+    const result: string[] = await HiveClient.database.call('lookup_accounts', [prefix, limit]);
+    // The lookup starts at the prefix and keeps going past the matching names
+    return result.filter((name) => name.startsWith(prefix));
+  } catch (error) {
+    console.error('Error looking up accounts:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the latest subscribers of a community using Bridge API
+ * @param community - The community name (e.g., 'hive-178315')
+ * @param limit - Optional: number of results to return (default: 100, max: 100)
+ * @returns Array of subscriber usernames
+ */
+export async function getCommunitySubscribers(community: string, limit: number = 100): Promise<string[]> {
+  try {
+    const result = await HiveClient.call('bridge', 'list_subscribers', { community, limit });
+    // Each item is [account, role, title, subscribed_at] tuple
+    return Array.isArray(result) ? result.map((item: any) => item[0]).filter(Boolean) : [];
+  } catch (error) {
+    console.error('Error fetching community subscribers:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the communities a user is subscribed to using Bridge API
+ * @param username - The subscribed user
+ * @returns Array of communities with their title, in the order of the subscriptions
+ */
+export async function getSubscribedCommunities(username: string): Promise<{ name: string; title: string }[]> {
+  try {
+    const result = await HiveClient.call('bridge', 'list_all_subscriptions', { account: username });
+    // Each item is [name, title, role, label] tuple
+    return Array.isArray(result) ? result.map((item: any) => ({ name: item[0], title: item[1] || item[0] })) : [];
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the trending topics using Bridge API, mostly communities
+ * @param limit - Optional: number of results to return (default: 50)
+ * @returns Array of tags with the community title when there is one
+ */
+export async function getTrendingTopics(limit: number = 50): Promise<{ tag: string; label?: string }[]> {
+  try {
+    const result = await HiveClient.call('bridge', 'get_trending_topics', { limit });
+    // Each item is [name, title] tuple, the title of a plain tag is the tag itself
+    return Array.isArray(result)
+      ? result.map((item: any) => ({ tag: item[0], label: item[1] && item[1] !== item[0] ? item[1] : undefined }))
+      : [];
+  } catch (error) {
+    console.error('Error fetching trending topics:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the tags a user used lately in posts and comments (snaps included)
+ * @param username - The user whose tags to collect
+ * @param limit - Optional: number of posts to look at on each side (default: 20)
+ * @returns Array of tags, most used first
+ */
+export async function getRecentTags(username: string, limit: number = 20): Promise<string[]> {
+  try {
+    const results = await Promise.all([
+      HiveClient.call('bridge', 'get_account_posts', { sort: 'posts', account: username, limit }),
+      HiveClient.call('bridge', 'get_account_posts', { sort: 'comments', account: username, limit }),
+    ]);
+
+    const counts = new Map<string, number>();
+    results.flat().forEach((post: any) => {
+      const tags = post?.json_metadata?.tags;
+      if (!Array.isArray(tags)) return;
+      tags.forEach((tag: unknown) => {
+        const name = String(tag).toLowerCase();
+        counts.set(name, (counts.get(name) || 0) + 1);
+      });
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+  } catch (error) {
+    console.error('Error fetching recent tags:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the accounts a user recently talked with: who replied to them and who they replied to
+ * @param username - The user whose conversations to look at
+ * @param limit - Optional: number of posts to look at on each side (default: 20)
+ * @returns Array of usernames, most recent first
+ */
+export async function getRecentConversationPartners(username: string, limit: number = 20): Promise<string[]> {
+  try {
+    const [replies, comments] = await Promise.all([
+      HiveClient.call('bridge', 'get_account_posts', { sort: 'replies', account: username, limit }),
+      HiveClient.call('bridge', 'get_account_posts', { sort: 'comments', account: username, limit }),
+    ]);
+
+    const conversations: { account: string; created: string }[] = [
+      ...(Array.isArray(replies) ? replies : []).map((post: any) => ({ account: post.author, created: post.created })),
+      ...(Array.isArray(comments) ? comments : []).map((post: any) => ({ account: post.parent_author, created: post.created })),
+    ];
+
+    const accounts = conversations
+      .sort((a, b) => b.created.localeCompare(a.created))
+      .map((conversation) => conversation.account)
+      .filter((account) => account && account !== username);
+    return [...new Set(accounts)];
+  } catch (error) {
+    console.error('Error fetching recent conversations:', error);
+    return [];
+  }
+}
+
+/**
+ * Get every `comment` operation of a post from the account history of its author, oldest first
+ * @param created - Creation date of the post, the history is read back to it
+ * @returns The creation and each edit, with the body as broadcast (full text or patch)
+ */
+export async function getCommentEdits(author: string, permlink: string, created: string): Promise<CommentEdit[]> {
+  const edits: CommentEdit[] = [];
+  let start = -1;
+
+  for (let page = 0; page < COMMENT_HISTORY_PAGES; page++) {
+    const history: [number, any][] = await HiveClient.call('condenser_api', 'get_account_history', [
+      author,
+      start,
+      COMMENT_HISTORY_PAGE_SIZE,
+      COMMENT_OPERATION_FILTER,
+    ]);
+    if (!history.length) break;
+
+    // Pages are in chronological order, read them newest first
+    for (let i = history.length - 1; i >= 0; i--) {
+      const [, entry] = history[i];
+      const [type, op] = entry.op;
+      if (type === 'comment' && op.author === author && op.permlink === permlink) {
+        edits.unshift({ timestamp: entry.timestamp, trxId: entry.trx_id, title: op.title, body: op.body });
+      }
+    }
+
+    const [oldestIndex, oldest] = history[0];
+    if (oldestIndex <= 0 || oldest.timestamp < created) break;
+    start = oldestIndex - 1;
+  }
+
+  return edits;
+}
+
 /**
  * Get current HIVE and HBD prices from CoinGecko
  * @returns Object with HIVE and HBD prices in USD
@@ -0,0 +1,119 @@
+// lib/hive/follow-list.ts
+import HiveClient from "./hiveclient";
+
+/**
+ * Complete following lists, paged through `get_following` and cached with a TTL.
+ * Follow and unfollow actions invalidate the cache so feeds pick up the change.
+ */
+
+const PAGE_SIZE = 1000; // Max page size of condenser_api.get_following
+const MAX_PAGES = 50; // Safety limit, 50k follows
+const FOLLOW_LIST_TTL = 15 * 60 * 1000; // 15 minutes
+const STORAGE_PREFIX = "followList:";
+
+interface CachedFollowList {
+  accounts: string[];
+  expiresAt: number;
+}
+
+type FollowListListener = (username: string) => void;
+
+const memoryCache = new Map<string, CachedFollowList>();
+const pendingLoads = new Map<string, Promise<string[]>>();
+const listeners = new Set<FollowListListener>();
+
+function readCache(username: string): string[] | null {
+  let cached = memoryCache.get(username);
+
+  if (!cached && typeof window !== "undefined") {
+    try {
+      const stored = localStorage.getItem(STORAGE_PREFIX + username);
+      if (stored) {
+        cached = JSON.parse(stored) as CachedFollowList;
+        memoryCache.set(username, cached);
+      }
+    } catch (error) {
+      console.error("Error reading cached follow list:", error);
+    }
+  }
+
+  if (!cached || cached.expiresAt < Date.now()) return null;
+  return cached.accounts;
+}
+
+function writeCache(username: string, accounts: string[]) {
+  const cached = { accounts, expiresAt: Date.now() + FOLLOW_LIST_TTL };
+  memoryCache.set(username, cached);
+
+  if (typeof window !== "undefined") {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(cached));
+    } catch (error) {
+      // Very large lists can go over the storage quota, the memory cache still works
+      console.error("Error caching follow list:", error);
+    }
+  }
+}
+
+async function fetchAllFollowing(username: string): Promise<string[]> {
+  const accounts: string[] = [];
+  let start = "";
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await HiveClient.database.call("get_following", [username, start, "blog", PAGE_SIZE]);
+    // Every page after the first starts with the last account of the previous one
+    const items = start ? result.slice(1) : result;
+    accounts.push(...items.map((item: any) => item.following).filter(Boolean));
+
+    if (result.length < PAGE_SIZE) break;
+    start = result[result.length - 1].following;
+  }
+
+  return accounts;
+}
+
+/**
+ * Get every account followed by a user, from the cache while it is fresh
+ * @param username - The user whose follow list to load
+ * @returns Promise<string[]> - Array of followed usernames
+ */
+export async function getAllFollowing(username: string): Promise<string[]> {
+  const cached = readCache(username);
+  if (cached) return cached;
+
+  // Share one crawl between the components asking at the same time
+  const pending = pendingLoads.get(username);
+  if (pending) return pending;
+
+  const load = fetchAllFollowing(username)
+    .then((accounts) => {
+      writeCache(username, accounts);
+      return accounts;
+    })
+    .finally(() => pendingLoads.delete(username));
+
+  pendingLoads.set(username, load);
+  return load;
+}
+
+/**
+ * Drop the cached follow list of a user and notify the listeners
+ */
+export function invalidateFollowList(username: string) {
+  memoryCache.delete(username);
+  if (typeof window !== "undefined") {
+    localStorage.removeItem(STORAGE_PREFIX + username);
+  }
+  listeners.forEach((listener) => listener(username));
+}
+
+/**
+ * Get notified when a follow list is invalidated
+ * @returns A function removing the listener
+ */
+export function onFollowListInvalidated(listener: FollowListListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
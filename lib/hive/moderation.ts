@@ -0,0 +1,101 @@
+// lib/hive/moderation.ts
+import { getBridgeFollowList, getCommunityMutedAccounts, getIgnoredAccounts } from "./client-functions";
+
+/**
+ * Moderation layer shared by every feed: community mutes, the user's own mutes
+ * and the blacklists the user (or the site) subscribes to.
+ */
+
+export type MuteReason = "community" | "ignored" | "blacklist";
+
+type ModerationListener = (username: string) => void;
+
+export interface ModerationLists {
+  communityMuted: string[];
+  ignored: string[];
+  blacklisted: string[];
+}
+
+// Limit on the blacklists followed by a user, each one costs a request
+const MAX_BLACKLIST_SOURCES = 10;
+
+const EMPTY_LISTS: ModerationLists = { communityMuted: [], ignored: [], blacklisted: [] };
+
+// One load per user and session, shared by every component asking for it
+const listsCache = new Map<string, Promise<ModerationLists>>();
+const listeners = new Set<ModerationListener>();
+
+async function loadBlacklisted(username?: string): Promise<string[]> {
+  const sources = new Set<string>();
+  const siteBlacklist = process.env.NEXT_PUBLIC_MODERATION_BLACKLIST;
+  if (siteBlacklist) sources.add(siteBlacklist);
+
+  if (username) {
+    // The user's own blacklist and the blacklists they follow
+    sources.add(username);
+    const followed = await getBridgeFollowList(username, "follow_blacklist");
+    followed.slice(0, MAX_BLACKLIST_SOURCES).forEach((account) => sources.add(account));
+  }
+
+  const lists = await Promise.all(
+    Array.from(sources).map((source) => getBridgeFollowList(source, "blacklisted"))
+  );
+  return Array.from(new Set(lists.flat()));
+}
+
+/**
+ * Load every moderation list that applies to a user (or to anonymous visitors)
+ * @param username - Logged-in user, if any
+ * @returns Promise<ModerationLists> - The lists, empty on errors
+ */
+export function loadModerationLists(username?: string): Promise<ModerationLists> {
+  const key = username || "";
+  const cached = listsCache.get(key);
+  if (cached) return cached;
+
+  const communityTag = process.env.NEXT_PUBLIC_HIVE_COMMUNITY_TAG;
+  const promise = Promise.all([
+    communityTag ? getCommunityMutedAccounts(communityTag) : Promise.resolve([]),
+    username ? getIgnoredAccounts(username) : Promise.resolve([]),
+    loadBlacklisted(username),
+  ])
+    .then(([communityMuted, ignored, blacklisted]) => ({ communityMuted, ignored, blacklisted }))
+    .catch((error) => {
+      console.error("Error loading moderation lists:", error);
+      listsCache.delete(key);
+      return EMPTY_LISTS;
+    });
+
+  listsCache.set(key, promise);
+  return promise;
+}
+
+/**
+ * Forget the cached lists of a user, e.g. after they mute someone, and notify the listeners
+ */
+export function invalidateModerationLists(username?: string) {
+  const key = username || "";
+  listsCache.delete(key);
+  listeners.forEach((listener) => listener(key));
+}
+
+/**
+ * Get notified when the lists of a user are invalidated
+ * @returns A function removing the listener
+ */
+export function onModerationListsInvalidated(listener: ModerationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell why an author is hidden, or null when they are not
+ */
+export function getMuteReason(author: string, lists: ModerationLists): MuteReason | null {
+  if (lists.communityMuted.includes(author)) return "community";
+  if (lists.ignored.includes(author)) return "ignored";
+  if (lists.blacklisted.includes(author)) return "blacklist";
+  return null;
+}
@@ -0,0 +1,160 @@
+// lib/hive/poll-aggregator.ts
+import HiveClient from "./hiveclient";
+import { SnapsIndexStore, createMemorySnapsStore } from "./snaps-indexer";
+import {
+  Poll,
+  PollResults,
+  PollVote,
+  collectPollVotes,
+  countPollVotes,
+  isPollClosed,
+  parsePollMetadata,
+} from "@/lib/utils/polls";
+
+/**
+ * Server-side tally of the polls attached to snaps and posts.
+ *
+ * Vote operations come from a pluggable source, the HiveHub polls indexer by default, and are
+ * counted here with the rules of the poll. Results are kept in the same kind of key/value store
+ * as the snaps index, so a poll shown in a busy feed costs one lookup per TTL.
+ */
+
+const DEFAULT_POLLS_API = "https://polls.hivehub.dev";
+
+// How long each kind of entry stays in the store
+const POLL_TTL = 10 * 60 * 1000; // 10 minutes, a post keeps its poll when edited
+const OPEN_RESULTS_TTL = 30 * 1000; // 30 seconds
+const CLOSED_RESULTS_TTL = 60 * 60 * 1000; // 1 hour, late votes are not counted anyway
+const TRX_ID_TTL = 24 * 60 * 60 * 1000; // 1 day, it never changes once found
+const MISSING_TRX_ID_TTL = 60 * 1000; // 1 minute, the post may be too fresh for the history
+
+const COMMENT_OPERATION_FILTER = 1 << 1; // `comment` in the account history bitmask
+const ACCOUNT_HISTORY_PAGE_SIZE = 1000;
+const ACCOUNT_HISTORY_PAGES = 10; // Bounds the scan for very active authors
+
+/**
+ * Where vote operations come from. A custom indexer or a block streamer only has to implement this.
+ */
+export interface PollVoteSource {
+  getVotes(author: string, permlink: string): Promise<{ trxId?: string; votes: PollVote[] }>;
+}
+
+/**
+ * Votes read from the HiveHub polls API, POLLS_API_URL points to another instance
+ */
+export function createHiveHubPollSource(baseUrl: string = process.env.POLLS_API_URL || DEFAULT_POLLS_API): PollVoteSource {
+  return {
+    async getVotes(author: string, permlink: string) {
+      const url = `${baseUrl}/rpc/poll?author=eq.${encodeURIComponent(author)}&permlink=eq.${encodeURIComponent(permlink)}`;
+      const response = await fetch(url, { cache: "no-store" });
+      if (!response.ok) throw new Error(`Polls API responded with ${response.status}`);
+
+      const [poll] = await response.json();
+      // Not indexed yet, right after the post was published
+      if (!poll) return { votes: [] };
+
+      const votes: PollVote[] = (poll.poll_voters || []).map((voter: any) => ({
+        voter: String(voter.name),
+        choices: (voter.choices || []).map(Number),
+        timestamp: voter.timestamp ? new Date(voter.timestamp).toISOString() : undefined,
+      }));
+      return { trxId: poll.poll_trx_id || undefined, votes };
+    },
+  };
+}
+
+export interface PollAggregatorOptions {
+  source?: PollVoteSource;
+  store?: SnapsIndexStore;
+}
+
+export function createPollAggregator(options: PollAggregatorOptions = {}) {
+  const source = options.source || createHiveHubPollSource();
+  const store = options.store || createMemorySnapsStore();
+
+  async function getPoll(author: string, permlink: string): Promise<{ poll: Poll | null; created: string }> {
+    const key = `poll:${author}/${permlink}`;
+    const cached = await store.get<{ poll: Poll | null; created: string }>(key);
+    if (cached) return cached;
+
+    const content = await HiveClient.database.call("get_content", [author, permlink]);
+    const entry = {
+      poll: content?.author ? parsePollMetadata(content.json_metadata) : null,
+      created: content?.created || "",
+    };
+    await store.set(key, entry, POLL_TTL);
+    return entry;
+  }
+
+  /**
+   * Find the transaction that created the post in the history of its author
+   * @param created - Creation date of the post, the history is read back to it
+   */
+  async function findTrxId(author: string, permlink: string, created: string): Promise<string | null> {
+    const key = `trx:${author}/${permlink}`;
+    const cached = await store.get<{ trxId: string | null }>(key);
+    if (cached) return cached.trxId;
+
+    // Edits are comment operations too, the one from the creation date created the post
+    let trxId: string | null = null;
+    let start = -1;
+    for (let page = 0; page < ACCOUNT_HISTORY_PAGES; page++) {
+      const history: [number, any][] = await HiveClient.call("condenser_api", "get_account_history", [
+        author,
+        start,
+        ACCOUNT_HISTORY_PAGE_SIZE,
+        COMMENT_OPERATION_FILTER,
+      ]);
+      if (!history.length) break;
+
+      const creation = history.find(
+        ([, entry]) => entry.op[0] === "comment" && entry.op[1].author === author && entry.op[1].permlink === permlink
+      );
+      if (creation) {
+        trxId = creation[1].trx_id;
+        if (creation[1].timestamp <= created) break;
+      }
+
+      const [oldestIndex, oldest] = history[0];
+      if (oldestIndex <= 0 || oldest.timestamp < created) break;
+      start = oldestIndex - 1;
+    }
+
+    await store.set(key, { trxId }, trxId ? TRX_ID_TTL : MISSING_TRX_ID_TTL);
+    return trxId;
+  }
+
+  /**
+   * Tally of the poll of a post
+   * @returns null when the post carries no poll
+   */
+  async function getResults(author: string, permlink: string): Promise<PollResults | null> {
+    const key = `results:${author}/${permlink}`;
+    const cached = await store.get<PollResults>(key);
+    if (cached) return cached;
+
+    const { poll, created } = await getPoll(author, permlink);
+    if (!poll) return null;
+
+    const { trxId, votes } = await source.getVotes(author, permlink);
+    const counted = collectPollVotes(poll, votes);
+    const closed = isPollClosed(poll);
+    const results: PollResults = {
+      trxId: trxId || (await findTrxId(author, permlink, created)),
+      votes: counted,
+      ...countPollVotes(poll, counted),
+      isClosed: closed,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await store.set(key, results, closed ? CLOSED_RESULTS_TTL : OPEN_RESULTS_TTL);
+    return results;
+  }
+
+  return { getResults };
+}
+
+export type PollAggregator = ReturnType<typeof createPollAggregator>;
+
+// Shared instance used by the API routes
+export const pollAggregator = createPollAggregator();
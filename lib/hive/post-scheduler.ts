@@ -0,0 +1,326 @@
+// lib/hive/post-scheduler.ts
+import { promises as fs } from "fs";
+import path from "path";
+import { Client, Operation, PrivateKey, Signature, cryptoUtils } from "@hiveio/dhive";
+import HiveClient from "./hiveclient";
+import {
+  SCHEDULER_AUTH_HEADERS,
+  SCHEDULER_AUTH_MAX_AGE,
+  ScheduledPost,
+  ScheduledPostChanges,
+  buildSchedulerAuthMessage,
+} from "@/lib/utils/scheduledPosts";
+
+/**
+ * Server-side scheduler of long-form posts.
+ *
+ * The compose page hands over the prepared `comment` and `comment_options` operations with a
+ * publish time. A worker broadcasts them when due, signed by the app account the author granted
+ * posting authority to. Jobs live in a pluggable store, a JSON file by default.
+ */
+
+const DEFAULT_STORE_PATH = ".data/scheduled-posts.json";
+const WORKER_INTERVAL = 30 * 1000; // 30 seconds
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 2 * 60 * 1000; // 2 minutes
+const STALE_PUBLISHING = 5 * 60 * 1000; // A job left publishing this long was interrupted
+
+/**
+ * Storage used by the scheduler, any persistent key/value backend can implement it
+ */
+export interface ScheduledPostStore {
+  list(): Promise<ScheduledPost[]>;
+  get(id: string): Promise<ScheduledPost | undefined>;
+  put(job: ScheduledPost): Promise<void>;
+}
+
+/**
+ * Jobs kept in a JSON file, which needs a long-running server (`next start`), not serverless functions
+ */
+export function createFileScheduledPostStore(
+  filePath: string = process.env.SCHEDULER_STORE_PATH || DEFAULT_STORE_PATH
+): ScheduledPostStore {
+  // Writes go one after the other so concurrent requests don't overwrite each other
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  async function readJobs(): Promise<ScheduledPost[]> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async function writeJobs(jobs: ScheduledPost[]) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(jobs, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  return {
+    async list() {
+      await writeQueue;
+      return readJobs();
+    },
+    async get(id: string) {
+      await writeQueue;
+      return (await readJobs()).find((job) => job.id === id);
+    },
+    put(job: ScheduledPost) {
+      const write = writeQueue.then(async () => {
+        const jobs = await readJobs();
+        const index = jobs.findIndex((existing) => existing.id === job.id);
+        if (index === -1) jobs.push(job);
+        else jobs[index] = job;
+        await writeJobs(jobs);
+      });
+      writeQueue = write.catch(() => undefined);
+      return write;
+    },
+  };
+}
+
+/**
+ * Client used by the scheduler, SCHEDULER_RPC_NODE points it to another node (e.g. a local mock)
+ */
+export function getSchedulerClient(): Client {
+  const nodes = process.env.SCHEDULER_RPC_NODE;
+  return nodes ? new Client(nodes.split(",").map((node) => node.trim())) : HiveClient;
+}
+
+/**
+ * Check whether an account lists the app account in its posting authority
+ */
+export async function hasGrantedPostingAuthority(client: Client, username: string, appAccount: string): Promise<boolean> {
+  const [account] = await client.database.call("get_accounts", [[username]]);
+  if (!account) return false;
+  return account.posting.account_auths.some(([name]: [string, number]) => name === appAccount);
+}
+
+/**
+ * Authenticate a scheduler API request from its signed headers
+ * @returns The username of the author, or null when the signature is missing, expired or wrong
+ */
+export async function verifySchedulerAuth(headers: Headers, client: Client = getSchedulerClient()): Promise<string | null> {
+  const username = headers.get(SCHEDULER_AUTH_HEADERS.username);
+  const timestamp = Number(headers.get(SCHEDULER_AUTH_HEADERS.timestamp));
+  const signature = headers.get(SCHEDULER_AUTH_HEADERS.signature);
+  if (!username || !timestamp || !signature) return null;
+
+  const age = Date.now() - timestamp;
+  if (age < -60 * 1000 || age > SCHEDULER_AUTH_MAX_AGE) return null;
+
+  try {
+    const message = buildSchedulerAuthMessage(username, timestamp);
+    const publicKey = Signature.fromString(signature).recover(cryptoUtils.sha256(message)).toString();
+    const [account] = await client.database.call("get_accounts", [[username]]);
+    if (!account) return null;
+    const postingKeys = account.posting.key_auths.map(([key]: [string, number]) => key);
+    return postingKeys.includes(publicKey) ? username : null;
+  } catch (error) {
+    console.error("Error verifying scheduler signature:", error);
+    return null;
+  }
+}
+
+function generateJobId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+export interface PostSchedulerOptions {
+  store?: ScheduledPostStore;
+  client?: Client;
+  account?: string; // App account broadcasting the posts
+  postingKey?: string; // Posting key of the app account
+}
+
+export function createPostScheduler(options: PostSchedulerOptions = {}) {
+  const store = options.store || createFileScheduledPostStore();
+  const client = options.client || getSchedulerClient();
+  const account = options.account ?? process.env.SCHEDULER_ACCOUNT ?? "";
+  const postingKey = options.postingKey ?? process.env.SCHEDULER_POSTING_KEY ?? "";
+  let isRunning = false;
+
+  function isConfigured(): boolean {
+    return Boolean(account && postingKey);
+  }
+
+  async function listJobs(author: string): Promise<ScheduledPost[]> {
+    const jobs = await store.list();
+    return jobs
+      .filter((job) => job.author === author)
+      .sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+  }
+
+  async function getJob(id: string): Promise<ScheduledPost | undefined> {
+    return store.get(id);
+  }
+
+  async function createJob(author: string, operations: Operation[], publishAt: string): Promise<ScheduledPost> {
+    const comment = operations[0][1] as { permlink: string; title: string };
+    const now = new Date().toISOString();
+    const job: ScheduledPost = {
+      id: generateJobId(),
+      author,
+      permlink: comment.permlink,
+      title: comment.title,
+      operations,
+      publishAt: new Date(publishAt).toISOString(),
+      status: "scheduled",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.put(job);
+    return job;
+  }
+
+  /**
+   * Edit a job that has not been published yet, a failed job is scheduled again
+   */
+  async function updateJob(job: ScheduledPost, changes: ScheduledPostChanges): Promise<ScheduledPost> {
+    const comment = changes.operations ? (changes.operations[0][1] as { permlink: string; title: string }) : null;
+    const updated: ScheduledPost = {
+      ...job,
+      operations: changes.operations || job.operations,
+      permlink: comment ? comment.permlink : job.permlink,
+      title: comment ? comment.title : job.title,
+      publishAt: changes.publishAt ? new Date(changes.publishAt).toISOString() : job.publishAt,
+      status: "scheduled",
+      attempts: 0,
+      nextAttemptAt: undefined,
+      lastError: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    await store.put(updated);
+    return updated;
+  }
+
+  async function cancelJob(job: ScheduledPost): Promise<ScheduledPost> {
+    const cancelled: ScheduledPost = { ...job, status: "cancelled", updatedAt: new Date().toISOString() };
+    await store.put(cancelled);
+    return cancelled;
+  }
+
+  async function publishJob(job: ScheduledPost): Promise<ScheduledPost> {
+    await store.put({ ...job, status: "publishing", updatedAt: new Date().toISOString() });
+
+    try {
+      // The author may have revoked the authority since scheduling, retrying won't help
+      if (!(await hasGrantedPostingAuthority(client, job.author, account))) {
+        const failed: ScheduledPost = {
+          ...job,
+          status: "failed",
+          lastError: `@${job.author} no longer grants posting authority to @${account}`,
+          updatedAt: new Date().toISOString(),
+        };
+        await store.put(failed);
+        return failed;
+      }
+
+      // A previous attempt may have gone through before timing out
+      const existing = await client.database.call("get_content", [job.author, job.permlink]);
+      let trxId: string | undefined;
+      if (!existing?.author) {
+        const result = await client.broadcast.sendOperations(job.operations, PrivateKey.fromString(postingKey));
+        trxId = result.id;
+      }
+
+      const published: ScheduledPost = {
+        ...job,
+        status: "published",
+        attempts: job.attempts + 1,
+        trxId,
+        nextAttemptAt: undefined,
+        lastError: undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      await store.put(published);
+      return published;
+    } catch (error) {
+      console.error(`Error publishing scheduled post ${job.id}:`, error);
+      const attempts = job.attempts + 1;
+      const retry = attempts < MAX_ATTEMPTS;
+      const failed: ScheduledPost = {
+        ...job,
+        status: retry ? "scheduled" : "failed",
+        attempts,
+        nextAttemptAt: retry ? new Date(Date.now() + RETRY_DELAY).toISOString() : undefined,
+        lastError: getErrorMessage(error),
+        updatedAt: new Date().toISOString(),
+      };
+      await store.put(failed);
+      return failed;
+    }
+  }
+
+  /**
+   * Broadcast every job that is due, one at a time
+   * @returns The jobs processed by this run
+   */
+  async function runDueJobs(now: Date = new Date()): Promise<ScheduledPost[]> {
+    if (!isConfigured() || isRunning) return [];
+    isRunning = true;
+
+    try {
+      const isDue = (job: ScheduledPost) => {
+        // Picked up again after the server stopped in the middle of a broadcast
+        if (job.status === "publishing") {
+          return new Date(job.updatedAt).getTime() + STALE_PUBLISHING <= now.getTime();
+        }
+        if (job.status !== "scheduled") return false;
+        return new Date(job.nextAttemptAt || job.publishAt).getTime() <= now.getTime();
+      };
+      const due = (await store.list()).filter(isDue);
+
+      const processed: ScheduledPost[] = [];
+      for (const job of due) {
+        // Read again, the job may have been cancelled or edited while the previous ones were broadcasting
+        const current = await store.get(job.id);
+        if (!current || current.updatedAt !== job.updatedAt || !isDue(current)) continue;
+        processed.push(await publishJob(current));
+      }
+      return processed;
+    } finally {
+      isRunning = false;
+    }
+  }
+
+  return { account, client, isConfigured, listJobs, getJob, createJob, updateJob, cancelJob, runDueJobs };
+}
+
+export type PostScheduler = ReturnType<typeof createPostScheduler>;
+
+// Shared instance used by the API routes and the worker
+export const postScheduler = createPostScheduler();
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Poll for due jobs in the background, started once per server process
+ */
+export function startSchedulerWorker(scheduler: PostScheduler = postScheduler, intervalMs: number = WORKER_INTERVAL) {
+  if (workerTimer) return;
+  if (!scheduler.isConfigured()) {
+    console.log("Post scheduler disabled: SCHEDULER_ACCOUNT and SCHEDULER_POSTING_KEY are not set");
+    return;
+  }
+
+  const tick = () => {
+    scheduler.runDueJobs().catch((error) => console.error("Scheduler worker error:", error));
+  };
+  workerTimer = setInterval(tick, intervalMs);
+  tick();
+}
+
+export function stopSchedulerWorker() {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
@@ -0,0 +1,258 @@
+// lib/hive/snaps-indexer.ts
+import HiveClient from "./hiveclient";
+import type { ExtendedComment } from "@/hooks/useComments";
+import { getSnapQuote, isSameSnap } from "@/lib/utils/quotes";
+
+/**
+ * Server-side index of the snaps stored as replies to the `peak.snaps` containers.
+ *
+ * Container replies are fetched once and kept in a pluggable store, so feed requests
+ * no longer hit the public nodes with one `get_content_replies` call per container.
+ */
+
+export const SNAPS_CONTAINER_AUTHOR = "peak.snaps";
+
+const CONTAINER_BATCH_SIZE = 3;
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+const MAX_BATCHES_PER_QUERY = 20; // Bounds the crawl for filters that rarely match
+const MAX_QUOTE_BATCHES = 10; // Older snaps only get their recent quotes counted
+export const MAX_QUOTE_TARGETS = 50; // Snaps whose quotes are counted in one crawl
+
+// How long each kind of entry stays in the store
+const CONTAINER_LIST_TTL = 60 * 1000; // 1 minute
+const ACTIVE_CONTAINER_TTL = 30 * 1000; // 30 seconds, the newest containers still receive snaps
+const ARCHIVED_CONTAINER_TTL = 30 * 60 * 1000; // 30 minutes
+const ACTIVE_CONTAINER_AGE = 2 * 24 * 60 * 60 * 1000; // 2 days
+const QUOTE_COUNT_TTL = 60 * 1000; // 1 minute
+
+export interface SnapsCursor {
+  permlink: string;
+  date: string;
+}
+
+export interface SnapsQuery {
+  tag?: string; // Community tag that must be present in json_metadata.tags
+  authors?: string[]; // Only snaps written by these accounts
+  hashtag?: string; // Hashtag that must be present in json_metadata.tags
+  hashtags?: string[]; // At least one of these hashtags must be present, for the followed tags
+  cursor?: SnapsCursor | null; // Last container consumed by the previous page
+  limit?: number;
+}
+
+export interface SnapsPage {
+  snaps: ExtendedComment[];
+  cursor: SnapsCursor | null;
+  hasMore: boolean;
+}
+
+export interface QuoteTarget {
+  author: string;
+  permlink: string;
+  since: string; // Creation date of the quoted snap, no quote can be older
+}
+
+interface SnapsContainer {
+  permlink: string;
+  created: string;
+}
+
+/**
+ * Storage used by the indexer. Values are plain JSON so any key/value backend
+ * (memory, Redis, KV, ...) can implement it.
+ */
+export interface SnapsIndexStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+/**
+ * In-memory store, shared by every request handled by the same server instance
+ */
+export function createMemorySnapsStore(): SnapsIndexStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt < Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+  };
+}
+
+/**
+ * Parse the tags from a snap's json_metadata
+ */
+export function getSnapTags(snap: ExtendedComment): string[] {
+  try {
+    if (!snap.json_metadata) return [];
+    const metadata = JSON.parse(snap.json_metadata);
+    return Array.isArray(metadata.tags) ? metadata.tags : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check if a snap matches every filter of the query
+ */
+export function matchesSnapsQuery(snap: ExtendedComment, query: SnapsQuery): boolean {
+  if (query.authors && !query.authors.includes(snap.author)) {
+    return false;
+  }
+
+  if (query.tag || query.hashtag || query.hashtags) {
+    const tags = getSnapTags(snap);
+    if (query.tag && !tags.includes(query.tag)) return false;
+    if (query.hashtag) {
+      const hashtag = query.hashtag.toLowerCase();
+      if (!tags.some((tag) => String(tag).toLowerCase() === hashtag)) return false;
+    }
+    if (query.hashtags) {
+      const hashtags = query.hashtags.map((hashtag) => hashtag.toLowerCase());
+      if (!tags.some((tag) => hashtags.includes(String(tag).toLowerCase()))) return false;
+    }
+  }
+
+  return true;
+}
+
+export function createSnapsIndexer(store: SnapsIndexStore = createMemorySnapsStore()) {
+
+  async function getContainers(cursor: SnapsCursor | null): Promise<SnapsContainer[]> {
+    const permlink = cursor?.permlink || "";
+    const date = cursor?.date || new Date().toISOString().split(".")[0];
+    // The first page moves with time, so it is keyed by the minute
+    const key = cursor ? `containers:${permlink}:${date}` : `containers:latest:${date.slice(0, 16)}`;
+
+    const cached = await store.get<SnapsContainer[]>(key);
+    if (cached) return cached;
+
+    const result = await HiveClient.database.call("get_discussions_by_author_before_date", [
+      SNAPS_CONTAINER_AUTHOR,
+      permlink,
+      date,
+      CONTAINER_BATCH_SIZE,
+    ]);
+
+    const containers: SnapsContainer[] = result
+      .map((item: any) => ({ permlink: item.permlink, created: item.created }))
+      // The API includes the starting container itself
+      .filter((item: SnapsContainer) => item.permlink !== permlink);
+
+    await store.set(key, containers, CONTAINER_LIST_TTL);
+    return containers;
+  }
+
+  async function getContainerReplies(container: SnapsContainer): Promise<ExtendedComment[]> {
+    const key = `replies:${container.permlink}`;
+    const cached = await store.get<ExtendedComment[]>(key);
+    if (cached) return cached;
+
+    const replies = (await HiveClient.database.call("get_content_replies", [
+      SNAPS_CONTAINER_AUTHOR,
+      container.permlink,
+    ])) as ExtendedComment[];
+
+    const age = Date.now() - new Date(container.created + "Z").getTime();
+    await store.set(key, replies, age < ACTIVE_CONTAINER_AGE ? ACTIVE_CONTAINER_TTL : ARCHIVED_CONTAINER_TTL);
+    return replies;
+  }
+
+  /**
+   * Return the next page of snaps matching the query.
+   * Whole containers are consumed, so a page may hold more than `limit` snaps.
+   */
+  async function querySnaps(query: SnapsQuery): Promise<SnapsPage> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const snaps: ExtendedComment[] = [];
+    let cursor = query.cursor || null;
+    let hasMore = true;
+
+    // An empty author or hashtag list can never match, don't crawl the whole history for it
+    if ((query.authors && !query.authors.length) || (query.hashtags && !query.hashtags.length)) {
+      return { snaps, cursor, hasMore: false };
+    }
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_QUERY && snaps.length < limit; batch++) {
+      const containers = await getContainers(cursor);
+      if (!containers.length) {
+        hasMore = false;
+        break;
+      }
+
+      const repliesByContainer = await Promise.all(containers.map(getContainerReplies));
+      repliesByContainer.forEach((replies) => {
+        snaps.push(...replies.filter((snap) => matchesSnapsQuery(snap, query)));
+      });
+
+      const lastContainer = containers[containers.length - 1];
+      cursor = { permlink: lastContainer.permlink, date: lastContainer.created };
+    }
+
+    return { snaps, cursor, hasMore };
+  }
+
+  /**
+   * Count the snaps quoting each snap of a page in one crawl, back to the container that was the latest
+   * when the oldest of them was posted.
+   * @returns The counts keyed by `author/permlink`
+   */
+  async function countQuotes(targets: QuoteTarget[]): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    const missing: QuoteTarget[] = [];
+    for (const target of targets.slice(0, MAX_QUOTE_TARGETS)) {
+      const cached = await store.get<number>(`quotes:${target.author}/${target.permlink}`);
+      if (cached !== undefined) {
+        counts[`${target.author}/${target.permlink}`] = cached;
+      } else {
+        missing.push(target);
+      }
+    }
+    if (!missing.length) return counts;
+
+    missing.forEach((target) => {
+      counts[`${target.author}/${target.permlink}`] = 0;
+    });
+    const since = missing.reduce((oldest, target) => (target.since < oldest ? target.since : oldest), missing[0].since);
+    let cursor: SnapsCursor | null = null;
+
+    for (let batch = 0; batch < MAX_QUOTE_BATCHES; batch++) {
+      const containers = await getContainers(cursor);
+      if (!containers.length) break;
+
+      const repliesByContainer = await Promise.all(containers.map(getContainerReplies));
+      repliesByContainer.forEach((replies) => {
+        replies.forEach((snap) => {
+          const quote = getSnapQuote(snap.json_metadata);
+          const target = quote && missing.find((item) => isSameSnap(quote, item));
+          if (target) counts[`${target.author}/${target.permlink}`] += 1;
+        });
+      });
+
+      const lastContainer = containers[containers.length - 1];
+      if (lastContainer.created <= since) break;
+      cursor = { permlink: lastContainer.permlink, date: lastContainer.created };
+    }
+
+    await Promise.all(missing.map((target) => (
+      store.set(`quotes:${target.author}/${target.permlink}`, counts[`${target.author}/${target.permlink}`], QUOTE_COUNT_TTL)
+    )));
+    return counts;
+  }
+
+  return { querySnaps, countQuotes };
+}
+
+export type SnapsIndexer = ReturnType<typeof createSnapsIndexer>;
+
+// Shared instance used by the API routes
+export const snapsIndexer = createSnapsIndexer();
@@ -0,0 +1,23 @@
+/**
+ * Settings a fork of the app is expected to change, kept apart from the code that applies them
+ */
+
+import type { BeneficiaryPolicy } from '@/lib/utils/beneficiaries';
+
+export interface SiteConfig {
+    /**
+     * Beneficiaries added to each kind of content, weights in basis points (100 = 1%).
+     * A `locked` entry can't be changed or removed, a `minWeight` can be raised but not lowered,
+     * other entries are defaults the author is free to remove.
+     */
+    beneficiaries: BeneficiaryPolicy;
+}
+
+export const siteConfig: SiteConfig = {
+    beneficiaries: {
+        textSnap: [],
+        videoSnap: [{ account: 'snapie', weight: 1000, locked: true }],
+        audioSnap: [],
+        longForm: [{ account: 'snapie', weight: 300, minWeight: 300 }],
+    },
+};
@@ -2,6 +2,35 @@
 
 import { DefaultRenderer } from "@hiveio/content-renderer";
 import DOMPurify from 'isomorphic-dompurify';
+import { replaceImageMarkdown } from './imageMarkdown';
+
+const CAPTION_MARKER_REGEX = /<img\b([^>]*?)\s*alt="([^"]*?)\s*hivecaption(\d+)marker"([^>]*)>/g;
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * The renderer drops image titles, so captioned images get a marker in their alt text
+ * that is turned into a figure once the HTML is out
+ */
+function markImageCaptions(markdown: string): { markdown: string; captions: string[] } {
+    const captions: string[] = [];
+    const marked = replaceImageMarkdown(markdown, (image) => {
+        if (!image.caption) return image.markdown;
+        captions.push(image.caption);
+        return `![${image.alt} hivecaption${captions.length - 1}marker](${image.url})`;
+    });
+    return { markdown: marked, captions };
+}
+
+function renderImageCaptions(content: string, captions: string[]): string {
+    if (captions.length === 0) return content;
+    return content.replace(CAPTION_MARKER_REGEX, (match, before, alt, index, after) => {
+        const caption = captions[Number(index)] ?? '';
+        return `<figure><img${before} alt="${alt}"${after}><figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+    });
+}
 
 function transformIPFSContent(content: string): string {
     const regex = /<iframe src="https:\/\/ipfs\.skatehive\.app\/ipfs\/([a-zA-Z0-9-?=&]+)"(?:(?!<\/iframe>).)*\sallowfullscreen><\/iframe>/g;
@@ -145,7 +174,11 @@ export default function markdownRenderer(markdown: string) {
         ipfsPrefix: "https://ipfs.skatehive.app" // IPFS gateway to display ipfs images
     });
 
-    let safeHtmlStr = renderer.render(markdown);
+    const { markdown: markedMarkdown, captions } = markImageCaptions(markdown);
+    let safeHtmlStr = renderer.render(markedMarkdown);
+
+    // Captioned images as figures
+    safeHtmlStr = renderImageCaptions(safeHtmlStr, captions);
     
     // Transform 3Speak video/audio URLs to iframes (AFTER rendering)
     safeHtmlStr = transform3SpeakContent(safeHtmlStr);
@@ -176,7 +209,7 @@ export default function markdownRenderer(markdown: string) {
             // Links and media
             'a', 'img', 'video', 'source', 'audio', 'iframe',
             // Other safe elements
-            'hr', 'center', 'details', 'summary'
+            'hr', 'center', 'details', 'summary', 'figure', 'figcaption'
         ],
         ALLOWED_ATTR: [
             'href', 'src', 'alt', 'title', 'width', 'height',
@@ -0,0 +1,159 @@
+/**
+ * Named account lists ("Brazilian artists", "devs I trust", ...) used as extra feeds.
+ * Stored in localStorage, exported/imported as JSON and optionally published on chain.
+ */
+
+export interface AccountList {
+    id: string;
+    name: string;
+    accounts: string[];
+    updatedAt: string;
+}
+
+export const ACCOUNT_LISTS_STORAGE_KEY = 'accountLists';
+export const ACCOUNT_LISTS_CUSTOM_JSON_ID = 'account_lists';
+
+const MAX_LIST_NAME_LENGTH = 40;
+const MAX_LIST_ACCOUNTS = 500;
+const MAX_CUSTOM_JSON_SIZE = 8192; // Bytes, larger custom_json operations are rejected by the chain
+
+// Hive account names: 3 to 16 chars, lowercase letters, digits, dots and dashes
+const ACCOUNT_NAME_REGEX = /^[a-z][a-z0-9-]{2,}(\.[a-z][a-z0-9-]{2,})*$/;
+
+export function isValidAccountName(account: string): boolean {
+    return account.length <= 16 && ACCOUNT_NAME_REGEX.test(account);
+}
+
+/**
+ * Parse accounts typed or pasted by the user: separated by commas, spaces or new lines, with or without @
+ * @returns The valid accounts (deduplicated) and the entries that are not account names
+ */
+export function parseAccountNames(input: string): { accounts: string[]; invalid: string[] } {
+    const entries = input
+        .split(/[\s,;]+/)
+        .map((entry) => entry.trim().replace(/^@/, '').toLowerCase())
+        .filter(Boolean);
+
+    const accounts = Array.from(new Set(entries.filter(isValidAccountName)));
+    const invalid = entries.filter((entry) => !isValidAccountName(entry));
+    return { accounts, invalid };
+}
+
+function generateListId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create a list, cleaning up its name and accounts
+ */
+export function createAccountList(name: string, accounts: string[]): AccountList {
+    return {
+        id: generateListId(),
+        name: name.trim().slice(0, MAX_LIST_NAME_LENGTH),
+        accounts: Array.from(new Set(accounts.filter(isValidAccountName))).slice(0, MAX_LIST_ACCOUNTS),
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Check and clean a list coming from storage or an import, null when it is not usable
+ */
+function sanitizeAccountList(value: any): AccountList | null {
+    if (!value || typeof value.name !== 'string' || !value.name.trim() || !Array.isArray(value.accounts)) {
+        return null;
+    }
+    const accounts = value.accounts
+        .map((account: unknown) => String(account).replace(/^@/, '').toLowerCase())
+        .filter(isValidAccountName);
+
+    return {
+        ...createAccountList(value.name, accounts),
+        id: typeof value.id === 'string' && value.id ? value.id : generateListId(),
+        updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString(),
+    };
+}
+
+export function loadAccountLists(): AccountList[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+        const stored = localStorage.getItem(ACCOUNT_LISTS_STORAGE_KEY);
+        const lists = stored ? JSON.parse(stored) : [];
+        return Array.isArray(lists)
+            ? lists.map(sanitizeAccountList).filter((list): list is AccountList => list !== null)
+            : [];
+    } catch (error) {
+        console.error('Error reading account lists:', error);
+        return [];
+    }
+}
+
+export function saveAccountLists(lists: AccountList[]) {
+    localStorage.setItem(ACCOUNT_LISTS_STORAGE_KEY, JSON.stringify(lists));
+}
+
+/**
+ * Serialize lists for a JSON file download
+ */
+export function exportAccountLists(lists: AccountList[]): string {
+    return JSON.stringify({ version: 1, lists }, null, 2);
+}
+
+/**
+ * Read lists from an exported file (or a bare array of lists)
+ * @throws Error when the content is not an account lists export
+ */
+export function importAccountLists(content: string): AccountList[] {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const rawLists = Array.isArray(parsed) ? parsed : parsed?.lists;
+    if (!Array.isArray(rawLists)) {
+        throw new Error('No account lists found in the file');
+    }
+
+    const lists = rawLists.map(sanitizeAccountList).filter((list): list is AccountList => list !== null);
+    if (!lists.length) {
+        throw new Error('No valid account lists found in the file');
+    }
+    return lists;
+}
+
+/**
+ * Merge imported lists into the existing ones, replacing lists with the same name
+ */
+export function mergeAccountLists(existing: AccountList[], imported: AccountList[]): AccountList[] {
+    const merged = [...existing];
+    imported.forEach((list) => {
+        const index = merged.findIndex((item) => item.name.toLowerCase() === list.name.toLowerCase());
+        if (index >= 0) {
+            merged[index] = { ...list, id: merged[index].id };
+        } else {
+            merged.push({ ...list, id: merged.some((item) => item.id === list.id) ? generateListId() : list.id });
+        }
+    });
+    return merged;
+}
+
+/**
+ * Payload of the `account_lists` custom_json, so other front-ends can read the lists
+ */
+export function buildAccountListsCustomJson(lists: AccountList[]) {
+    return {
+        version: 1,
+        lists: lists.map(({ name, accounts }) => ({ name, accounts })),
+    };
+}
+
+/**
+ * Check the custom_json fits in one operation, null when it can be published
+ */
+export function validateAccountListsCustomJson(payload: ReturnType<typeof buildAccountListsCustomJson>): string | null {
+    const size = new TextEncoder().encode(JSON.stringify(payload)).length;
+    if (size <= MAX_CUSTOM_JSON_SIZE) return null;
+    return `Your lists take ${(size / 1024).toFixed(1)} KB, the blockchain accepts up to ${MAX_CUSTOM_JSON_SIZE / 1024} KB. Remove some accounts or lists, or use Export to share them as a file`;
+}
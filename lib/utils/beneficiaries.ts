@@ -0,0 +1,119 @@
+import type { CommentOptionsOperation } from '@hiveio/dhive';
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import { siteConfig } from '@/lib/siteConfig';
+import { DEFAULT_PAYOUT_OPTIONS, PayoutOptions, getPayoutParameters } from '@/lib/utils/payoutOptions';
+
+/**
+ * Beneficiary policy of the site: defaults per kind of content and the entries authors can't lower or remove
+ */
+
+export type BeneficiaryContentType = 'textSnap' | 'videoSnap' | 'audioSnap' | 'longForm';
+
+export interface BeneficiaryRule {
+    account: string;
+    weight: number; // Default weight in basis points
+    minWeight?: number; // Required entry, the weight can only be raised
+    locked?: boolean; // Required entry with a fixed weight
+}
+
+export type BeneficiaryPolicy = Record<BeneficiaryContentType, BeneficiaryRule[]>;
+
+export const MAX_BENEFICIARIES = 8; // Limit of the chain
+const FULL_WEIGHT = 10000;
+
+export function getBeneficiaryRules(type: BeneficiaryContentType, policy: BeneficiaryPolicy = siteConfig.beneficiaries): BeneficiaryRule[] {
+    return policy[type] || [];
+}
+
+export function getBeneficiaryRule(account: string, type: BeneficiaryContentType, policy?: BeneficiaryPolicy): BeneficiaryRule | undefined {
+    return getBeneficiaryRules(type, policy).find((rule) => rule.account === account);
+}
+
+function isRequired(rule: BeneficiaryRule): boolean {
+    return Boolean(rule.locked || rule.minWeight);
+}
+
+/**
+ * Lowest weight an entry can have, 0 when the author can remove it
+ */
+export function getMinimumWeight(rule: BeneficiaryRule | undefined): number {
+    if (!rule) return 0;
+    return rule.locked ? rule.weight : rule.minWeight || 0;
+}
+
+/**
+ * Beneficiaries a new snap or post starts with
+ */
+export function getDefaultBeneficiaries(type: BeneficiaryContentType, policy?: BeneficiaryPolicy): Beneficiary[] {
+    return getBeneficiaryRules(type, policy)
+        .filter((rule) => rule.weight > 0)
+        .map(({ account, weight }) => ({ account, weight }));
+}
+
+/**
+ * Put back the required entries an author's list is missing and raise the ones below their minimum,
+ * used on restored drafts and right before publishing
+ */
+export function applyBeneficiaryPolicy(beneficiaries: Beneficiary[], type: BeneficiaryContentType, policy?: BeneficiaryPolicy): Beneficiary[] {
+    const rules = getBeneficiaryRules(type, policy).filter(isRequired);
+    const required = rules.map((rule) => {
+        const current = beneficiaries.find((beneficiary) => beneficiary.account === rule.account);
+        const weight = rule.locked || !current ? rule.weight : Math.max(current.weight, getMinimumWeight(rule));
+        return { account: rule.account, weight };
+    });
+    const others = beneficiaries.filter((beneficiary) => !rules.some((rule) => rule.account === beneficiary.account));
+    return [...required, ...others];
+}
+
+export function getTotalWeight(beneficiaries: Beneficiary[]): number {
+    return beneficiaries.reduce((sum, beneficiary) => sum + beneficiary.weight, 0);
+}
+
+/**
+ * Check a list against the policy and the rules of the chain, null when it can be published
+ */
+export function validateBeneficiaries(beneficiaries: Beneficiary[], type: BeneficiaryContentType, policy?: BeneficiaryPolicy): string | null {
+    if (beneficiaries.length > MAX_BENEFICIARIES) {
+        return `A post can have up to ${MAX_BENEFICIARIES} beneficiaries`;
+    }
+    if (new Set(beneficiaries.map((beneficiary) => beneficiary.account)).size !== beneficiaries.length) {
+        return 'An account can only be added once';
+    }
+    if (beneficiaries.some((beneficiary) => beneficiary.weight <= 0 || !Number.isInteger(beneficiary.weight))) {
+        return 'Every beneficiary needs a share above 0%';
+    }
+    if (getTotalWeight(beneficiaries) > FULL_WEIGHT) {
+        return `Beneficiaries add up to ${(getTotalWeight(beneficiaries) / 100).toFixed(1)}%, the maximum is 100%`;
+    }
+
+    for (const rule of getBeneficiaryRules(type, policy).filter(isRequired)) {
+        const current = beneficiaries.find((beneficiary) => beneficiary.account === rule.account);
+        const minimum = getMinimumWeight(rule);
+        if (!current || current.weight < minimum || (rule.locked && current.weight !== rule.weight)) {
+            return `@${rule.account} is a required beneficiary (${rule.locked ? '' : 'at least '}${(minimum / 100).toFixed(1)}%)`;
+        }
+    }
+    return null;
+}
+
+/**
+ * comment_options operation of a post, the chain wants the beneficiaries sorted by account
+ * @param payout - Payout options picked by the author, snaps keep the default ones
+ */
+export function buildCommentOptionsOperation(author: string, permlink: string, beneficiaries: Beneficiary[], payout: PayoutOptions = DEFAULT_PAYOUT_OPTIONS): CommentOptionsOperation {
+    const sortedBeneficiaries = [...beneficiaries]
+        .sort((a, b) => a.account.localeCompare(b.account))
+        .map(({ account, weight }) => ({ account, weight }));
+
+    return [
+        'comment_options',
+        {
+            author,
+            permlink,
+            ...getPayoutParameters(payout),
+            allow_votes: true,
+            allow_curation_rewards: true,
+            extensions: sortedBeneficiaries.length > 0 ? [[0, { beneficiaries: sortedBeneficiaries }]] : [],
+        },
+    ];
+}
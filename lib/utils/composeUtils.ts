@@ -109,6 +109,44 @@ export function insertAtCursor(
     }, 0);
 }
 
+// Styles copied to the mirror element so its text wraps exactly like the textarea
+const CARET_MIRROR_STYLES = [
+    'boxSizing', 'width', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+    'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'fontFamily', 'fontSize', 'fontWeight',
+    'fontStyle', 'letterSpacing', 'lineHeight', 'textTransform', 'wordSpacing', 'tabSize',
+] as const;
+
+/**
+ * Position of a character in a textarea, relative to its top left corner and scroll
+ * Measured on a hidden copy of the textarea holding the text up to that character
+ */
+export function getCaretCoordinates(textarea: HTMLTextAreaElement, position: number): { top: number; left: number; height: number } {
+    const mirror = document.createElement('div');
+    const computed = window.getComputedStyle(textarea);
+    CARET_MIRROR_STYLES.forEach((property) => {
+        mirror.style[property] = computed[property];
+    });
+    mirror.style.position = 'absolute';
+    mirror.style.visibility = 'hidden';
+    mirror.style.whiteSpace = 'pre-wrap';
+    mirror.style.overflowWrap = 'break-word';
+    mirror.textContent = textarea.value.substring(0, position);
+
+    const marker = document.createElement('span');
+    marker.textContent = textarea.value.substring(position) || '.';
+    mirror.appendChild(marker);
+    document.body.appendChild(mirror);
+
+    const lineHeight = parseFloat(computed.lineHeight) || parseFloat(computed.fontSize) * 1.2;
+    const coordinates = {
+        top: marker.offsetTop + parseFloat(computed.borderTopWidth) - textarea.scrollTop,
+        left: marker.offsetLeft + parseFloat(computed.borderLeftWidth) - textarea.scrollLeft,
+        height: lineHeight,
+    };
+    document.body.removeChild(mirror);
+    return coordinates;
+}
+
 /**
  * Compress an image file before upload
  * Reduces file size while maintaining reasonable quality
@@ -211,3 +249,20 @@ export function validateContent(markdown: string): { valid: boolean; error?: str
     
     return { valid: true };
 }
+
+/**
+ * Value of a datetime-local input, which works in local time without a timezone
+ */
+export function toLocalInputValue(date: string | Date): string {
+    const value = new Date(date);
+    value.setMinutes(value.getMinutes() - value.getTimezoneOffset());
+    return value.toISOString().slice(0, 16);
+}
+
+/**
+ * Post named by the `edit` parameter of the compose page, like `@author/permlink`
+ */
+export function parseEditTarget(value: string | undefined): { author: string; permlink: string } | null {
+    const match = value?.trim().match(/^@?([a-z0-9.-]{3,16})\/([a-z0-9-]+)$/);
+    return match ? { author: match[1], permlink: match[2] } : null;
+}
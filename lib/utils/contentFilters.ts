@@ -0,0 +1,146 @@
+import { parseMediaContent, separateContent } from "./snapUtils";
+
+/**
+ * Per-user content filter rules, applied by every feed and persisted in localStorage
+ */
+
+export type MediaFilter = 'any' | 'media' | 'text';
+export type FilterReason = 'word' | 'tag' | 'nsfw' | 'media' | 'text';
+
+export interface ContentFilterRules {
+    mutedWords: string[]; // Words or phrases, case-insensitive
+    mutedTags: string[]; // Tags without the #
+    hideNsfw: boolean;
+    mediaFilter: MediaFilter;
+}
+
+/**
+ * Fields shared by snaps (Comment) and blog posts (Discussion)
+ */
+export interface FilterableContent {
+    body: string;
+    json_metadata: string;
+    title?: string;
+}
+
+export const CONTENT_FILTERS_STORAGE_KEY = 'contentFilters';
+export const CONTENT_FILTERS_CHANGE_EVENT = 'contentFiltersChange';
+
+export const DEFAULT_CONTENT_FILTERS: ContentFilterRules = {
+    mutedWords: [],
+    mutedTags: [],
+    hideNsfw: false,
+    mediaFilter: 'any',
+};
+
+const NSFW_TAGS = ['nsfw'];
+
+export function loadContentFilters(): ContentFilterRules {
+    if (typeof window === 'undefined') return DEFAULT_CONTENT_FILTERS;
+
+    try {
+        const stored = localStorage.getItem(CONTENT_FILTERS_STORAGE_KEY);
+        if (!stored) return DEFAULT_CONTENT_FILTERS;
+        const rules = JSON.parse(stored);
+        return {
+            mutedWords: Array.isArray(rules.mutedWords) ? rules.mutedWords.map(String) : [],
+            mutedTags: Array.isArray(rules.mutedTags) ? rules.mutedTags.map(String) : [],
+            hideNsfw: typeof rules.hideNsfw === 'boolean' ? rules.hideNsfw : DEFAULT_CONTENT_FILTERS.hideNsfw,
+            mediaFilter: ['any', 'media', 'text'].includes(rules.mediaFilter) ? rules.mediaFilter : 'any',
+        };
+    } catch (error) {
+        console.error('Error reading content filters:', error);
+        return DEFAULT_CONTENT_FILTERS;
+    }
+}
+
+/**
+ * Persist the rules and let every mounted feed know about the change
+ */
+export function saveContentFilters(rules: ContentFilterRules) {
+    localStorage.setItem(CONTENT_FILTERS_STORAGE_KEY, JSON.stringify(rules));
+    window.dispatchEvent(new Event(CONTENT_FILTERS_CHANGE_EVENT));
+}
+
+/**
+ * Split the settings inputs into clean rules: one per line or comma, lowercase, no duplicates
+ */
+export function parseRuleList(input: string, stripHash = false): string[] {
+    const rules = input
+        .split(/[\n,]+/)
+        .map((rule) => rule.trim().toLowerCase())
+        .map((rule) => (stripHash ? rule.replace(/^#/, '') : rule))
+        .filter(Boolean);
+    return Array.from(new Set(rules));
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a muted word or phrase as a whole word, accents included
+ */
+function containsMutedWord(text: string, word: string): boolean {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(word)}($|[^\\p{L}\\p{N}_])`, 'iu');
+    return pattern.test(text);
+}
+
+function getTags(item: FilterableContent): string[] {
+    try {
+        const metadata = JSON.parse(item.json_metadata || '{}');
+        return Array.isArray(metadata.tags) ? metadata.tags.map((tag: unknown) => String(tag).toLowerCase()) : [];
+    } catch {
+        return [];
+    }
+}
+
+function hasMedia(item: FilterableContent): boolean {
+    try {
+        const metadata = JSON.parse(item.json_metadata || '{}');
+        if (Array.isArray(metadata.image) && metadata.image.length > 0) return true;
+    } catch {
+        // Fall back to the body
+    }
+    return parseMediaContent(separateContent(item.body).media).length > 0;
+}
+
+export function hasActiveFilters(rules: ContentFilterRules): boolean {
+    return rules.mutedWords.length > 0 || rules.mutedTags.length > 0 || rules.hideNsfw || rules.mediaFilter !== 'any';
+}
+
+/**
+ * Tell which rule hides an item, or null when it passes every rule
+ */
+export function getFilterReason(item: FilterableContent, rules: ContentFilterRules): FilterReason | null {
+    const text = `${item.title || ''}\n${item.body}`;
+    if (rules.mutedWords.some((word) => containsMutedWord(text, word))) return 'word';
+
+    if (rules.mutedTags.length || rules.hideNsfw) {
+        const tags = getTags(item);
+        if (rules.mutedTags.some((tag) => tags.includes(tag))) return 'tag';
+        if (rules.hideNsfw && NSFW_TAGS.some((tag) => tags.includes(tag))) return 'nsfw';
+    }
+
+    if (rules.mediaFilter !== 'any') {
+        const withMedia = hasMedia(item);
+        if (rules.mediaFilter === 'media' && !withMedia) return 'text';
+        if (rules.mediaFilter === 'text' && withMedia) return 'media';
+    }
+
+    return null;
+}
+
+/**
+ * Apply the rules to a list of snaps or posts
+ * @returns The items that pass, in the same order, and how many were filtered out
+ */
+export function applyContentFilters<T extends FilterableContent>(
+    items: T[],
+    rules: ContentFilterRules
+): { items: T[]; filteredCount: number } {
+    if (!hasActiveFilters(rules)) return { items, filteredCount: 0 };
+
+    const visible = items.filter((item) => getFilterReason(item, rules) === null);
+    return { items: visible, filteredCount: items.length - visible.length };
+}
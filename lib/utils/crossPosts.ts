@@ -0,0 +1,73 @@
+/**
+ * Cross-posts: a post sharing an existing one into another community. It uses the format other
+ * Hive frontends read, the original is named by `original_author` and `original_permlink` in
+ * `json_metadata` and the body starts with a link to it.
+ */
+
+export interface CrossPostOrigin {
+    author: string;
+    permlink: string;
+}
+
+interface CrossPostSource extends CrossPostOrigin {
+    category: string;
+    json_metadata: unknown;
+}
+
+const CROSS_POST_TAG = 'cross-post';
+const BODY_SEPARATOR = '<br><br>';
+const MAX_PERMLINK_LENGTH = 255;
+
+function parseMetadata(jsonMetadata: unknown): Record<string, unknown> {
+    if (typeof jsonMetadata === 'string') {
+        try {
+            return JSON.parse(jsonMetadata) || {};
+        } catch {
+            return {};
+        }
+    }
+    return jsonMetadata && typeof jsonMetadata === 'object' ? (jsonMetadata as Record<string, unknown>) : {};
+}
+
+/**
+ * Read the original post from json_metadata, either raw or already parsed
+ */
+export function getCrossPostOrigin(jsonMetadata: unknown): CrossPostOrigin | null {
+    const { original_author: author, original_permlink: permlink } = parseMetadata(jsonMetadata);
+    if (typeof author !== 'string' || typeof permlink !== 'string' || !author || !permlink) return null;
+    return { author, permlink };
+}
+
+/**
+ * Permlink of the cross-post, the same one again for the same community so it can't be repeated
+ */
+export function getCrossPostPermlink(original: CrossPostOrigin, community: string): string {
+    return `${original.permlink}-${community}`.slice(0, MAX_PERMLINK_LENGTH);
+}
+
+/**
+ * Body of the cross-post: the link to the original, then the message of the user sharing it
+ */
+export function buildCrossPostBody(original: CrossPostSource, username: string, message: string): string {
+    const link = `[@${original.author}/${original.permlink}](/${original.category}/@${original.author}/${original.permlink})`;
+    return `This is a cross post of ${link} by @${username}.${BODY_SEPARATOR}${message.trim()}`;
+}
+
+export function buildCrossPostMetadata(original: CrossPostSource, community: string, app: string): Record<string, unknown> {
+    const { image } = parseMetadata(original.json_metadata);
+    return {
+        app,
+        tags: [community, CROSS_POST_TAG],
+        ...(Array.isArray(image) ? { image } : {}), // Thumbnail of the original in the feeds
+        original_author: original.author,
+        original_permlink: original.permlink,
+    };
+}
+
+/**
+ * Message of the user who cross-posted, without the link to the original that is shown as a card
+ */
+export function getCrossPostMessage(body: string): string {
+    const index = body.indexOf(BODY_SEPARATOR);
+    return body.startsWith('This is a cross post of') && index !== -1 ? body.substring(index + BODY_SEPARATOR.length).trim() : '';
+}
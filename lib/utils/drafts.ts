@@ -0,0 +1,178 @@
+import type { IGif } from '@giphy/js-types';
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import type { PollDraft } from '@/lib/utils/polls';
+import type { PayoutOptions } from '@/lib/utils/payoutOptions';
+import type { SnapThread } from '@/lib/utils/snapThreads';
+
+/**
+ * Autosaved drafts of snaps and long-form posts.
+ * Every read and write goes through a DraftStore, IndexedDB for now so media files survive a reload.
+ */
+
+export type DraftKind = 'snap' | 'post';
+
+/**
+ * Media attached to a draft that is not part of the body yet
+ */
+export type DraftMedia =
+    | { type: 'image'; file: Blob; name: string; alt?: string; caption?: string } // Not uploaded until publishing
+    | { type: 'gif'; gif: IGif }
+    | { type: 'video'; url: string; name: string } // Already uploaded, embed url
+    | { type: 'audio'; url: string };
+
+export interface DraftContent {
+    title: string;
+    body: string;
+    hashtags: string[];
+    beneficiaries: Beneficiary[];
+    media: DraftMedia[];
+    poll?: PollDraft | null; // Missing in drafts saved before polls
+    community?: string; // Posts only, missing in drafts saved before the community picker
+    payout?: PayoutOptions; // Posts only, missing in drafts saved before payout options
+    thread?: SnapThread | null; // Snaps only, a thread partly published, resumed after its last published part
+}
+
+export interface Draft extends DraftContent {
+    id: string;
+    kind: DraftKind;
+    parentKey?: string; // Snap or post being replied to, `author/permlink`
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Storage backend of the drafts, a remote one only has to implement this
+ */
+export interface DraftStore {
+    list(): Promise<Draft[]>;
+    get(id: string): Promise<Draft | undefined>;
+    put(draft: Draft): Promise<void>;
+    remove(id: string): Promise<void>;
+}
+
+export const DRAFTS_CHANGE_EVENT = 'draftsChange';
+
+const DB_NAME = 'snapie-drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Drafts kept in the browser, media files included
+ */
+export function createIndexedDbDraftStore(): DraftStore {
+    let database: Promise<IDBDatabase> | null = null;
+
+    function openDatabase(): Promise<IDBDatabase> {
+        if (!database) {
+            database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    database = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return database;
+    }
+
+    async function getObjectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await openDatabase();
+        return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    return {
+        async list() {
+            return promisifyRequest((await getObjectStore('readonly')).getAll() as IDBRequest<Draft[]>);
+        },
+        async get(id: string) {
+            return promisifyRequest((await getObjectStore('readonly')).get(id) as IDBRequest<Draft | undefined>);
+        },
+        async put(draft: Draft) {
+            await promisifyRequest((await getObjectStore('readwrite')).put(draft));
+        },
+        async remove(id: string) {
+            await promisifyRequest((await getObjectStore('readwrite')).delete(id));
+        },
+    };
+}
+
+let draftStore: DraftStore | null = null;
+
+export function getDraftStore(): DraftStore {
+    if (!draftStore) draftStore = createIndexedDbDraftStore();
+    return draftStore;
+}
+
+/**
+ * Swap the storage backend, e.g. for one syncing drafts between devices
+ */
+export function setDraftStore(store: DraftStore) {
+    draftStore = store;
+}
+
+export function generateDraftId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getDraftParentKey(author: string, permlink: string): string {
+    return `${author}/${permlink}`;
+}
+
+export function isDraftEmpty(content: DraftContent): boolean {
+    return !content.title.trim() && !content.body.trim() && content.media.length === 0 && !content.poll?.question.trim();
+}
+
+/**
+ * Short label of a draft for the drafts menu
+ */
+export function getDraftPreview(draft: Draft, maxLength = 60): string {
+    const text = (draft.title.trim() || draft.body.trim().split('\n')[0] || draft.poll?.question || '').trim();
+    if (!text) return draft.media.length ? `${draft.media.length} media attachment${draft.media.length > 1 ? 's' : ''}` : 'Empty draft';
+    return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function notifyDraftsChange() {
+    window.dispatchEvent(new Event(DRAFTS_CHANGE_EVENT));
+}
+
+/**
+ * Drafts of one kind, most recently edited first
+ * @param parentKey - Only the drafts replying to this snap or post, top-level ones when null
+ */
+export async function listDrafts(kind: DraftKind, parentKey?: string | null): Promise<Draft[]> {
+    const drafts = await getDraftStore().list();
+    return drafts
+        .filter((draft) => draft.kind === kind)
+        .filter((draft) => parentKey === undefined || (draft.parentKey || null) === parentKey)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveDraft(draft: Draft) {
+    await getDraftStore().put(draft);
+    notifyDraftsChange();
+}
+
+export async function deleteDraft(id: string) {
+    await getDraftStore().remove(id);
+    notifyDraftsChange();
+}
+
+/**
+ * Media of one type attached to a draft
+ */
+export function getDraftMedia<T extends DraftMedia['type']>(draft: Draft, type: T): Extract<DraftMedia, { type: T }>[] {
+    return draft.media.filter((media): media is Extract<DraftMedia, { type: T }> => media.type === type);
+}
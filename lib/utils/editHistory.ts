@@ -0,0 +1,59 @@
+import { applyPatch, isPatch } from './textDiff';
+
+/**
+ * Edit history of snaps and posts. Every edit is a new `comment` operation with the same permlink,
+ * so the versions are rebuilt from the account history of the author, oldest first.
+ */
+
+/**
+ * `comment` operation of the post found in the account history
+ */
+export interface CommentEdit {
+    timestamp: string;
+    trxId: string;
+    title: string;
+    body: string; // Full body, or a diff-match-patch patch against the previous one
+}
+
+export interface PostVersion {
+    timestamp: string;
+    trxId: string;
+    title: string;
+    body: string;
+    isPatch: boolean; // Broadcast as a patch
+    isIncomplete: boolean; // The patch didn't apply, the body is the one of the previous version
+}
+
+/**
+ * Edited posts have a last update later than their creation, named `updated` by the bridge API
+ */
+export function isEdited(post: { created: string; last_update?: string; updated?: string }): boolean {
+    const lastUpdate = post.last_update || post.updated;
+    return Boolean(lastUpdate) && lastUpdate! > post.created;
+}
+
+export function rebuildVersions(edits: CommentEdit[]): PostVersion[] {
+    const versions: PostVersion[] = [];
+    let body = '';
+
+    edits.forEach((edit, index) => {
+        const patched = isPatch(edit.body);
+        let isIncomplete = false;
+
+        if (!patched) {
+            body = edit.body;
+        } else {
+            // A patch with nothing before it means the history didn't reach the creation
+            const result = index > 0 ? applyPatch(body, edit.body) : null;
+            if (result === null) {
+                isIncomplete = true;
+            } else {
+                body = result;
+            }
+        }
+
+        versions.push({ timestamp: edit.timestamp, trxId: edit.trxId, title: edit.title, body, isPatch: patched, isIncomplete });
+    });
+
+    return versions;
+}
@@ -0,0 +1,58 @@
+import type { ExtendedComment } from "@/hooks/useComments";
+
+/**
+ * Session store of the loaded feeds, so going back to a feed restores it
+ * instead of reloading it from the first container.
+ * Kept in memory: it survives client-side navigation and is dropped on reload.
+ */
+
+export interface FeedCursor {
+    permlink: string;
+    date: string;
+}
+
+export interface FeedSnapshot {
+    snaps: ExtendedComment[];
+    cursor: FeedCursor | null;
+    hasMore: boolean;
+    currentPage: number;
+    rankedSnaps: ExtendedComment[] | null; // Whole ranked window for 'trending' and 'hot'
+    scrollTop: number;
+    savedAt: number;
+}
+
+const feeds = new Map<string, FeedSnapshot>();
+
+/**
+ * Build the key of a feed from everything that changes its content
+ */
+export function getFeedKey(...parts: (string | undefined | null)[]): string {
+    return parts.map((part) => part || '').join(':');
+}
+
+export function getFeedSnapshot(key: string): FeedSnapshot | undefined {
+    return feeds.get(key);
+}
+
+/**
+ * Save the loaded state of a feed, keeping its last scroll offset
+ */
+export function saveFeedSnapshot(key: string, snapshot: Omit<FeedSnapshot, 'scrollTop' | 'savedAt'>) {
+    const previous = feeds.get(key);
+    feeds.set(key, {
+        ...snapshot,
+        scrollTop: previous?.scrollTop ?? 0,
+        savedAt: Date.now(),
+    });
+}
+
+export function saveFeedScrollTop(key: string, scrollTop: number) {
+    const snapshot = feeds.get(key);
+    if (snapshot) {
+        snapshot.scrollTop = scrollTop;
+    }
+}
+
+export function clearFeedSnapshot(key: string) {
+    feeds.delete(key);
+}
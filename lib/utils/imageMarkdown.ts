@@ -0,0 +1,62 @@
+/**
+ * Markdown of uploaded images with their alt text and caption.
+ * The caption is the markdown title, `![alt](url "caption")`, so frontends that don't show it still render the image.
+ */
+
+export interface ImageDetails {
+    alt: string;
+    caption: string;
+}
+
+export interface MarkdownImage extends ImageDetails {
+    url: string;
+    markdown: string; // The whole `![...](...)`
+}
+
+const IMAGE_MARKDOWN_REGEX = /!\[([^\]]*)\]\((\S+?)(?:\s+"((?:[^"\\]|\\.)*)")?\)/g;
+
+// Alt text the composers used to write for every upload, as good as none
+const PLACEHOLDER_ALTS = ['', 'image', 'img', 'gif', 'photo', 'picture'];
+
+export const EMPTY_IMAGE_DETAILS: ImageDetails = { alt: '', caption: '' };
+
+function cleanText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+export function buildImageMarkdown(url: string, { alt, caption }: ImageDetails = EMPTY_IMAGE_DETAILS): string {
+    const safeAlt = cleanText(alt).replace(/[[\]]/g, '');
+    const safeCaption = cleanText(caption).replace(/["\\]/g, '\\$&');
+    return safeCaption ? `![${safeAlt}](${url} "${safeCaption}")` : `![${safeAlt}](${url})`;
+}
+
+/**
+ * Every markdown image of a text, in order
+ */
+export function parseImageMarkdown(text: string): MarkdownImage[] {
+    return Array.from(text.matchAll(IMAGE_MARKDOWN_REGEX), (match) => ({
+        markdown: match[0],
+        alt: match[1].trim(),
+        url: match[2],
+        caption: (match[3] || '').replace(/\\(.)/g, '$1').trim(),
+    }));
+}
+
+/**
+ * Replace every markdown image of a text
+ */
+export function replaceImageMarkdown(text: string, replacer: (image: MarkdownImage, index: number) => string): string {
+    let index = 0;
+    return text.replace(IMAGE_MARKDOWN_REGEX, (markdown) => {
+        const [image] = parseImageMarkdown(markdown);
+        return replacer(image, index++);
+    });
+}
+
+/**
+ * Whether an alt text actually describes the image, file names don't
+ */
+export function hasDescriptiveAlt(alt: string): boolean {
+    const text = alt.trim().toLowerCase();
+    return !PLACEHOLDER_ALTS.includes(text) && !/^[\w-]+\.(png|jpe?g|gif|webp|heic|avif)$/.test(text);
+}
@@ -0,0 +1,83 @@
+/**
+ * @mentions in snaps and posts: detection while typing, suggestion ranking and
+ * the `users` list written into json_metadata
+ */
+
+export type MentionSource = 'recent' | 'following' | 'community' | 'search';
+
+export interface MentionSuggestion {
+    account: string;
+    source: MentionSource;
+}
+
+/**
+ * Mention being typed right before the caret
+ */
+export interface MentionQuery {
+    query: string; // Typed part of the account name, lowercase
+    start: number; // Position of the `@`
+}
+
+export const MENTION_SOURCE_LABELS: Record<MentionSource, string> = {
+    recent: 'Recent',
+    following: 'Following',
+    community: 'Community',
+    search: '',
+};
+
+const MAX_SUGGESTIONS = 8;
+
+// An `@` after a letter, a slash or a dot belongs to an email or a URL like peakd.com/@user
+const TYPING_MENTION_REGEX = /(^|[^\w/@.])@([a-z0-9.-]{0,16})$/i;
+const MENTION_REGEX = /(^|[^\w/@.])@([a-z][a-z0-9-]*(?:\.[a-z][a-z0-9-]*)*)/gi;
+
+/**
+ * Find the mention being typed at the caret, null when the caret is not in one
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+    const match = text.slice(0, caret).match(TYPING_MENTION_REGEX);
+    if (!match) return null;
+    return { query: match[2].toLowerCase(), start: caret - match[2].length - 1 };
+}
+
+/**
+ * Accounts mentioned in a body, for `json_metadata.users`
+ */
+export function extractMentions(text: string): string[] {
+    const accounts: string[] = [];
+    for (const match of text.matchAll(MENTION_REGEX)) {
+        const account = match[2].toLowerCase();
+        // Hive account names are 3 to 16 characters long
+        if (account.length >= 3 && account.length <= 16) accounts.push(account);
+    }
+    return [...new Set(accounts)];
+}
+
+/**
+ * Merge the candidates matching the query, recent conversation partners first, then followed accounts,
+ * community members and finally the plain account lookup. An exact match always comes first.
+ */
+export function rankMentionSuggestions(
+    query: string,
+    candidates: Record<MentionSource, string[]>,
+    exclude: string[] = [],
+    limit: number = MAX_SUGGESTIONS
+): MentionSuggestion[] {
+    const seen = new Set(exclude);
+    const ranked: MentionSuggestion[] = [];
+    const sources: MentionSource[] = ['recent', 'following', 'community', 'search'];
+
+    sources.forEach((source) => {
+        // Recent partners keep their order, the other lists read best alphabetically
+        const accounts = source === 'recent' ? candidates[source] : [...candidates[source]].sort();
+        accounts.forEach((account) => {
+            if (seen.has(account) || !account.startsWith(query)) return;
+            seen.add(account);
+            ranked.push({ account, source });
+        });
+    });
+
+    const exactIndex = ranked.findIndex((suggestion) => suggestion.account === query);
+    if (exactIndex > 0) ranked.unshift(...ranked.splice(exactIndex, 1));
+    return ranked.slice(0, limit);
+}
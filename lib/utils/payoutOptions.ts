@@ -0,0 +1,99 @@
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+
+/**
+ * Payout options of a post, sent in its comment_options: how the author's rewards are paid,
+ * or declined, and the most the post can be paid
+ */
+
+export type PayoutType = 'default' | 'powerUp' | 'decline';
+
+export interface PayoutOptions {
+    type: PayoutType;
+    maxAcceptedPayout: string; // HBD as typed by the author, empty for no limit
+}
+
+export const DEFAULT_PAYOUT_OPTIONS: PayoutOptions = { type: 'default', maxAcceptedPayout: '' };
+
+export const PAYOUT_TYPE_LABELS: Record<PayoutType, string> = {
+    default: '50% HBD / 50% HP',
+    powerUp: '100% Power Up',
+    decline: 'Decline payout',
+};
+
+const MAX_ACCEPTED_PAYOUT = 1000000; // What every frontend sends when there is no limit
+const FULL_PERCENT = 10000;
+const CURATION_SHARE = 50; // Percent of a post's rewards going to its voters
+
+/**
+ * Check the options before publishing, null when they can be sent
+ */
+export function validatePayoutOptions(options: PayoutOptions): string | null {
+    const value = options.maxAcceptedPayout.trim();
+    if (options.type === 'decline' || !value) return null;
+
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || !/^\d+(\.\d{1,3})?$/.test(value)) {
+        return 'The maximum payout must be an amount of HBD with up to 3 decimals';
+    }
+    if (amount <= 0) {
+        return 'The maximum payout must be above 0 HBD, decline the payout instead';
+    }
+    if (amount > MAX_ACCEPTED_PAYOUT) {
+        return `The maximum payout can't be above ${MAX_ACCEPTED_PAYOUT.toLocaleString()} HBD`;
+    }
+    return null;
+}
+
+/**
+ * Payout fields of the comment_options operation
+ */
+export function getPayoutParameters(options: PayoutOptions): { max_accepted_payout: string; percent_hbd: number } {
+    const limit = options.maxAcceptedPayout.trim() ? Number(options.maxAcceptedPayout) : MAX_ACCEPTED_PAYOUT;
+    const maxAcceptedPayout = options.type === 'decline' ? 0 : limit;
+    return {
+        max_accepted_payout: `${maxAcceptedPayout.toFixed(3)} HBD`,
+        percent_hbd: options.type === 'powerUp' ? 0 : FULL_PERCENT,
+    };
+}
+
+/**
+ * Read the options back from comment_options fields, of a scheduled or published post
+ */
+export function parsePayoutOptions(fields: { max_accepted_payout?: string; percent_hbd?: number }): PayoutOptions {
+    const maxAcceptedPayout = parseFloat(fields.max_accepted_payout || '');
+    if (maxAcceptedPayout === 0) return { type: 'decline', maxAcceptedPayout: '' };
+    return {
+        type: fields.percent_hbd === 0 ? 'powerUp' : 'default',
+        maxAcceptedPayout: maxAcceptedPayout > 0 && maxAcceptedPayout < MAX_ACCEPTED_PAYOUT ? String(maxAcceptedPayout) : '',
+    };
+}
+
+export interface RewardSplit {
+    curators: number; // Percent of the post's rewards
+    beneficiaries: number;
+    authorHbd: number;
+    authorHp: number;
+}
+
+/**
+ * How the rewards of the post would be shared, all zero when the payout is declined
+ */
+export function getRewardSplit(options: PayoutOptions, beneficiaries: Beneficiary[]): RewardSplit {
+    if (options.type === 'decline') {
+        return { curators: 0, beneficiaries: 0, authorHbd: 0, authorHp: 0 };
+    }
+
+    const authorShare = 100 - CURATION_SHARE;
+    const beneficiaryWeight = Math.min(beneficiaries.reduce((sum, beneficiary) => sum + beneficiary.weight, 0), FULL_PERCENT);
+    const beneficiaryShare = (authorShare * beneficiaryWeight) / FULL_PERCENT;
+    const authorRemainder = authorShare - beneficiaryShare;
+    // The chain pays half of the author's part liquid, as HBD with the default percent_hbd
+    const authorHbd = options.type === 'powerUp' ? 0 : authorRemainder / 2;
+
+    return {
+        curators: CURATION_SHARE,
+        beneficiaries: beneficiaryShare,
+        authorHbd,
+        authorHp: authorRemainder - authorHbd,
+    };
+}
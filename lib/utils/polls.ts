@@ -0,0 +1,204 @@
+/**
+ * Polls attached to snaps and posts, following the Hive polls protocol used by HiveHub and PeakD:
+ * the poll lives in the `json_metadata` of the post and votes are `polls` custom_json operations
+ * pointing to the transaction that created it.
+ */
+
+export const POLLS_CUSTOM_JSON_ID = 'polls';
+export const POLL_PROTOCOL_VERSION = 0.7;
+
+export const MIN_POLL_CHOICES = 2;
+export const MAX_POLL_CHOICES = 6;
+const MAX_QUESTION_LENGTH = 200;
+const MAX_CHOICE_LENGTH = 80;
+const MIN_POLL_DURATION = 60 * 60 * 1000; // 1 hour
+const MAX_POLL_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEFAULT_POLL_DURATION = 3 * 24 * 60 * 60 * 1000; // 3 days
+
+/**
+ * Poll read from the metadata of a post
+ */
+export interface Poll {
+    question: string;
+    choices: string[];
+    endTime: string; // ISO date
+    maxChoices: number; // How many choices a voter may pick
+    allowVoteChanges: boolean;
+    hideResultsUntilVoted: boolean;
+}
+
+/**
+ * Poll being written in a composer
+ */
+export interface PollDraft {
+    question: string;
+    choices: string[];
+    endTime: string; // ISO date
+    maxChoices: number;
+}
+
+/**
+ * Vote operation of one account, choices are 1-based like on chain
+ */
+export interface PollVote {
+    voter: string;
+    choices: number[];
+    timestamp?: string; // ISO date, votes without one are taken as cast in time
+}
+
+/**
+ * Tally of a poll, as served by the aggregation API
+ */
+export interface PollResults {
+    trxId: string | null; // Transaction that created the poll, votes point to it
+    votes: Record<string, number[]>; // Counted choices of every voter
+    counts: number[]; // Votes per choice, in the order of the choices
+    totalVoters: number;
+    isClosed: boolean;
+    updatedAt: string;
+}
+
+export function createEmptyPollDraft(now: number = Date.now()): PollDraft {
+    return {
+        question: '',
+        choices: ['', ''],
+        endTime: new Date(now + DEFAULT_POLL_DURATION).toISOString(),
+        maxChoices: 1,
+    };
+}
+
+/**
+ * Check a poll before publishing, null when it is valid
+ */
+export function validatePollDraft(draft: PollDraft, now: number = Date.now()): string | null {
+    const question = draft.question.trim();
+    if (!question) return 'Ask a question';
+    if (question.length > MAX_QUESTION_LENGTH) return `The question can be up to ${MAX_QUESTION_LENGTH} characters`;
+
+    const choices = draft.choices.map((choice) => choice.trim());
+    if (choices.some((choice) => !choice)) return 'Fill in every option or remove the empty ones';
+    if (choices.length < MIN_POLL_CHOICES || choices.length > MAX_POLL_CHOICES) {
+        return `A poll needs ${MIN_POLL_CHOICES} to ${MAX_POLL_CHOICES} options`;
+    }
+    if (choices.some((choice) => choice.length > MAX_CHOICE_LENGTH)) return `Options can be up to ${MAX_CHOICE_LENGTH} characters`;
+    if (new Set(choices.map((choice) => choice.toLowerCase())).size !== choices.length) return 'Options must be different';
+
+    const endTime = new Date(draft.endTime).getTime();
+    if (isNaN(endTime)) return 'Invalid end time';
+    if (endTime < now + MIN_POLL_DURATION) return 'The poll must stay open for at least an hour';
+    if (endTime > now + MAX_POLL_DURATION) return 'Polls can stay open up to 30 days';
+
+    if (!Number.isInteger(draft.maxChoices) || draft.maxChoices < 1 || draft.maxChoices > choices.length) {
+        return 'Invalid number of choices per voter';
+    }
+    return null;
+}
+
+/**
+ * Fields merged into the `json_metadata` of the post carrying the poll
+ */
+export function buildPollMetadata(draft: PollDraft): Record<string, unknown> {
+    return {
+        content_type: 'poll',
+        version: POLL_PROTOCOL_VERSION,
+        question: draft.question.trim(),
+        choices: draft.choices.map((choice) => choice.trim()),
+        preferred_interpretation: 'number_of_votes',
+        token: null,
+        end_time: Math.floor(new Date(draft.endTime).getTime() / 1000),
+        filters: { account_age: 0 },
+        ui_hide_res_until_voted: false,
+        max_choices_voted: draft.maxChoices,
+        allow_vote_changes: true,
+    };
+}
+
+/**
+ * Read the poll of a post, null when it carries none
+ */
+export function parsePollMetadata(jsonMetadata: string | Record<string, any> | undefined | null): Poll | null {
+    let metadata: Record<string, any>;
+    try {
+        metadata = typeof jsonMetadata === 'string' ? JSON.parse(jsonMetadata || '{}') : jsonMetadata || {};
+    } catch {
+        return null;
+    }
+
+    if (metadata?.content_type !== 'poll' || typeof metadata.question !== 'string') return null;
+    if (!Array.isArray(metadata.choices) || metadata.choices.length < MIN_POLL_CHOICES) return null;
+
+    const endTime = Number(metadata.end_time);
+    if (!endTime) return null;
+
+    const choices = metadata.choices.map(String);
+    const maxChoices = Number(metadata.max_choices_voted) || 1;
+    return {
+        question: metadata.question,
+        choices,
+        endTime: new Date(endTime * 1000).toISOString(),
+        maxChoices: Math.min(Math.max(maxChoices, 1), choices.length),
+        allowVoteChanges: metadata.allow_vote_changes !== false,
+        hideResultsUntilVoted: metadata.ui_hide_res_until_voted === true,
+    };
+}
+
+export function pollToDraft(poll: Poll): PollDraft {
+    return {
+        question: poll.question,
+        choices: [...poll.choices],
+        endTime: poll.endTime,
+        maxChoices: poll.maxChoices,
+    };
+}
+
+export function isPollClosed(poll: Poll, now: number = Date.now()): boolean {
+    return new Date(poll.endTime).getTime() <= now;
+}
+
+/**
+ * Check the choices of a vote, 1-based and within the limit of the poll
+ */
+export function isValidPollVote(poll: Poll, choices: number[]): boolean {
+    if (choices.length < 1 || choices.length > poll.maxChoices) return false;
+    if (new Set(choices).size !== choices.length) return false;
+    return choices.every((choice) => Number.isInteger(choice) && choice >= 1 && choice <= poll.choices.length);
+}
+
+/**
+ * JSON of the `polls` custom_json casting a vote
+ */
+export function buildPollVoteJson(trxId: string, choices: number[]) {
+    return { poll: trxId, action: 'vote', choices };
+}
+
+/**
+ * Keep the counted vote of every account: votes after the end or outside the choices are dropped,
+ * then the latest one wins, or the first one when the poll does not allow changes.
+ */
+export function collectPollVotes(poll: Poll, votes: PollVote[]): Record<string, number[]> {
+    const endTime = new Date(poll.endTime).getTime();
+    const ordered = [...votes].sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+    const counted: Record<string, number[]> = {};
+
+    for (const vote of ordered) {
+        if (vote.timestamp && new Date(vote.timestamp).getTime() > endTime) continue;
+        if (!isValidPollVote(poll, vote.choices)) continue;
+        if (counted[vote.voter] && !poll.allowVoteChanges) continue;
+        counted[vote.voter] = vote.choices;
+    }
+    return counted;
+}
+
+/**
+ * Votes per choice and number of voters
+ */
+export function countPollVotes(poll: Poll, votes: Record<string, number[]>): { counts: number[]; totalVoters: number } {
+    const counts = poll.choices.map(() => 0);
+    const voters = Object.values(votes);
+    voters.forEach((choices) => {
+        choices.forEach((choice) => {
+            counts[choice - 1] += 1;
+        });
+    });
+    return { counts, totalVoters: voters.length };
+}
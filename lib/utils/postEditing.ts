@@ -0,0 +1,36 @@
+/**
+ * Deleting snaps and posts. The chain only accepts `delete_comment` before payout, for a post
+ * without replies or votes; any other post can only be blanked with an edit.
+ */
+
+export const BLANKED_BODY = '*This content was removed by its author.*';
+export const BLANKED_TITLE = '[removed]';
+
+const PAYOUT_WINDOW = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type DeleteMode = 'delete' | 'blank';
+
+/**
+ * Whether `delete_comment` would be accepted for the post
+ * @param voteCount - Votes the post has, counting one just cast
+ */
+export function canDeleteFromChain(post: { created: string; children: number }, voteCount: number): boolean {
+    const age = Date.now() - new Date(`${post.created}Z`).getTime();
+    return post.children === 0 && voteCount === 0 && age < PAYOUT_WINDOW;
+}
+
+/**
+ * Metadata of a blanked post: only the app and tags are kept so it stays where it was listed
+ */
+export function buildBlankedMetadata(jsonMetadata: unknown): Record<string, unknown> {
+    let metadata: Record<string, unknown> = {};
+    try {
+        metadata = typeof jsonMetadata === 'string' ? JSON.parse(jsonMetadata) : (jsonMetadata as Record<string, unknown>) || {};
+    } catch {
+        // Nothing to keep
+    }
+    return {
+        ...(metadata.app ? { app: metadata.app } : {}),
+        ...(Array.isArray(metadata.tags) ? { tags: metadata.tags } : {}),
+    };
+}
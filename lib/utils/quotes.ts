@@ -0,0 +1,60 @@
+/**
+ * Quote re-snaps: a snap commenting on another one. The quoted snap is named in `json_metadata.quote`,
+ * and the body ends with a mention of its author and a link to it, so other frontends still show it
+ * and the author gets a mention notification.
+ */
+
+export interface SnapQuote {
+    author: string;
+    permlink: string;
+}
+
+// Frontend every Hive app recognises, see extractHivePostUrls
+const QUOTE_LINK_HOST = 'https://hive.blog';
+
+export function getQuoteUrl({ author, permlink }: SnapQuote): string {
+    return `${QUOTE_LINK_HOST}/@${author}/${permlink}`;
+}
+
+/**
+ * Line appended to the text of a quote, kept out of the character count
+ */
+export function buildQuoteFooter(quote: SnapQuote): string {
+    return `Quoting @${quote.author}: ${getQuoteUrl(quote)}`;
+}
+
+export function buildQuoteMetadata(quote: SnapQuote): { quote: SnapQuote } {
+    return { quote: { author: quote.author, permlink: quote.permlink } };
+}
+
+/**
+ * Read the quoted snap from json_metadata, either raw or already parsed
+ */
+export function getSnapQuote(jsonMetadata: unknown): SnapQuote | null {
+    let metadata = jsonMetadata;
+    if (typeof metadata === 'string') {
+        try {
+            metadata = JSON.parse(metadata);
+        } catch {
+            return null;
+        }
+    }
+    if (!metadata || typeof metadata !== 'object') return null;
+
+    const quote = (metadata as { quote?: unknown }).quote;
+    if (!quote || typeof quote !== 'object') return null;
+    const { author, permlink } = quote as Record<string, unknown>;
+    if (typeof author !== 'string' || typeof permlink !== 'string' || !author || !permlink) return null;
+    return { author, permlink };
+}
+
+export function isSameSnap(a: SnapQuote, b: SnapQuote): boolean {
+    return a.author === b.author && a.permlink === b.permlink;
+}
+
+/**
+ * Remove the footer from the text of a quote, the quoted snap is shown as a card instead
+ */
+export function stripQuoteFooter(text: string, quote: SnapQuote): string {
+    return text.replace(buildQuoteFooter(quote), '').trim();
+}
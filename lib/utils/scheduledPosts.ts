@@ -0,0 +1,144 @@
+import type { Operation } from '@hiveio/dhive';
+import type { Beneficiary } from '@/components/compose/BeneficiariesInput';
+import { PollDraft, parsePollMetadata, pollToDraft } from '@/lib/utils/polls';
+import { PayoutOptions, parsePayoutOptions } from '@/lib/utils/payoutOptions';
+
+/**
+ * Scheduled long-form posts, shared by the compose page and the scheduler API routes
+ */
+
+export type ScheduledPostStatus = 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+export interface ScheduledPost {
+    id: string;
+    author: string;
+    permlink: string;
+    title: string;
+    operations: Operation[]; // `comment` and `comment_options`, as prepared by the compose page
+    publishAt: string; // ISO date
+    status: ScheduledPostStatus;
+    attempts: number;
+    nextAttemptAt?: string; // Set after a failed broadcast that will be retried
+    lastError?: string;
+    trxId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Fields of a scheduled post that can be edited while it is still waiting
+ */
+export interface ScheduledPostChanges {
+    operations?: Operation[];
+    publishAt?: string;
+}
+
+// Requests to the scheduler API are signed with the posting key of the author
+export const SCHEDULER_AUTH_HEADERS = {
+    username: 'x-hive-username',
+    timestamp: 'x-hive-timestamp',
+    signature: 'x-hive-signature',
+};
+export const SCHEDULER_AUTH_MAX_AGE = 60 * 60 * 1000; // A signature is reused for one hour
+
+const MIN_SCHEDULE_LEAD = 2 * 60 * 1000; // 2 minutes
+const MAX_SCHEDULE_LEAD = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+export function buildSchedulerAuthMessage(username: string, timestamp: number): string {
+    return `snapie-scheduler:${username}:${timestamp}`;
+}
+
+/**
+ * Check a publish time, null when it is valid
+ */
+export function validatePublishAt(publishAt: string, now: number = Date.now()): string | null {
+    const time = new Date(publishAt).getTime();
+    if (isNaN(time)) return 'Invalid publish time';
+    if (time < now + MIN_SCHEDULE_LEAD) return 'The publish time must be at least 2 minutes from now';
+    if (time > now + MAX_SCHEDULE_LEAD) return 'Posts can be scheduled up to 90 days ahead';
+    return null;
+}
+
+export type ScheduledOperationsValidation =
+    | { operations: Operation[]; error: null }
+    | { operations: null; error: string };
+
+/**
+ * Check that the operations only publish a top-level post of the author, and return them typed once they are valid.
+ * The app account signs them, so nothing else may slip in.
+ */
+export function validateScheduledOperations(author: string, operations: unknown): ScheduledOperationsValidation {
+    const error = getScheduledOperationsError(author, operations);
+    return error ? { operations: null, error } : { operations: operations as Operation[], error: null };
+}
+
+function getScheduledOperationsError(author: string, operations: unknown): string | null {
+    if (!Array.isArray(operations) || operations.length < 1 || operations.length > 2) {
+        return 'Expected a comment operation and optional comment options';
+    }
+
+    const [commentOp, optionsOp] = operations as [string, any][];
+    if (!Array.isArray(commentOp) || commentOp[0] !== 'comment' || typeof commentOp[1] !== 'object') {
+        return 'The first operation must be a comment';
+    }
+
+    const comment = commentOp[1];
+    if (comment.author !== author) return 'The post must be written by the signed in account';
+    if (comment.parent_author !== '') return 'Only top-level posts can be scheduled';
+    if (typeof comment.permlink !== 'string' || !comment.permlink) return 'Missing permlink';
+    if (typeof comment.title !== 'string' || !comment.title.trim()) return 'Missing title';
+    if (typeof comment.body !== 'string' || !comment.body.trim()) return 'Missing body';
+
+    if (optionsOp !== undefined) {
+        if (!Array.isArray(optionsOp) || optionsOp[0] !== 'comment_options' || typeof optionsOp[1] !== 'object') {
+            return 'The second operation must be comment options';
+        }
+        if (optionsOp[1].author !== author || optionsOp[1].permlink !== comment.permlink) {
+            return 'The comment options must target the scheduled post';
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Read the composer fields back from the operations of a scheduled post
+ */
+export function parseScheduledOperations(operations: Operation[]): {
+    permlink: string;
+    title: string;
+    body: string;
+    community: string;
+    hashtags: string[];
+    beneficiaries: Beneficiary[];
+    payout: PayoutOptions;
+    poll: PollDraft | null;
+} {
+    const comment = (operations[0]?.[1] || {}) as any;
+    const options = (operations[1]?.[1] || {}) as any;
+
+    let hashtags: string[] = [];
+    let poll: PollDraft | null = null;
+    try {
+        const metadata = JSON.parse(comment.json_metadata || '{}');
+        hashtags = Array.isArray(metadata.tags) ? metadata.tags.map(String) : [];
+        const parsedPoll = parsePollMetadata(metadata);
+        poll = parsedPoll ? pollToDraft(parsedPoll) : null;
+    } catch {
+        // Keep no tags
+    }
+
+    const beneficiaryExtension = (options.extensions || []).find((extension: any) => extension?.[0] === 0);
+    const beneficiaries: Beneficiary[] = beneficiaryExtension?.[1]?.beneficiaries || [];
+
+    return {
+        permlink: comment.permlink || '',
+        title: comment.title || '',
+        body: comment.body || '',
+        community: comment.parent_permlink || '',
+        hashtags,
+        beneficiaries,
+        payout: parsePayoutOptions(options),
+        poll,
+    };
+}
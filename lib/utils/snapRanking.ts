@@ -0,0 +1,100 @@
+import { Asset } from "@hiveio/dhive";
+
+export type RankMode = 'trending' | 'hot';
+export type RankWindow = '24h' | '7d';
+
+export const RANK_WINDOWS: Record<RankWindow, number> = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Weights of each engagement signal, one HBD of payout counts as ten votes
+const VOTE_WEIGHT = 1;
+const REPLY_WEIGHT = 2;
+const PAYOUT_WEIGHT = 10;
+
+// Higher gravity makes older snaps sink faster, hot favours what is new
+const GRAVITY: Record<RankMode, number> = {
+    trending: 1.2,
+    hot: 1.8,
+};
+const AGE_OFFSET_HOURS = 2;
+
+/**
+ * Fields of a snap used for ranking, satisfied by Comment and ExtendedComment
+ */
+export interface RankableSnap {
+    created: string;
+    net_votes: number;
+    children: number;
+    pending_payout_value?: string | Asset;
+    total_payout_value?: string | Asset;
+    curator_payout_value?: string | Asset;
+}
+
+/**
+ * Parse a chain timestamp, which is UTC but comes without a timezone suffix
+ */
+export function parseHiveDate(date: string): number {
+    const hasTimezone = /(Z|[+-]\d{2}:?\d{2})$/.test(date);
+    return new Date(hasTimezone ? date : date + 'Z').getTime();
+}
+
+function assetAmount(value?: string | Asset): number {
+    if (!value) return 0;
+    const amount = parseFloat(String(value));
+    return isNaN(amount) ? 0 : amount;
+}
+
+/**
+ * Total payout of a snap in HBD, pending or already paid out
+ */
+export function getSnapPayout(snap: RankableSnap): number {
+    return assetAmount(snap.pending_payout_value)
+        + assetAmount(snap.total_payout_value)
+        + assetAmount(snap.curator_payout_value);
+}
+
+/**
+ * Score a snap from its net votes, payout and replies, decayed by age
+ * @param snap The snap to score
+ * @param mode 'trending' or 'hot'
+ * @param now Reference time in milliseconds
+ * @returns The score, higher ranks first
+ */
+export function scoreSnap(snap: RankableSnap, mode: RankMode, now: number = Date.now()): number {
+    const engagement = Math.max(snap.net_votes, 0) * VOTE_WEIGHT
+        + snap.children * REPLY_WEIGHT
+        + getSnapPayout(snap) * PAYOUT_WEIGHT;
+    const ageHours = Math.max(now - parseHiveDate(snap.created), 0) / (60 * 60 * 1000);
+
+    return engagement / Math.pow(ageHours + AGE_OFFSET_HOURS, GRAVITY[mode]);
+}
+
+/**
+ * Check if a snap was created within the time window
+ */
+export function isWithinWindow(snap: RankableSnap, window: RankWindow, now: number = Date.now()): boolean {
+    return now - parseHiveDate(snap.created) <= RANK_WINDOWS[window];
+}
+
+/**
+ * Rank snaps of the time window, best scores first and newest first on ties
+ * @param snaps Snaps to rank, left untouched
+ * @param mode 'trending' or 'hot'
+ * @param window Only snaps created within this window are kept
+ * @param now Reference time in milliseconds
+ * @returns A new, sorted array
+ */
+export function rankSnaps<T extends RankableSnap>(
+    snaps: T[],
+    mode: RankMode,
+    window: RankWindow,
+    now: number = Date.now()
+): T[] {
+    return snaps
+        .filter((snap) => isWithinWindow(snap, window, now))
+        .map((snap) => ({ snap, score: scoreSnap(snap, mode, now) }))
+        .sort((a, b) => b.score - a.score || parseHiveDate(b.snap.created) - parseHiveDate(a.snap.created))
+        .map(({ snap }) => snap);
+}
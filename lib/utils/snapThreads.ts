@@ -0,0 +1,107 @@
+/**
+ * Long snaps posted as threads: the text is split into numbered parts published as a chain of replies
+ */
+
+export const SNAP_CHAR_LIMIT = 500;
+
+// Room kept in every part for the "\n\n12/12" counter
+const COUNTER_RESERVE = 8;
+
+const MARKDOWN_IMAGE_REGEX = /!\[[^\]]*\]\([^)]*\)/g;
+
+// Break after the end of a sentence, closing quotes and brackets included, or after a line
+const SENTENCE_BREAK_REGEX = /(?<=[.!?…]["'”’)\]]*\s|\n)/;
+const WORD_BREAK_REGEX = /(?<=\s)/;
+
+export interface SnapThreadPart {
+    body: string;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * Thread being published, kept until every part is on chain so a failed part can be retried
+ */
+export interface SnapThread {
+    parentAuthor: string; // Parent of the first part
+    parentPermlink: string;
+    permlink: string; // Permlink of the first part, the next ones get a `-2`, `-3`... suffix
+    parts: SnapThreadPart[];
+    published: string[]; // Permlinks of the parts already published, in order
+}
+
+/**
+ * Characters counted against the limit, images only take room in the markdown
+ */
+export function getSnapLength(text: string): number {
+    return text.replace(MARKDOWN_IMAGE_REGEX, '').trim().length;
+}
+
+function splitLongWord(word: string, budget: number): string[] {
+    const chunks: string[] = [];
+    let chunk = '';
+    for (const char of Array.from(word)) {
+        if (chunk.length + char.length > budget) {
+            chunks.push(chunk);
+            chunk = '';
+        }
+        chunk += char;
+    }
+    return chunk ? [...chunks, chunk] : chunks;
+}
+
+// Sentences that fit, longer ones broken between words and, as a last resort, inside a word
+function splitPieces(text: string, budget: number): string[] {
+    return text.split(SENTENCE_BREAK_REGEX).flatMap((sentence) => {
+        if (getSnapLength(sentence) <= budget) return [sentence];
+        return sentence.split(WORD_BREAK_REGEX).flatMap((word) => (
+            getSnapLength(word) <= budget ? [word] : splitLongWord(word, budget)
+        ));
+    });
+}
+
+/**
+ * Split a text into parts under the limit, breaking on sentence boundaries where possible
+ * @returns The text as a single part when it already fits
+ */
+export function splitIntoThread(text: string, limit: number = SNAP_CHAR_LIMIT): string[] {
+    const trimmed = text.trim();
+    if (getSnapLength(trimmed) <= limit) return [trimmed];
+
+    const budget = limit - COUNTER_RESERVE;
+    const parts: string[] = [];
+    let current = '';
+
+    splitPieces(trimmed, budget).forEach((piece) => {
+        if (getSnapLength(current + piece) <= budget) {
+            current += piece;
+            return;
+        }
+        if (current.trim()) parts.push(current.trim());
+        current = piece;
+    });
+    if (current.trim()) parts.push(current.trim());
+
+    return parts;
+}
+
+/**
+ * Body of one part: its text, the media attached to it and the "1/n" counter
+ */
+export function formatThreadPart(text: string, index: number, total: number, media: string[] = []): string {
+    const counter = total > 1 ? `${index + 1}/${total}` : '';
+    return [text, ...media, counter].filter(Boolean).join('\n\n');
+}
+
+export function getThreadPartPermlink(permlink: string, index: number): string {
+    return index === 0 ? permlink : `${permlink}-${index + 1}`;
+}
+
+/**
+ * Every part replies to the previous one, the first to the parent of the thread
+ */
+export function getThreadPartParent(thread: SnapThread, author: string, index: number): { parentAuthor: string; parentPermlink: string } {
+    if (index === 0) {
+        return { parentAuthor: thread.parentAuthor, parentPermlink: thread.parentPermlink };
+    }
+    return { parentAuthor: author, parentPermlink: thread.published[index - 1] ?? getThreadPartPermlink(thread.permlink, index - 1) };
+}
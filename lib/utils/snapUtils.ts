@@ -364,7 +364,7 @@ export const parseMediaContent = (mediaContent: string): MediaItem[] => {
     // Handle markdown images/videos with any IPFS gateway
     if (trimmedItem.includes("![") && trimmedItem.includes("http")) {
       // Extract ALL image markdown patterns from the line (there might be multiple or text before/after)
-      const imageRegex = /!\[.*?\]\((https?:\/\/[^)]+)\)/g;
+      const imageRegex = /!\[.*?\]\((https?:\/\/[^)\s]+)(?:\s+"(?:[^"\\]|\\.)*")?\)/g;
       let match;
       
       while ((match = imageRegex.exec(trimmedItem)) !== null) {
@@ -412,7 +412,7 @@ export const parseMediaContent = (mediaContent: string): MediaItem[] => {
 
     // Handle markdown images/videos with ipfs: protocol
     if (trimmedItem.includes("![") && trimmedItem.includes("ipfs:")) {
-      const urlMatch = trimmedItem.match(/!\[.*?\]\((.*?)\)/);
+      const urlMatch = trimmedItem.match(/!\[.*?\]\((\S+?)(?:\s+"(?:[^"\\]|\\.)*")?\)/);
       if (urlMatch && urlMatch[1]) {
         const url = urlMatch[1];
         if (isVideoUrl(url)) {
@@ -0,0 +1,120 @@
+/**
+ * Hive tags: normalisation, validation and suggestions for the snap and post composers
+ */
+
+export const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 24;
+const MAX_SUGGESTIONS = 8;
+
+export type TagSource = 'recent' | 'trending';
+
+export interface TagSuggestion {
+    tag: string;
+    label?: string; // Title of a community tag
+    source: TagSource;
+}
+
+// A `#` after a letter, a slash or an `&` belongs to a URL fragment or an HTML entity
+const HASHTAG_REGEX = /(^|[^\w/&#])#([\w-]+)/g;
+const TYPING_HASHTAG_REGEX = /(^|[^\w/&#])#([\w-]{0,24})$/;
+
+/**
+ * Lowercase a tag and drop the leading `#`
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+/**
+ * Check a normalised tag against the rules of the Hive frontends, null when it is valid
+ */
+export function validateTag(tag: string): string | null {
+    if (!tag) return 'Empty tag';
+    if (tag.length > MAX_TAG_LENGTH) return `Tags can be up to ${MAX_TAG_LENGTH} characters`;
+    if (!/^[a-z0-9-]+$/.test(tag)) return 'Use only lowercase letters, digits and one dash';
+    if (/-.*-/.test(tag)) return 'Use only one dash';
+    if (!/^[a-z]/.test(tag)) return 'Must start with a letter';
+    if (!/[a-z0-9]$/.test(tag)) return 'Must end with a letter or number';
+    return null;
+}
+
+export function isValidTag(tag: string): boolean {
+    return validateTag(tag) === null;
+}
+
+/**
+ * Hashtags written in a body, normalised, invalid ones included so they can be flagged
+ */
+export function extractHashtags(text: string): string[] {
+    const tags: string[] = [];
+    for (const match of text.matchAll(HASHTAG_REGEX)) {
+        tags.push(normalizeTag(match[2]));
+    }
+    return [...new Set(tags)];
+}
+
+/**
+ * Hashtag being typed right before the caret, null when the caret is not in one
+ */
+export function getHashtagQuery(text: string, caret: number): { query: string; start: number } | null {
+    const match = text.slice(0, caret).match(TYPING_HASHTAG_REGEX);
+    if (!match) return null;
+    return { query: normalizeTag(match[2]), start: caret - match[2].length - 1 };
+}
+
+/**
+ * Final `json_metadata.tags` of a post: valid and unique, the community tag first, at most MAX_TAGS
+ */
+export function prepareTags(tags: string[], communityTag?: string): string[] {
+    const prepared = [communityTag, ...tags]
+        .filter((tag): tag is string => Boolean(tag))
+        .map(normalizeTag)
+        .filter(isValidTag);
+    return [...new Set(prepared)].slice(0, MAX_TAGS);
+}
+
+/**
+ * Problems to show next to the tags of a composer, empty when every tag can be published
+ * @param reservedCount - Tags added automatically, like the community tag
+ */
+export function getTagWarnings(tags: string[], reservedCount: number = 0): string[] {
+    const warnings = tags
+        .map((tag) => {
+            const error = validateTag(tag);
+            return error ? `#${tag}: ${error}` : null;
+        })
+        .filter((warning): warning is string => warning !== null);
+
+    const validCount = new Set(tags.filter(isValidTag)).size;
+    if (validCount + reservedCount > MAX_TAGS) {
+        warnings.push(`Only ${MAX_TAGS - reservedCount} tags can be added, the others are left out`);
+    }
+    return warnings;
+}
+
+/**
+ * Tags matching the query, the user's recent tags before the trending ones
+ */
+export function rankTagSuggestions(
+    query: string,
+    candidates: { recent: string[]; trending: { tag: string; label?: string }[] },
+    exclude: string[] = [],
+    limit: number = MAX_SUGGESTIONS
+): TagSuggestion[] {
+    const seen = new Set(exclude);
+    const ranked: TagSuggestion[] = [];
+
+    candidates.recent.forEach((tag) => {
+        if (seen.has(tag) || !tag.startsWith(query)) return;
+        seen.add(tag);
+        ranked.push({ tag, source: 'recent' });
+    });
+    candidates.trending.forEach(({ tag, label }) => {
+        const matches = tag.startsWith(query) || Boolean(label?.toLowerCase().startsWith(query));
+        if (seen.has(tag) || !matches) return;
+        seen.add(tag);
+        ranked.push({ tag, label, source: 'trending' });
+    });
+
+    return ranked.slice(0, limit);
+}
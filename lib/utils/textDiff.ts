@@ -0,0 +1,300 @@
+/**
+ * Text diffs: word level comparison of two versions of a post, and the patches of the
+ * diff-match-patch text format that Hive frontends broadcast instead of a full body when editing.
+ */
+
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+    type: DiffType;
+    text: string;
+}
+
+// Beyond this many changed words the versions are shown as fully replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+function tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffType, text: string) {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        parts.push({ type, text });
+    }
+}
+
+/**
+ * Shortest edit script between two token lists (Myers), as a list of parts in order
+ */
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+    const parts: DiffPart[] = [];
+    const n = a.length;
+    const m = b.length;
+    if (n === 0 || m === 0) {
+        pushPart(parts, 'delete', a.join(''));
+        pushPart(parts, 'insert', b.join(''));
+        return parts;
+    }
+
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Array<number>(2 * offset + 1).fill(0);
+    const trace: number[][] = []; // Furthest x of each diagonal -d..d, before each step d
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(v.slice(offset - d, offset + d + 2));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    if (!found) {
+        pushPart(parts, 'delete', a.join(''));
+        pushPart(parts, 'insert', b.join(''));
+        return parts;
+    }
+
+    // Walk the trace back from the end, collecting the parts in reverse
+    const reversed: DiffPart[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const previous = trace[d];
+        const at = (k: number) => previous[k + d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            reversed.push({ type: 'equal', text: a[--x] });
+            y--;
+        }
+        if (x === prevX) {
+            reversed.push({ type: 'insert', text: b[--y] });
+        } else {
+            reversed.push({ type: 'delete', text: a[--x] });
+        }
+    }
+    while (x > 0 && y > 0) {
+        reversed.push({ type: 'equal', text: a[--x] });
+        y--;
+    }
+
+    for (let i = reversed.length - 1; i >= 0; i--) {
+        pushPart(parts, reversed[i].type, reversed[i].text);
+    }
+    return parts;
+}
+
+/**
+ * Word level diff of two texts, whitespace included so joining the parts gives back both texts
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    // The common start and end are left out of the search
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const parts: DiffPart[] = [];
+    pushPart(parts, 'equal', a.slice(0, start).join(''));
+    diffTokens(a.slice(start, endA), b.slice(start, endB)).forEach((part) => pushPart(parts, part.type, part.text));
+    pushPart(parts, 'equal', a.slice(endA).join(''));
+    return parts;
+}
+
+// Characters of unchanged text kept around each hunk, as diff-match-patch does
+const PATCH_MARGIN = 4;
+
+function encodePatchText(text: string): string {
+    return encodeURI(text).replace(/%20/g, ' ');
+}
+
+// Context never cuts an emoji or any other surrogate pair in half
+function isLowSurrogate(text: string, index: number): boolean {
+    const code = text.charCodeAt(index);
+    return code >= 0xdc00 && code <= 0xdfff;
+}
+
+// Starts are written 1-based, except for empty ranges
+function formatRange(start: number, length: number): string {
+    if (length === 0) return `${start},0`;
+    if (length === 1) return `${start + 1}`;
+    return `${start + 1},${length}`;
+}
+
+/**
+ * Patch turning one text into the other, in the diff-match-patch text format
+ * @returns An empty string when the texts are the same
+ */
+export function makePatch(before: string, after: string): string {
+    const diffs = diffText(before, after);
+    const hunks: string[] = [];
+    let position1 = 0; // In `before`
+    let position2 = 0; // In `after`, as patched by the previous hunks
+    let index = 0;
+
+    while (index < diffs.length) {
+        if (diffs[index].type === 'equal') {
+            position1 += diffs[index].text.length;
+            position2 += diffs[index].text.length;
+            index++;
+            continue;
+        }
+
+        // Changes separated by little unchanged text go to the same hunk
+        let end = index;
+        while (end + 1 < diffs.length) {
+            const next = diffs[end + 1];
+            if (next.type !== 'equal') {
+                end++;
+            } else if (end + 2 < diffs.length && next.text.length <= 2 * PATCH_MARGIN) {
+                end += 2;
+            } else {
+                break;
+            }
+        }
+
+        let prefixStart = Math.max(0, position1 - PATCH_MARGIN);
+        if (prefixStart > 0 && isLowSurrogate(before, prefixStart)) prefixStart--;
+        const prefix = before.substring(prefixStart, position1);
+        const hunk: DiffPart[] = prefix ? [{ type: 'equal', text: prefix }] : [];
+        let length1 = prefix.length;
+        let length2 = prefix.length;
+        for (let i = index; i <= end; i++) {
+            hunk.push(diffs[i]);
+            if (diffs[i].type !== 'insert') length1 += diffs[i].text.length;
+            if (diffs[i].type !== 'delete') length2 += diffs[i].text.length;
+        }
+        const consumed1 = length1 - prefix.length;
+        let suffixEnd = position1 + consumed1 + PATCH_MARGIN;
+        if (isLowSurrogate(before, suffixEnd)) suffixEnd++;
+        const suffix = before.substring(position1 + consumed1, suffixEnd);
+        if (suffix) hunk.push({ type: 'equal', text: suffix });
+        length1 += suffix.length;
+        length2 += suffix.length;
+
+        const header = `@@ -${formatRange(position1 - prefix.length, length1)} +${formatRange(position2 - prefix.length, length2)} @@`;
+        const lines = hunk.map((part) => `${part.type === 'equal' ? ' ' : part.type === 'delete' ? '-' : '+'}${encodePatchText(part.text)}`);
+        hunks.push([header, ...lines].join('\n') + '\n');
+
+        position1 += consumed1;
+        position2 += length2 - prefix.length - suffix.length;
+        index = end + 1;
+    }
+
+    return hunks.join('');
+}
+
+/**
+ * Body to broadcast for an edit: a patch when it is shorter than the new body, like other Hive frontends
+ */
+export function getEditBody(previous: string, next: string): string {
+    const patch = makePatch(previous, next);
+    return patch && patch.length < next.length ? patch : next;
+}
+
+interface Patch {
+    start1: number;
+    start2: number;
+    diffs: DiffPart[];
+}
+
+const PATCH_HEADER = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@$/;
+
+/**
+ * Bodies of edits sent as a patch start with a hunk header
+ */
+export function isPatch(body: string): boolean {
+    return /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@\n/.test(body);
+}
+
+// Starts are 1-based in the header, except for empty ranges
+function parseStart(start: string, length: string): number {
+    const value = parseInt(start, 10);
+    return length === '0' ? value : value - 1;
+}
+
+function parsePatch(patchText: string): Patch[] {
+    const patches: Patch[] = [];
+    const lines = patchText.split('\n');
+    let current: Patch | null = null;
+
+    for (const line of lines) {
+        if (!line) continue;
+        const header = line.match(PATCH_HEADER);
+        if (header) {
+            current = { start1: parseStart(header[1], header[2]), start2: parseStart(header[3], header[4]), diffs: [] };
+            patches.push(current);
+            continue;
+        }
+        if (!current) throw new Error('Invalid patch: missing hunk header');
+
+        const sign = line.charAt(0);
+        const text = decodeURI(line.substring(1));
+        if (sign === ' ') current.diffs.push({ type: 'equal', text });
+        else if (sign === '-') current.diffs.push({ type: 'delete', text });
+        else if (sign === '+') current.diffs.push({ type: 'insert', text });
+        else throw new Error(`Invalid patch line: ${line}`);
+    }
+    return patches;
+}
+
+// Occurrence of the text closest to where it is expected
+function findNearest(text: string, search: string, expected: number): number {
+    if (text.substring(expected, expected + search.length) === search) return expected;
+    const after = text.indexOf(search, Math.max(0, expected));
+    const before = text.lastIndexOf(search, Math.max(0, expected));
+    if (after === -1) return before;
+    if (before === -1) return after;
+    return expected - before <= after - expected ? before : after;
+}
+
+/**
+ * Apply a diff-match-patch patch to the previous body
+ * @returns null when a hunk doesn't match the text
+ */
+export function applyPatch(text: string, patchText: string): string | null {
+    let patches: Patch[];
+    try {
+        patches = parsePatch(patchText);
+    } catch {
+        return null;
+    }
+
+    let result = text;
+    let delta = 0; // Shift between where the hunks were made and where they are found
+    for (const patch of patches) {
+        const source = patch.diffs.filter((diff) => diff.type !== 'insert').map((diff) => diff.text).join('');
+        const target = patch.diffs.filter((diff) => diff.type !== 'delete').map((diff) => diff.text).join('');
+        const expected = patch.start2 + delta;
+        const location = source ? findNearest(result, source, expected) : Math.min(Math.max(expected, 0), result.length);
+        if (location === -1) return null;
+
+        delta = location - patch.start2;
+        result = result.substring(0, location) + target + result.substring(location + source.length);
+    }
+    return result;
+}
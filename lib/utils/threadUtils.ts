@@ -0,0 +1,120 @@
+import type { ExtendedComment } from '@/hooks/useComments';
+import { getSnapPayout, parseHiveDate } from './snapRanking';
+
+/**
+ * Helpers for the threaded conversation view: sorting, locating and patching reply trees
+ */
+
+export type ThreadSort = 'newest' | 'oldest' | 'votes' | 'payout';
+
+export const THREAD_SORT_LABELS: Record<ThreadSort, string> = {
+    newest: 'Newest',
+    oldest: 'Oldest',
+    votes: 'Most votes',
+    payout: 'Highest payout',
+};
+
+// Levels of replies fetched up front, deeper branches load on demand
+export const DEFAULT_THREAD_DEPTH = 3;
+// Replies shown per branch before a "show more" button
+export const REPLIES_PAGE_SIZE = 5;
+
+export interface ReplyRef {
+    author: string;
+    permlink: string;
+}
+
+export function getReplyKey(reply: ReplyRef): string {
+    return `${reply.author}/${reply.permlink}`;
+}
+
+/**
+ * DOM id of a reply in the thread, used to scroll to permalinks
+ */
+export function getReplyElementId(reply: ReplyRef): string {
+    return `reply-${reply.author}-${reply.permlink}`;
+}
+
+/**
+ * Parse the `reply` search param, `@author/permlink` with or without the @
+ */
+export function parseReplyPermalink(value: string | null): ReplyRef | null {
+    if (!value) return null;
+    const match = decodeURIComponent(value).match(/^@?([a-z0-9.-]+)\/([a-z0-9-]+)$/i);
+    if (!match) return null;
+    return { author: match[1].toLowerCase(), permlink: match[2] };
+}
+
+export function buildReplyPermalink(root: ReplyRef, reply: ReplyRef): string {
+    return `/@${root.author}/${root.permlink}?reply=@${reply.author}/${reply.permlink}`;
+}
+
+/**
+ * Sort one level of replies, the tree below is sorted by each branch as it renders
+ */
+export function sortReplies(replies: ExtendedComment[], sort: ThreadSort): ExtendedComment[] {
+    const sorted = [...replies];
+    switch (sort) {
+        case 'newest':
+            return sorted.sort((a, b) => parseHiveDate(b.created) - parseHiveDate(a.created));
+        case 'oldest':
+            return sorted.sort((a, b) => parseHiveDate(a.created) - parseHiveDate(b.created));
+        case 'votes':
+            return sorted.sort((a, b) => (b.net_votes || 0) - (a.net_votes || 0));
+        case 'payout':
+            return sorted.sort((a, b) => getSnapPayout(b) - getSnapPayout(a));
+    }
+}
+
+/**
+ * A reply whose children have not been fetched yet
+ */
+export function hasUnloadedReplies(reply: ExtendedComment): boolean {
+    return reply.children > 0 && !reply.replies;
+}
+
+/**
+ * Keys of the replies from the top of the tree down to the target, empty when it is not loaded
+ */
+export function findReplyPath(replies: ExtendedComment[], target: ReplyRef): string[] {
+    for (const reply of replies) {
+        if (reply.author === target.author && reply.permlink === target.permlink) {
+            return [getReplyKey(reply)];
+        }
+        if (reply.replies) {
+            const path = findReplyPath(reply.replies, target);
+            if (path.length) return [getReplyKey(reply), ...path];
+        }
+    }
+    return [];
+}
+
+/**
+ * Return a copy of the tree with the children of one reply replaced
+ */
+export function setReplyChildren(
+    replies: ExtendedComment[],
+    parent: ReplyRef,
+    children: ExtendedComment[]
+): ExtendedComment[] {
+    return replies.map((reply) => {
+        if (reply.author === parent.author && reply.permlink === parent.permlink) {
+            return { ...reply, replies: children };
+        }
+        if (reply.replies) {
+            return { ...reply, replies: setReplyChildren(reply.replies, parent, children) };
+        }
+        return reply;
+    });
+}
+
+export function findReply(replies: ExtendedComment[], target: ReplyRef): ExtendedComment | null {
+    for (const reply of replies) {
+        if (reply.author === target.author && reply.permlink === target.permlink) return reply;
+        if (reply.replies) {
+            const found = findReply(reply.replies, target);
+            if (found) return found;
+        }
+    }
+    return null;
+}
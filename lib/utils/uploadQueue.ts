@@ -0,0 +1,190 @@
+/**
+ * Queue of composer attachments being uploaded: images, GIFs, videos and audio.
+ * Uploads run a few at a time per kind, failed ones are retried with a growing delay and every task reports its progress.
+ */
+
+export type UploadKind = 'image' | 'gif' | 'video' | 'audio';
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'done' | 'error';
+
+export interface UploadTask {
+    id: string;
+    kind: UploadKind;
+    name: string;
+    status: UploadStatus;
+    progress: number; // 0 to 100
+    attempts: number;
+    result?: string; // Url of the uploaded file
+    error?: string; // Last failure, kept while retrying
+}
+
+export interface UploadContext {
+    signal: AbortSignal; // Aborted when the upload is cancelled
+    onProgress: (percent: number) => void;
+}
+
+export interface UploadJob {
+    kind: UploadKind;
+    name: string;
+    run: (context: UploadContext) => Promise<string>;
+    onSuccess?: (result: string) => void;
+}
+
+export interface UploadQueueOptions {
+    concurrency?: Partial<Record<UploadKind, number>>;
+    maxAttempts?: number;
+    retryDelay?: number; // First delay in ms, doubled on every attempt
+}
+
+export interface UploadQueue {
+    add: (job: UploadJob) => string;
+    retry: (id: string) => void;
+    cancel: (id: string) => void;
+    clear: () => void;
+    getTask: (id: string) => UploadTask | undefined;
+    getTasks: () => UploadTask[];
+    subscribe: (listener: (tasks: UploadTask[]) => void) => () => void;
+}
+
+const DEFAULT_CONCURRENCY: Record<UploadKind, number> = { image: 3, gif: 3, video: 1, audio: 1 };
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+
+export function isUploadPending(task: UploadTask): boolean {
+    return task.status === 'queued' || task.status === 'uploading' || task.status === 'retrying';
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+let nextTaskId = 0;
+
+export function createUploadQueue(options: UploadQueueOptions = {}): UploadQueue {
+    const concurrency = { ...DEFAULT_CONCURRENCY, ...options.concurrency };
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+    let tasks: UploadTask[] = [];
+    const jobs = new Map<string, UploadJob & { controller?: AbortController }>();
+    const listeners = new Set<(tasks: UploadTask[]) => void>();
+
+    function getTask(id: string) {
+        return tasks.find((task) => task.id === id);
+    }
+
+    function notify() {
+        listeners.forEach((listener) => listener(tasks));
+    }
+
+    function update(id: string, changes: Partial<UploadTask>) {
+        tasks = tasks.map((task) => (task.id === id ? { ...task, ...changes } : task));
+        notify();
+    }
+
+    function isActive(task: UploadTask) {
+        return task.status === 'uploading' || task.status === 'retrying';
+    }
+
+    // Start the queued tasks there is room for
+    function pump() {
+        for (const { id, kind, status } of tasks) {
+            if (status !== 'queued') continue;
+            const active = tasks.filter((task) => task.kind === kind && isActive(task)).length;
+            if (active < concurrency[kind]) start(id);
+        }
+    }
+
+    async function start(id: string) {
+        const job = jobs.get(id);
+        const task = getTask(id);
+        if (!job || !task) return;
+
+        const controller = new AbortController();
+        job.controller = controller;
+        const attempts = task.attempts + 1;
+        update(id, { status: 'uploading', attempts, progress: 0 });
+
+        try {
+            const result = await job.run({
+                signal: controller.signal,
+                onProgress: (percent) => {
+                    if (!controller.signal.aborted) update(id, { progress: Math.min(100, Math.round(percent)) });
+                },
+            });
+            if (controller.signal.aborted) return;
+            update(id, { status: 'done', progress: 100, result, error: undefined });
+            job.onSuccess?.(result);
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            const message = error instanceof Error ? error.message : String(error);
+
+            if (attempts >= maxAttempts) {
+                update(id, { status: 'error', error: message });
+                return;
+            }
+
+            // Keeps its slot while waiting
+            update(id, { status: 'retrying', error: message });
+            await wait(retryDelay * 2 ** (attempts - 1), controller.signal);
+            if (!controller.signal.aborted) start(id);
+        } finally {
+            pump();
+        }
+    }
+
+    return {
+        add(job) {
+            const id = `upload-${++nextTaskId}`;
+            jobs.set(id, job);
+            tasks = [...tasks, { id, kind: job.kind, name: job.name, status: 'queued', progress: 0, attempts: 0 }];
+            notify();
+            pump();
+            return id;
+        },
+
+        /**
+         * Start a failed upload again, with a fresh set of attempts
+         */
+        retry(id) {
+            if (getTask(id)?.status !== 'error') return;
+            update(id, { status: 'queued', attempts: 0, progress: 0 });
+            pump();
+        },
+
+        /**
+         * Abort an upload and forget it
+         */
+        cancel(id) {
+            jobs.get(id)?.controller?.abort();
+            jobs.delete(id);
+            tasks = tasks.filter((task) => task.id !== id);
+            notify();
+            pump();
+        },
+
+        clear() {
+            jobs.forEach((job) => job.controller?.abort());
+            jobs.clear();
+            tasks = [];
+            notify();
+        },
+
+        getTask,
+        getTasks: () => tasks,
+
+        subscribe(listener) {
+            listeners.add(listener);
+            listener(tasks);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
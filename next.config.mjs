@@ -1,6 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
     experimental: {
+        instrumentationHook: true, // Starts the scheduled posts worker
         serverActions: {
             bodySizeLimit: '10mb', // Increase the body size limit
         },
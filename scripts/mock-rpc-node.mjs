@@ -0,0 +1,113 @@
+// Minimal Hive RPC node for testing the post scheduler without broadcasting to the real chain.
+//
+//   node scripts/mock-rpc-node.mjs
+//   SCHEDULER_RPC_NODE=http://localhost:8090 SCHEDULER_ACCOUNT=snapie.app SCHEDULER_POSTING_KEY=<printed key> npm run dev
+//
+// Every account grants posting authority to MOCK_APP_ACCOUNT (default: snapie.app) and uses
+// MOCK_POSTING_PUBKEY as its posting key, so signed scheduler requests verify against it.
+// Broadcast transactions are kept in memory and listed at GET /transactions.
+import http from 'http';
+import { PrivateKey } from '@hiveio/dhive';
+
+const PORT = Number(process.env.MOCK_RPC_PORT) || 8090;
+const APP_ACCOUNT = process.env.MOCK_APP_ACCOUNT || 'snapie.app';
+
+// Throwaway key pair, never use it on the real chain
+const testKey = PrivateKey.fromSeed(`mock-rpc-node-${Date.now()}`);
+const POSTING_PUBKEY = process.env.MOCK_POSTING_PUBKEY || testKey.createPublic().toString();
+
+const transactions = [];
+const contents = new Map();
+let headBlock = 1000;
+
+function getDynamicGlobalProperties() {
+  headBlock += 1;
+  return {
+    head_block_number: headBlock,
+    head_block_id: headBlock.toString(16).padStart(8, '0') + '0'.repeat(32),
+    time: new Date().toISOString().slice(0, 19),
+  };
+}
+
+function getAccount(name) {
+  return {
+    name,
+    posting: {
+      weight_threshold: 1,
+      account_auths: [[APP_ACCOUNT, 1]],
+      key_auths: [[POSTING_PUBKEY, 1]],
+    },
+  };
+}
+
+function broadcastTransaction(transaction) {
+  transactions.push({ receivedAt: new Date().toISOString(), transaction });
+  for (const [type, op] of transaction.operations) {
+    if (type === 'comment') {
+      contents.set(`${op.author}/${op.permlink}`, { ...op, created: new Date().toISOString().slice(0, 19) });
+      console.log(`📝 Published @${op.author}/${op.permlink}: ${op.title}`);
+    } else {
+      console.log(`➕ ${type} for @${op.author}/${op.permlink}`);
+    }
+  }
+  return {};
+}
+
+const methods = {
+  get_dynamic_global_properties: () => getDynamicGlobalProperties(),
+  get_accounts: ([names]) => names.map(getAccount),
+  // Like the real node, a missing post comes back with an empty author
+  get_content: ([author, permlink]) => contents.get(`${author}/${permlink}`) || { author: '', permlink: '' },
+  broadcast_transaction: ([transaction]) => broadcastTransaction(transaction),
+  broadcast_transaction_synchronous: ([transaction]) => broadcastTransaction(transaction),
+};
+
+function handleRpc(request) {
+  // Accept both `condenser_api.method` and `call` with [api, method, params]
+  let method = request.method;
+  let params = request.params || [];
+  if (method === 'call') {
+    [, method, params] = params;
+  } else {
+    method = method.split('.').pop();
+  }
+
+  const handler = methods[method];
+  if (!handler) {
+    return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } };
+  }
+  return { jsonrpc: '2.0', id: request.id, result: handler(params) };
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/transactions') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(transactions, null, 2));
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      const request = JSON.parse(body);
+      const response = Array.isArray(request) ? request.map(handleRpc) : handleRpc(request);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: String(error) } }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock Hive RPC node on http://localhost:${PORT}`);
+  console.log(`   App account with posting authority: ${APP_ACCOUNT}`);
+  console.log(`   Posting public key of every account: ${POSTING_PUBKEY}`);
+  if (!process.env.MOCK_POSTING_PUBKEY) {
+    console.log(`   Matching test private key: ${testKey.toString()}`);
+  }
+});